@@ -1,166 +1,810 @@
 
-import React, { useState, Suspense } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { ScrollControls, Scroll, Loader } from '@react-three/drei';
+import { ScrollControls, Scroll, Loader, useScroll } from '@react-three/drei';
 import * as THREE from 'three';
 import { ZenScene } from './components/ZenScene';
-import { Season, TimeOfDay, HaikuData } from './types';
+import { RakeControls } from './components/RakeControls';
+import { GardenEditorPanel } from './components/GardenEditorPanel';
+import { GardenEditorState } from './components/GardenEditor';
+import { ExploreState } from './components/ExploreControls';
+import { ExplorePanel } from './components/ExplorePanel';
+import { AudioControls } from './components/AudioControls';
+import { MeditationPanel } from './components/MeditationPanel';
+import { BreathingGuide } from './components/BreathingGuide';
+import { HaikuLibraryPanel } from './components/HaikuLibraryPanel';
+import { KoanOfTheDay, KoanPanel } from './components/KoanPanel';
+import { QualityPanel } from './components/QualityPanel';
+import { QualityGovernor } from './components/QualityGovernor';
+import { HaikuDialog } from './components/HaikuDialog';
+import { ChapterRail } from './components/ChapterRail';
+import { CaptureOptions, CapturePanel } from './components/CapturePanel';
+import { PosterRequest, posterLimit } from './components/PosterCapture';
+import { RecordPanel } from './components/RecordPanel';
+import { ClipRecorder } from './components/ClipRecorder';
+import { Season, SeasonMode, TimeMode, TimeSettings, Weather, HaikuData, RakeStroke, RakeWidth, GardenLayout, GardenElementType, TransformMode, MeditationSettings, KoanData, QualityPreferences, QualityTier, Hemisphere } from './types';
+import { useHistory } from './hooks/useHistory';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { DEFAULT_RAKE_STROKES } from './utils/rake';
+import { ambientAudio } from './utils/audio';
+import { dayClock, formatHours, TIME_PRESETS } from './utils/dayCycle';
+import { CALENDAR_CHECK_SECONDS, calendarSeason, nextSeason, SEASON_CYCLE_SECONDS, seasonClock } from './utils/seasonCycle';
+import { loadViewerPreferences, saveViewerPreferences } from './utils/preferences';
+import { pickNextWeather, weatherDwell } from './utils/weather';
+import { PACING_PRESETS } from './utils/meditation';
+import { haikuPool, loadHaikuLibrary, saveHaikuLibrary } from './utils/haikuLibrary';
+import { loadKoanLibrary, saveKoanLibrary, todaysKoan } from './utils/koans';
+import { loadQualityPreferences, resolveQuality, saveQualityPreferences } from './utils/quality';
+import { DEFAULT_GARDEN_LAYOUT, GardenLayoutError, addElement, clearLocalLayout, duplicateElement, loadGardenLayout, loadLocalLayout, removeElement, updateElement } from './utils/gardenLayout';
+import { describeScene } from './utils/sceneDescription';
+import { GARDEN_TOUR, requestChapter, writeChapterToUrl } from './utils/tour';
+import { composePoster, posterFilename, PosterText } from './utils/poster';
+import { clipFilename, ClipResult, ClipSettings } from './utils/clip';
+import { downloadBlob } from './utils/download';
+import { createTranslator, Language, LANGUAGES, loadLanguage, MessageKey, saveLanguage } from './utils/i18n';
+import { generateSeed, normalizeSeed, readSeedFromUrl, seededRandom, setGardenSeed, writeSeedToUrl } from './utils/random';
+
+// Swatch styles for the time presets (same look as the old fixed-time buttons)
+const PRESET_SWATCH: Record<string, string> = {
+  Dawn: 'bg-rose-300 border-rose-200 shadow-[0_0_15px_rgba(255,180,180,0.5)]',
+  Day: 'bg-yellow-100 border-yellow-200 shadow-[0_0_15px_rgba(255,255,200,0.5)]',
+  Sunset: 'bg-orange-400 border-orange-300 shadow-[0_0_15px_rgba(255,165,0,0.5)]',
+  Night: 'bg-indigo-900 border-indigo-400 shadow-[0_0_15px_rgba(100,100,255,0.5)]'
+};
+
+const TIME_MODES: TimeMode[] = [TimeMode.Manual, TimeMode.Clock, TimeMode.TimeLapse];
+
+// How long the scroll must rest on a chapter before it goes into the address bar
+const CHAPTER_SETTLE_MS = 1000;
+
+// How long the scene must hold still before the screen reader hears what changed
+const ANNOUNCE_SETTLE_MS = 1000;
 
 // --- Section Component for Scroll Overlay ---
-const Section = ({ children, opacity = 1, align = 'left' }: any) => {
+// One per tour chapter, as tall as the scroll the chapter spans so later sections line up with theirs
+const Section = ({ children, opacity = 1, align = 'left', page }: any) => {
   return (
-    <div className={`h-screen w-screen flex flex-col justify-center p-10 md:p-24 ${align === 'right' ? 'items-end text-right' : align === 'center' ? 'items-center text-center' : 'items-start text-left'}`} style={{ opacity }}>
-      <div className="max-w-2xl">
-        {children}
+    <div data-page={page} className="w-screen" style={{ opacity, height: `${GARDEN_TOUR.spanOf(page) * 100}vh` }}>
+      <div className={`h-screen flex flex-col justify-center p-10 md:p-24 ${align === 'right' ? 'items-end text-right' : align === 'center' ? 'items-center text-center' : 'items-start text-left'}`}>
+        <div className="max-w-2xl">
+          {children}
+        </div>
       </div>
     </div>
   );
 };
 
+// Tabbing into a section scrolls the tour to it, as if the visitor had scrolled there
+const FollowFocus = ({ children, smooth }: { children: React.ReactNode; smooth: boolean }) => {
+  const scroll = useScroll();
+  const onFocus = (e: React.FocusEvent) => {
+    const page = (e.target as HTMLElement).closest<HTMLElement>('[data-page]')?.dataset.page;
+    if (page === undefined) return;
+    // The browser scrolls the clipped overlay to reveal the focused control; the tour does that instead
+    const unscroll = () => { scroll.fixed.scrollTop = 0; };
+    unscroll();
+    requestAnimationFrame(unscroll);
+    const { el } = scroll;
+    el.scrollTo({ top: GARDEN_TOUR.offsetOf(Number(page)) * (el.scrollHeight - el.clientHeight), behavior: smooth ? 'smooth' : 'auto' });
+  };
+  return <div onFocus={onFocus}>{children}</div>;
+};
+
 const App = () => {
-  const [season, setSeason] = useState<Season>(Season.Spring);
-  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>(TimeOfDay.Day);
+  // Where the visitor left the garden last time; the season clock starts there rather than fading in
+  const [saved] = useState(() => {
+    const prefs = loadViewerPreferences();
+    const season = prefs.seasonMode === SeasonMode.Calendar ? calendarSeason(prefs.hemisphere) : prefs.season;
+    seasonClock.jump(season);
+    return { ...prefs, season };
+  });
+  const [season, setSeason] = useState<Season>(saved.season);
+  const [seasonMode, setSeasonMode] = useState<SeasonMode>(saved.seasonMode);
+  const [hemisphere, setHemisphere] = useState<Hemisphere>(saved.hemisphere);
+  const [weather, setWeather] = useState<Weather>(Weather.Clear);
+  const [weatherAuto, setWeatherAuto] = useState(false);
+  const [time, setTime] = useState<TimeSettings>(saved.time);
+  const [liveHours, setLiveHours] = useState(time.hours);
   const [activeHaiku, setActiveHaiku] = useState<HaikuData | null>(null);
+  // The haiku last opened stays available to posters after its dialog closes
+  const [lastHaiku, setLastHaiku] = useState<HaikuData | null>(null);
+  const [seed, setSeed] = useState<string>(() => {
+    const initial = readSeedFromUrl() ?? generateSeed();
+    setGardenSeed(initial);
+    writeSeedToUrl(initial);
+    return initial;
+  });
+  const [seedDraft, setSeedDraft] = useState(seed);
+  const [raking, setRaking] = useState(false);
+  const [rakeWidth, setRakeWidth] = useState<RakeWidth>(RakeWidth.Medium);
+  const rakeHistory = useHistory<RakeStroke[]>(DEFAULT_RAKE_STROKES);
+  const { push: pushRake } = rakeHistory;
+  const addRakeStroke = useCallback((stroke: RakeStroke) => pushRake((strokes) => [...strokes, stroke]), [pushRake]);
+
+  const [layout, setLayout] = useState<GardenLayout>(() => loadLocalLayout() ?? DEFAULT_GARDEN_LAYOUT);
+  const [layoutIssues, setLayoutIssues] = useState<string[] | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [transformMode, setTransformMode] = useState<TransformMode>('translate');
+  const [explore, setExplore] = useState<ExploreState | null>(null);
+  // Which bottom-right panel is open
+  const [panel, setPanel] = useState<'meditation' | 'haiku' | 'koan' | 'quality' | 'capture' | 'record' | null>(null);
+  const [meditation, setMeditation] = useState<MeditationSettings>({ minutes: 10, pacing: PACING_PRESETS[1].pacing, intervalMinutes: 0, waypoint: 'pond' });
+  const [sitting, setSitting] = useState(false);
+  const [haikuLibrary, setHaikuLibrary] = useState<HaikuData[]>(loadHaikuLibrary);
+  const [haikuBySeason, setHaikuBySeason] = useState(false);
+  const [koanLibrary, setKoanLibrary] = useState<KoanData[]>(loadKoanLibrary);
+  const [atGate, setAtGate] = useState(false);
+  // Starts where a #chapter link points, so the address isn't rewritten to the intro before the glide gets there
+  const [chapter, setChapter] = useState(() => GARDEN_TOUR.indexOfHash(window.location.hash) ?? 0);
+  const [volume, setVolume] = useState(saved.volume);
+  const [muted, setMuted] = useState(saved.muted);
+  const reducedMotion = useReducedMotion();
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const t = useMemo(() => createTranslator(language), [language]);
+  const [qualityPrefs, setQualityPrefs] = useState<QualityPreferences>(loadQualityPreferences);
+  const quality = useMemo(() => resolveQuality(qualityPrefs), [qualityPrefs]);
+  const governQuality = useCallback((tier: QualityTier) => setQualityPrefs((prefs) => ({ ...prefs, tier })), []);
+
+  useEffect(() => { saveQualityPreferences(qualityPrefs); }, [qualityPrefs]);
+  useEffect(() => {
+    saveLanguage(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => { ambientAudio.setMaster(volume, muted); }, [volume, muted]);
+
+  useEffect(() => {
+    saveViewerPreferences({ season, seasonMode, hemisphere, time, volume, muted });
+  }, [season, seasonMode, hemisphere, time, volume, muted]);
+
+  const updateHaikuLibrary = (library: HaikuData[]) => {
+    setHaikuLibrary(library);
+    saveHaikuLibrary(library);
+  };
+  const updateKoanLibrary = (library: KoanData[]) => {
+    setKoanLibrary(library);
+    saveKoanLibrary(library);
+  };
+  const koan = useMemo(() => todaysKoan(koanLibrary), [koanLibrary]);
+  const haiku = useMemo(() => haikuPool(haikuLibrary, haikuBySeason ? season : undefined), [haikuLibrary, haikuBySeason, season]);
+
+  // Browsers keep audio locked until the visitor interacts; start on the first gesture
+  useEffect(() => {
+    const events = ['pointerdown', 'keydown', 'touchstart'];
+    const unlock = () => {
+      ambientAudio.unlock();
+      events.forEach((e) => window.removeEventListener(e, unlock));
+    };
+    events.forEach((e) => window.addEventListener(e, unlock));
+    return () => events.forEach((e) => window.removeEventListener(e, unlock));
+  }, []);
+
+  const editor = useMemo<GardenEditorState | undefined>(() => editing ? {
+    selectedId,
+    mode: transformMode,
+    onSelect: setSelectedId,
+    onTransform: (id, transform) => setLayout((l) => updateElement(l, id, transform))
+  } : undefined, [editing, selectedId, transformMode]);
+
+  const startEditing = () => {
+    setRaking(false);
+    setPanel(null);
+    setActiveHaiku(null);
+    setExplore(null);
+    setEditing(true);
+  };
+
+  const startExploring = () => {
+    setRaking(false);
+    setPanel(null);
+    setExplore({ mode: 'walk', targetId: null });
+  };
+
+  const stopExploring = useCallback(() => setExplore(null), []);
+
+  const stopEditing = () => {
+    setEditing(false);
+    setSelectedId(null);
+  };
+
+  const addGardenElement = (type: GardenElementType) => {
+    // Drop new elements on open sand in front of the pond
+    const [next, id] = addElement(layout, type, [0, 0, 8]);
+    setLayout(next);
+    setSelectedId(id);
+  };
+
+  const duplicateSelected = useCallback(() => {
+    if (!selectedId) return;
+    const [next, id] = duplicateElement(layout, selectedId);
+    setLayout(next);
+    setSelectedId(id);
+  }, [layout, selectedId]);
+
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return;
+    setLayout((l) => removeElement(l, selectedId));
+    setSelectedId(null);
+  }, [selectedId]);
 
+  const resetLayout = () => {
+    clearLocalLayout();
+    setLayout(DEFAULT_GARDEN_LAYOUT);
+    setSelectedId(null);
+  };
+
+  const openHaiku = useCallback((data: HaikuData) => {
+    setActiveHaiku(data);
+    setLastHaiku(data);
+  }, []);
   const closeHaiku = () => setActiveHaiku(null);
 
+  // A poster renders in the scene, then gets its text and downloads here
+  const [poster, setPoster] = useState<{ request: PosterRequest; text: PosterText } | null>(null);
+  const [posterBusy, setPosterBusy] = useState(false);
+  const [posterFailed, setPosterFailed] = useState(false);
+  const [posterMax, setPosterMax] = useState<number | null>(null);
+
+  const capturePoster = ({ width, height, withHaiku, withSeason }: CaptureOptions) => {
+    setPosterFailed(false);
+    setPosterBusy(true);
+    setPoster({
+      request: { width, height },
+      text: {
+        haiku: withHaiku ? lastHaiku ?? undefined : undefined,
+        author: withHaiku && lastHaiku ? lastHaiku.author || t('haiku.unknownAuthor') : undefined,
+        season: withSeason ? t(`season.${season}` as const) : undefined
+      }
+    });
+  };
+
+  const posterRendered = useCallback((render: HTMLCanvasElement) => {
+    if (!poster) return;
+    setPoster(null);
+    composePoster(render, poster.text)
+      .then((blob) => downloadBlob(blob, posterFilename(seed, render.width, render.height)))
+      .catch(() => setPosterFailed(true))
+      .finally(() => setPosterBusy(false));
+  }, [poster, seed]);
+
+  const posterError = useCallback(() => {
+    setPoster(null);
+    setPosterBusy(false);
+    setPosterFailed(true);
+  }, []);
+
+  // A clip takes over the frame loop while it records, then downloads here
+  const [clip, setClip] = useState<ClipSettings | null>(null);
+  const [clipProgress, setClipProgress] = useState(0);
+  const [clipFailed, setClipFailed] = useState(false);
+  // A loop holds the garden still, so its last frame can lead back into its first
+  const holdStill = !!clip?.loop;
+  const heldTime = useMemo<TimeSettings | null>(() => (holdStill ? { mode: TimeMode.Manual, hours: dayClock.hours } : null), [holdStill]);
+
+  const recordClip = (settings: ClipSettings) => {
+    setClipFailed(false);
+    setClipProgress(0);
+    setClip(settings);
+  };
+
+  const clipRecorded = useCallback((result: ClipResult) => {
+    if (!clip) return;
+    setClip(null);
+    if (result.webm) downloadBlob(result.webm, clipFilename(seed, clip, 'webm'));
+    if (result.gif) downloadBlob(result.gif, clipFilename(seed, clip, 'gif'));
+  }, [clip, seed]);
+
+  const clipError = useCallback(() => {
+    setClip(null);
+    setClipFailed(true);
+  }, []);
+
+  const beginSitting = () => {
+    setPanel(null);
+    setRaking(false);
+    setActiveHaiku(null);
+    setExplore(null);
+    setSitting(true);
+    ambientAudio.unlock();
+    ambientAudio.bell();
+  };
+
+  const endSitting = useCallback(() => setSitting(false), []);
+
+  // While time runs by itself, mirror the scene's clock into the scrubber a few times a second
+  useEffect(() => {
+    if (time.mode === TimeMode.Manual) return;
+    const id = setInterval(() => setLiveHours(dayClock.hours), 250);
+    return () => clearInterval(id);
+  }, [time.mode]);
+
+  // The year cycle just steps the target season; the scene cross-fades each change
+  useEffect(() => {
+    if (seasonMode !== SeasonMode.Cycle || holdStill) return;
+    const id = setInterval(() => setSeason(nextSeason), SEASON_CYCLE_SECONDS * 1000);
+    return () => clearInterval(id);
+  }, [seasonMode, holdStill]);
+
+  // The calendar season follows the date, including a page left open across the change
+  useEffect(() => {
+    if (seasonMode !== SeasonMode.Calendar || holdStill) return;
+    const follow = () => setSeason(calendarSeason(hemisphere));
+    follow();
+    const id = setInterval(follow, CALENDAR_CHECK_SECONDS * 1000);
+    return () => clearInterval(id);
+  }, [seasonMode, hemisphere, holdStill]);
+
+  // Auto weather wanders through plausible successors, lingering a while on each
+  const weatherRandom = useMemo(() => seededRandom('weather'), [seed]);
+  useEffect(() => {
+    if (!weatherAuto || holdStill) return;
+    const id = setTimeout(() => setWeather((w) => pickNextWeather(w, season, weatherRandom)), weatherDwell(weatherRandom) * 1000);
+    return () => clearTimeout(id);
+  }, [weatherAuto, weather, season, weatherRandom, holdStill]);
+
+  // A #chapter link (on arrival, or by back and forward) glides the tour straight there
+  useEffect(() => {
+    const follow = () => {
+      const index = GARDEN_TOUR.indexOfHash(window.location.hash);
+      if (index === null) return;
+      setExplore(null);
+      requestChapter(index);
+    };
+    follow();
+    window.addEventListener('hashchange', follow);
+    return () => window.removeEventListener('hashchange', follow);
+  }, []);
+
+  // Scrolling to a chapter and staying there records it, so the address can be shared and back returns to it
+  useEffect(() => {
+    const id = setTimeout(() => writeChapterToUrl(GARDEN_TOUR.stops[chapter].chapter.slug), CHAPTER_SETTLE_MS);
+    return () => clearTimeout(id);
+  }, [chapter]);
+
+  const goToChapter = (index: number) => {
+    writeChapterToUrl(GARDEN_TOUR.stops[index].chapter.slug);
+    requestChapter(index);
+  };
+
+  const shownHours = time.mode === TimeMode.Manual ? time.hours : liveHours;
+  const sceneDescription = describeScene(season, shownHours, weather, layout, language);
+
+  // Only changes the visitor makes are announced, once a slider comes to rest; while time, season
+  // or weather run by themselves the live region keeps what it last said
+  const sceneHeld = time.mode === TimeMode.Manual && seasonMode !== SeasonMode.Cycle && !weatherAuto;
+  const [announced, setAnnounced] = useState(sceneDescription);
+  useEffect(() => {
+    if (!sceneHeld) return;
+    const id = setTimeout(() => setAnnounced(sceneDescription), ANNOUNCE_SETTLE_MS);
+    return () => clearTimeout(id);
+  }, [sceneHeld, sceneDescription]);
+
+  // Leaving a running mode freezes time where it is rather than jumping back
+  const setTimeMode = (mode: TimeMode) => setTime({ mode, hours: dayClock.hours });
+
+  // Auto season matches the world outside, so the sky follows the local clock along with it
+  const toggleCalendar = () => {
+    if (seasonMode === SeasonMode.Calendar) {
+      setSeasonMode(SeasonMode.Manual);
+      return;
+    }
+    setSeasonMode(SeasonMode.Calendar);
+    setTimeMode(TimeMode.Clock);
+  };
+
+  // ?layout=<url> swaps in a garden variant; on failure keep the default and explain why
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get('layout');
+    if (!url) return;
+    let cancelled = false;
+    loadGardenLayout(url)
+      .then((loaded) => { if (!cancelled) setLayout(loaded); })
+      .catch((err) => { if (!cancelled) setLayoutIssues(err instanceof GardenLayoutError ? err.issues : [String(err)]); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const plantSeed = (next: string) => {
+    const clean = normalizeSeed(next);
+    if (!clean || clean === seed) { setSeedDraft(seed); return; }
+    // The module-level seed must be in place before the scene remounts and regenerates
+    setGardenSeed(clean);
+    writeSeedToUrl(clean);
+    setSeed(clean);
+    setSeedDraft(clean);
+  };
+
   return (
     <>
     <div className="h-screen w-screen bg-[#0a0a0a] font-zen text-washi selection:bg-rust selection:text-white">
-      <Canvas shadows dpr={[1, 1.5]} gl={{ antialias: false, toneMapping: THREE.ACESFilmicToneMapping, toneMappingExposure: 1.1 }}>
+      <Canvas shadows dpr={[1, quality.dpr]} gl={{ antialias: false, toneMapping: THREE.ACESFilmicToneMapping, toneMappingExposure: 1.1 }} onCreated={({ gl }) => setPosterMax(posterLimit(gl))}>
+        {/* Recorded frames come a fixed step apart, which says nothing about how fast the garden runs */}
+        {qualityPrefs.auto && !clip && <QualityGovernor tier={qualityPrefs.tier} onChange={governQuality} />}
+        {clip && <ClipRecorder request={clip} onProgress={setClipProgress} onDone={clipRecorded} onError={clipError} />}
         <Suspense fallback={null}>
-          {/* Increased to 6 pages for extended content */}
-          <ScrollControls pages={6} damping={0.3}>
+          <ScrollControls pages={GARDEN_TOUR.pages} damping={reducedMotion ? 0 : 0.3}>
             {/* 3D Content */}
-            <ZenScene season={season} timeOfDay={timeOfDay} onInteract={setActiveHaiku} />
+            {/* Keyed by seed so every procedural element regenerates from the new seed */}
+            <ZenScene
+              key={seed}
+              season={season}
+              time={heldTime ?? time}
+              weather={weather}
+              layout={layout}
+              quality={quality}
+              onInteract={openHaiku}
+              haiku={haiku}
+              sand={{ strokes: rakeHistory.present, raking, rakeWidth, onStroke: addRakeStroke }}
+              editor={editor}
+              focus={sitting ? meditation.waypoint : undefined}
+              onGateChange={setAtGate}
+              onChapterChange={setChapter}
+              reducedMotion={reducedMotion}
+              explore={explore ?? undefined}
+              capture={poster?.request}
+              onCapture={posterRendered}
+              onCaptureError={posterError}
+              t={t}
+            />
             
             {/* HTML Content Scroll Overlay */}
-            <Scroll html style={{ width: '100%', height: '100%' }}>
+            <Scroll html style={{ width: '100%', height: '100%', display: editing || sitting || explore ? 'none' : undefined }}>
+              <FollowFocus smooth={!reducedMotion}>
               
               {/* Page 1: Intro */}
-              <Section align="center">
-                <h1 className="text-7xl md:text-[10rem] font-bold mb-6 tracking-tighter opacity-90 mix-blend-difference">善 ZEN</h1>
-                <p className="text-xl md:text-3xl font-cinzel tracking-[0.6em] uppercase opacity-70">The Digital Sanctuary</p>
-                <div className="mt-16 animate-pulse text-xs uppercase tracking-widest opacity-40 border-b border-white/20 pb-2">Scroll to Begin Journey</div>
+              <Section align="center" page={0}>
+                <h1 className="text-7xl md:text-[10rem] font-bold mb-6 tracking-tighter opacity-90 mix-blend-difference">{t('intro.title')}</h1>
+                <p className="text-xl md:text-3xl font-cinzel tracking-[0.6em] uppercase opacity-70">{t('intro.subtitle')}</p>
+                <div className="mt-16 motion-safe:animate-pulse text-xs uppercase tracking-widest opacity-40 border-b border-white/20 pb-2">{t('intro.scroll')}</div>
               </Section>
 
               {/* Page 2: Water (Mizu) */}
-              <Section align="left">
+              <Section align="left" page={1}>
                 <div className="flex items-center gap-4 mb-6">
                   <span className="text-6xl opacity-20 font-bold">01</span>
-                  <h2 className="text-5xl md:text-7xl font-serif text-stone-200">Flow <span className="text-2xl opacity-50 block md:inline md:ml-4">(Nagare)</span></h2>
+                  <h2 className="text-5xl md:text-7xl font-serif text-stone-200">{t('flow.title')} <span className="text-2xl opacity-50 block md:inline md:ml-4">{t('flow.reading')}</span></h2>
                 </div>
                 <p className="text-xl md:text-2xl leading-relaxed opacity-80 bg-black/30 p-8 backdrop-blur-sm border-l-2 border-white/20 shadow-2xl max-w-xl">
-                  Like thoughts in meditation, the water flows endlessly. 
-                  It reflects the world without judgment.
-                  <br/><span className="text-base mt-4 block opacity-60 font-cinzel">Observe the ripples.</span>
+                  {t('flow.body')}
+                  <br/><span className="text-base mt-4 block opacity-60 font-cinzel">{t('flow.hint')}</span>
                 </p>
               </Section>
 
               {/* Page 3: Stone (Ishi) */}
-              <Section align="right">
+              <Section align="right" page={2}>
                 <div className="flex flex-row-reverse items-center gap-4 mb-6">
                    <span className="text-6xl opacity-20 font-bold">02</span>
-                   <h2 className="text-5xl md:text-7xl font-serif text-stone-200">Stillness <span className="text-2xl opacity-50 block md:inline md:mr-4">(Seijaku)</span></h2>
+                   <h2 className="text-5xl md:text-7xl font-serif text-stone-200">{t('stillness.title')} <span className="text-2xl opacity-50 block md:inline md:mr-4">{t('stillness.reading')}</span></h2>
                 </div>
                 <p className="text-xl md:text-2xl leading-relaxed opacity-80 bg-black/30 p-8 backdrop-blur-sm border-r-2 border-white/20 shadow-2xl max-w-xl">
-                  The rock endures the wind and rain. 
-                  It anchors the spirit in the present moment.
-                  <br/><span className="text-base mt-4 block text-rust italic">Click the stones to reveal haiku.</span>
+                  {t('stillness.body')}
+                  <br/><span className="text-base mt-4 block text-rust italic">{t('stillness.hint')}</span>
                 </p>
               </Section>
 
               {/* Page 4: Tea (Wa) - NEW SECTION */}
-              <Section align="left">
+              <Section align="left" page={3}>
                  <div className="flex items-center gap-4 mb-6">
                   <span className="text-6xl opacity-20 font-bold">03</span>
-                  <h2 className="text-5xl md:text-7xl font-serif text-stone-200">Harmony <span className="text-2xl opacity-50 block md:inline md:ml-4">(Wa)</span></h2>
+                  <h2 className="text-5xl md:text-7xl font-serif text-stone-200">{t('harmony.title')} <span className="text-2xl opacity-50 block md:inline md:ml-4">{t('harmony.reading')}</span></h2>
                 </div>
                 <p className="text-xl md:text-2xl leading-relaxed opacity-80 bg-black/30 p-8 backdrop-blur-sm border-l-2 border-rust/50 shadow-2xl max-w-xl">
-                  The ceremony of tea is the worship of the beautiful among the sordid facts of everyday existence.
-                  <br/><span className="text-base mt-4 block opacity-60 font-cinzel">Simplicity. Purity. Tranquility.</span>
+                  {t('harmony.body')}
+                  <br/><span className="text-base mt-4 block opacity-60 font-cinzel">{t('harmony.hint')}</span>
                 </p>
               </Section>
 
                {/* Page 5: Moss (Sabi) - NEW SECTION */}
-               <Section align="right">
+               <Section align="right" page={4}>
                  <div className="flex flex-row-reverse items-center gap-4 mb-6">
                    <span className="text-6xl opacity-20 font-bold">04</span>
-                   <h2 className="text-5xl md:text-7xl font-serif text-stone-200">Age <span className="text-2xl opacity-50 block md:inline md:mr-4">(Sabi)</span></h2>
+                   <h2 className="text-5xl md:text-7xl font-serif text-stone-200">{t('age.title')} <span className="text-2xl opacity-50 block md:inline md:mr-4">{t('age.reading')}</span></h2>
                 </div>
                 <p className="text-xl md:text-2xl leading-relaxed opacity-80 bg-black/30 p-8 backdrop-blur-sm border-r-2 border-moss/50 shadow-2xl max-w-xl">
-                  Beauty that comes with age. The moss growing on the rock shows us that time is not an enemy, but an artist.
+                  {t('age.body')}
                 </p>
               </Section>
 
               {/* Page 6: Void (Mu) */}
-              <Section align="center">
-                <h2 className="text-6xl md:text-9xl mb-8 font-bold tracking-widest text-white mix-blend-overlay">無 MU</h2>
+              <Section align="center" page={5}>
+                <h2 className="text-6xl md:text-9xl mb-8 font-bold tracking-widest text-white mix-blend-overlay">{t('mu.title')}</h2>
                 <p className="text-2xl font-cinzel opacity-80 max-w-lg mx-auto mb-12 border-b border-white/10 pb-8">
-                  The Gate opens to the infinite.<br/>
-                  Empty your cup so that it may be filled.
+                  {t('mu.body1')}<br/>
+                  {t('mu.body2')}
                 </p>
+
+                <KoanOfTheDay koan={koan} revealed={atGate} onReflect={() => setPanel('koan')} t={t} />
                 
                 {/* Controls */}
                 <div className="inline-flex flex-col md:flex-row gap-12 p-10 bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10 pointer-events-auto shadow-2xl">
                    <div className="flex flex-col gap-4">
-                      <span className="text-xs uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1">Season</span>
+                      <span className="text-xs uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1">{t('controls.season')}</span>
                       <div className="grid grid-cols-2 gap-3">
                          {(Object.keys(Season) as Array<keyof typeof Season>).map((s) => (
                            <button 
                               key={s} 
-                              onClick={() => setSeason(Season[s])} 
+                              onClick={() => { setSeason(Season[s]); setSeasonMode(SeasonMode.Manual); }} 
+                              aria-pressed={season === Season[s]}
                               className={`px-4 py-2 text-xs uppercase tracking-wider transition-all duration-300 ${season === Season[s] ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
                             >
-                              {s}
+                              {t(`season.${Season[s]}` as const)}
                             </button>
                          ))}
                       </div>
+                      <div className="grid grid-cols-2 gap-3">
+                         <button
+                            onClick={() => setSeasonMode((mode) => mode === SeasonMode.Cycle ? SeasonMode.Manual : SeasonMode.Cycle)}
+                            aria-pressed={seasonMode === SeasonMode.Cycle}
+                            className={`px-4 py-2 text-xs uppercase tracking-wider transition-all duration-300 ${seasonMode === SeasonMode.Cycle ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
+                            title={t('controls.cycleHint')}
+                         >
+                            {t('controls.cycle')}
+                         </button>
+                         <button
+                            onClick={toggleCalendar}
+                            aria-pressed={seasonMode === SeasonMode.Calendar}
+                            className={`px-4 py-2 text-xs uppercase tracking-wider transition-all duration-300 ${seasonMode === SeasonMode.Calendar ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
+                            title={t('controls.calendarHint')}
+                         >
+                            {t('controls.auto')}
+                         </button>
+                      </div>
+                      {seasonMode === SeasonMode.Calendar && (
+                         <div role="group" aria-label={t('controls.hemisphere')} className="flex gap-1">
+                            {(['north', 'south'] as Hemisphere[]).map((h) => (
+                              <button
+                                 key={h}
+                                 onClick={() => setHemisphere(h)}
+                                 aria-pressed={hemisphere === h}
+                                 className={`flex-1 px-3 py-1 text-[10px] uppercase tracking-wider transition-all duration-300 ${hemisphere === h ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
+                              >
+                                 {t(`hemisphere.${h}` as const)}
+                              </button>
+                            ))}
+                         </div>
+                      )}
                    </div>
                    
                    <div className="w-px bg-white/10 hidden md:block"></div>
 
                    <div className="flex flex-col gap-4">
-                      <span className="text-xs uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1">Time</span>
-                      <div className="flex gap-4 items-center h-full">
-                         <button onClick={() => setTimeOfDay(TimeOfDay.Day)} className={`w-10 h-10 rounded-full border-2 transition-all ${timeOfDay === TimeOfDay.Day ? 'bg-yellow-100 border-yellow-200 scale-110 shadow-[0_0_15px_rgba(255,255,200,0.5)]' : 'bg-transparent border-white/20 hover:border-white/50'}`} title="Day"></button>
-                         <button onClick={() => setTimeOfDay(TimeOfDay.Sunset)} className={`w-10 h-10 rounded-full border-2 transition-all ${timeOfDay === TimeOfDay.Sunset ? 'bg-orange-400 border-orange-300 scale-110 shadow-[0_0_15px_rgba(255,165,0,0.5)]' : 'bg-transparent border-white/20 hover:border-white/50'}`} title="Sunset"></button>
-                         <button onClick={() => setTimeOfDay(TimeOfDay.Night)} className={`w-10 h-10 rounded-full border-2 transition-all ${timeOfDay === TimeOfDay.Night ? 'bg-indigo-900 border-indigo-400 scale-110 shadow-[0_0_15px_rgba(100,100,255,0.5)]' : 'bg-transparent border-white/20 hover:border-white/50'}`} title="Night"></button>
+                      <span className="text-xs uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1 flex justify-between">{t('controls.time')} <span className="font-cinzel tracking-widest opacity-100">{formatHours(shownHours)}</span></span>
+                      <div className="flex gap-4 items-center">
+                         {TIME_PRESETS.map((p) => {
+                           const selected = time.mode === TimeMode.Manual && time.hours === p.hours;
+                           return (
+                             <button
+                                key={p.label}
+                                onClick={() => setTime({ mode: TimeMode.Manual, hours: p.hours })}
+                                aria-pressed={selected}
+                                className="flex flex-col items-center gap-1 group"
+                             >
+                                <span aria-hidden="true" className={`w-10 h-10 rounded-full border-2 transition-all ${selected ? `${PRESET_SWATCH[p.label]} scale-110` : 'bg-transparent border-white/20 group-hover:border-white/50'}`}></span>
+                                <span className={`text-[9px] uppercase tracking-wider ${selected ? 'opacity-100' : 'opacity-50'}`}>{t(`time.${p.label}` as MessageKey)}</span>
+                             </button>
+                           );
+                         })}
+                      </div>
+                      <input
+                         type="range"
+                         min={0}
+                         max={24}
+                         step={0.05}
+                         value={shownHours}
+                         onChange={(e) => setTime({ mode: TimeMode.Manual, hours: parseFloat(e.target.value) })}
+                         aria-label={t('controls.timeOfDay')}
+                         className="w-full accent-[#F5F5DC]"
+                      />
+                      <div className="flex gap-1">
+                         {TIME_MODES.map((mode) => (
+                           <button
+                              key={mode}
+                              onClick={() => setTimeMode(mode)}
+                              aria-pressed={time.mode === mode}
+                              className={`px-3 py-1 text-[10px] uppercase tracking-wider transition-all duration-300 ${time.mode === mode ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
+                           >
+                              {t(`timeMode.${mode}` as const)}
+                           </button>
+                         ))}
+                      </div>
+                   </div>
+
+                   <div className="w-px bg-white/10 hidden md:block"></div>
+
+                   <div className="flex flex-col gap-4">
+                      <span className="text-xs uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1">{t('controls.weather')}</span>
+                      <div className="grid grid-cols-2 gap-3">
+                         {(Object.keys(Weather) as Array<keyof typeof Weather>).map((w) => (
+                           <button
+                              key={w}
+                              onClick={() => { setWeather(Weather[w]); setWeatherAuto(false); }}
+                              aria-pressed={weather === Weather[w]}
+                              className={`px-4 py-2 text-xs uppercase tracking-wider transition-all duration-300 ${weather === Weather[w] ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
+                           >
+                              {t(`weather.${Weather[w]}` as const)}
+                           </button>
+                         ))}
+                         <button
+                            onClick={() => setWeatherAuto((on) => !on)}
+                            aria-pressed={weatherAuto}
+                            className={`px-4 py-2 text-xs uppercase tracking-wider transition-all duration-300 ${weatherAuto ? 'bg-washi text-sumi font-bold' : 'hover:bg-white/10 text-washi/70'}`}
+                            title={t('controls.autoWeatherHint')}
+                         >
+                            {t('controls.auto')}
+                         </button>
                       </div>
                    </div>
+
+                   <div className="w-px bg-white/10 hidden md:block"></div>
+
+                   <div className="flex flex-col gap-4">
+                      <span className="text-xs uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1">{t('controls.seed')}</span>
+                      <form className="flex gap-2 items-center" onSubmit={(e) => { e.preventDefault(); plantSeed(seedDraft); }}>
+                         <input
+                            value={seedDraft}
+                            onChange={(e) => setSeedDraft(e.target.value)}
+                            onBlur={() => plantSeed(seedDraft)}
+                            aria-label={t('controls.seedLabel')}
+                            spellCheck={false}
+                            className="w-28 bg-transparent border-b border-white/20 focus:border-white/60 outline-none px-1 py-1 text-sm tracking-widest font-cinzel"
+                         />
+                         <button type="button" onClick={() => plantSeed(generateSeed())} className="px-3 py-2 text-xs uppercase tracking-wider hover:bg-white/10 text-washi/70 transition-all duration-300" title={t('controls.newSeedHint')}>{t('controls.newSeed')}</button>
+                      </form>
+                   </div>
                 </div>
               </Section>
+              </FollowFocus>
 
             </Scroll>
           </ScrollControls>
         </Suspense>
       </Canvas>
 
+      {/* What the canvas shows, for screen readers */}
+      <p className="sr-only" aria-live="polite">{announced}</p>
+
       {/* Loading Screen */}
       <Loader 
         containerStyles={{ background: '#111' }}
         innerStyles={{ background: '#111', width: '100%' }}
         barStyles={{ background: '#F5F5DC', height: '1px' }}
         dataStyles={{ fontFamily: 'Zen Old Mincho', fontSize: '12px', color: '#F5F5DC', textTransform: 'uppercase', letterSpacing: '0.2em' }}
+        dataInterpolation={(p) => t('loading', { percent: p.toFixed(0) })}
       />
 
-      {/* Interactive Haiku Modal */}
-      {activeHaiku && (
-        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-xl transition-all duration-700 cursor-pointer p-4" onClick={closeHaiku}>
-          <div className="bg-[#eaddcf] text-[#2c2c2c] p-12 md:p-20 max-w-xl w-full shadow-2xl relative overflow-hidden" onClick={(e) => e.stopPropagation()}>
-             <div className="absolute top-[-20px] right-[-20px] opacity-[0.07] font-zen text-[12rem] select-none pointer-events-none leading-none">心</div>
-             <div className="border-l-4 border-[#B7282E] pl-8 py-2">
-                <p className="text-3xl md:text-4xl font-zen mb-4 leading-relaxed">{activeHaiku.line1}</p>
-                <p className="text-3xl md:text-4xl font-zen mb-4 pl-8 leading-relaxed">{activeHaiku.line2}</p>
-                <p className="text-3xl md:text-4xl font-zen mb-10 leading-relaxed">{activeHaiku.line3}</p>
-             </div>
-             <div className="flex items-center gap-4 mt-8">
-                <div className="h-[1px] flex-1 bg-gray-400"></div>
-                <p className="text-sm font-cinzel tracking-[0.3em] text-[#B7282E] uppercase">{activeHaiku.author || "Unknown"}</p>
-             </div>
+      {layoutIssues && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 max-w-xl w-[90%] p-4 bg-black/70 backdrop-blur-xl border-l-2 border-rust text-xs tracking-wide shadow-2xl pointer-events-auto">
+          <div className="flex justify-between items-center mb-2">
+            <span className="uppercase tracking-[0.2em] opacity-70">{t('layout.error')}</span>
+            <button onClick={() => setLayoutIssues(null)} className="opacity-50 hover:opacity-100 px-2">✕</button>
           </div>
+          <ul className="list-disc pl-5 opacity-80 space-y-1">
+            {layoutIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+          </ul>
         </div>
       )}
+
+      {!editing && !sitting && !explore && <ChapterRail current={chapter} onSelect={goToChapter} t={t} />}
+
+      {sitting && <BreathingGuide settings={meditation} onEnd={endSitting} t={t} />}
+
+      {!editing && !sitting && (
+        <AudioControls
+          volume={volume}
+          muted={muted}
+          onVolumeChange={(v) => { setVolume(v); setMuted(v === 0); }}
+          onToggleMute={() => {
+            if (muted && volume === 0) setVolume(0.6);
+            setMuted(!muted);
+          }}
+          t={t}
+        />
+      )}
+
+      {editing ? (
+        <GardenEditorPanel
+          layout={layout}
+          selectedId={selectedId}
+          mode={transformMode}
+          onModeChange={setTransformMode}
+          onSelect={setSelectedId}
+          onAdd={addGardenElement}
+          onDuplicate={duplicateSelected}
+          onDelete={deleteSelected}
+          onReplace={(next) => { setLayout(next); setSelectedId(null); }}
+          onReset={resetLayout}
+          onExit={stopEditing}
+          t={t}
+        />
+      ) : explore ? (
+        <ExplorePanel explore={explore} layout={layout} onChange={setExplore} onExit={stopExploring} t={t} />
+      ) : !sitting && (
+        <div className="absolute bottom-6 right-6 z-40 flex gap-2">
+          <button onClick={() => setPanel((open) => open === 'haiku' ? null : 'haiku')} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.haiku')}
+          </button>
+          <button onClick={() => setPanel((open) => open === 'meditation' ? null : 'meditation')} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.meditate')}
+          </button>
+          <button onClick={() => setPanel((open) => open === 'quality' ? null : 'quality')} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.quality')}
+          </button>
+          <button onClick={() => setPanel((open) => open === 'capture' ? null : 'capture')} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.capture')}
+          </button>
+          <button onClick={() => setPanel((open) => open === 'record' ? null : 'record')} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.record')}
+          </button>
+          <button onClick={startExploring} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.explore')}
+          </button>
+          <button onClick={startEditing} className="px-3 py-2 text-[10px] uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 bg-black/30 backdrop-blur-sm transition-all duration-300 pointer-events-auto">
+            {t('menu.edit')}
+          </button>
+          <div role="group" aria-label={t('controls.language')} className="flex border border-white/20 bg-black/30 backdrop-blur-sm pointer-events-auto">
+            {LANGUAGES.map((l) => (
+              <button
+                key={l.language}
+                lang={l.language}
+                onClick={() => setLanguage(l.language)}
+                aria-pressed={language === l.language}
+                className={`px-3 py-2 text-[10px] uppercase tracking-wider transition-all duration-300 ${language === l.language ? 'bg-washi text-sumi font-bold' : 'text-washi/70 hover:bg-white/10'}`}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {panel === 'meditation' && !editing && !sitting && (
+        <MeditationPanel settings={meditation} onChange={setMeditation} onBegin={beginSitting} onClose={() => setPanel(null)} t={t} />
+      )}
+
+      {panel === 'koan' && !editing && !sitting && (
+        <KoanPanel koan={koan} library={koanLibrary} onLibraryChange={updateKoanLibrary} onClose={() => setPanel(null)} t={t} />
+      )}
+
+      {panel === 'quality' && !editing && !sitting && (
+        <QualityPanel preferences={qualityPrefs} onChange={setQualityPrefs} onClose={() => setPanel(null)} t={t} />
+      )}
+
+      {panel === 'capture' && !editing && !sitting && (
+        <CapturePanel haiku={lastHaiku} limit={posterMax} busy={posterBusy} failed={posterFailed} onCapture={capturePoster} onClose={() => setPanel(null)} t={t} />
+      )}
+
+      {panel === 'record' && !editing && !sitting && (
+        <RecordPanel progress={clip ? clipProgress : null} failed={clipFailed} onRecord={recordClip} onCancel={() => setClip(null)} onClose={() => setPanel(null)} t={t} />
+      )}
+
+      {panel === 'haiku' && !editing && !sitting && (
+        <HaikuLibraryPanel
+          library={haikuLibrary}
+          onChange={updateHaikuLibrary}
+          matchSeason={haikuBySeason}
+          onMatchSeasonChange={setHaikuBySeason}
+          onClose={() => setPanel(null)}
+          t={t}
+        />
+      )}
+
+      {!editing && !sitting && !explore && <RakeControls
+        active={raking}
+        onToggle={() => setRaking((r) => !r)}
+        width={rakeWidth}
+        onWidthChange={setRakeWidth}
+        strokes={rakeHistory.present}
+        onLoad={rakeHistory.push}
+        onSmooth={() => rakeHistory.push([])}
+        onUndo={rakeHistory.undo}
+        onRedo={rakeHistory.redo}
+        canUndo={rakeHistory.canUndo}
+        canRedo={rakeHistory.canRedo}
+        t={t}
+      />}
+
+      {/* Interactive Haiku Dialog */}
+      {activeHaiku && !sitting && <HaikuDialog haiku={activeHaiku} onClose={closeHaiku} t={t} />}
     </div>
     </>
   );
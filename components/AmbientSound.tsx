@@ -0,0 +1,50 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { DayPhase, GardenElementType, GardenLayout, GARDEN_ORIGIN, Season } from '../types';
+import { ambientAudio } from '../utils/audio';
+import { windIntensity } from '../utils/wind';
+
+interface AmbientSoundProps {
+  season: Season;
+  phase: DayPhase;
+  layout: GardenLayout;
+}
+
+// Bridges scene state to the audio engine: which layers play, where the pond is,
+// and where the listener (the camera) stands each frame.
+export const AmbientSound: React.FC<AmbientSoundProps> = ({ season, phase, layout }) => {
+  const { camera } = useThree();
+  const forward = useMemo(() => new THREE.Vector3(), []);
+  const pond = layout.elements.find((el) => el.type === GardenElementType.ZenPond);
+
+  useEffect(() => {
+    const night = phase === DayPhase.Night;
+    const winter = season === Season.Winter;
+    ambientAudio.setLayerLevels({
+      water: pond ? 1 : 0,
+      wind: winter ? 0.4 : 1,
+      snowWind: winter ? 1 : 0,
+      cicadas: season === Season.Summer && !night ? 1 : 0,
+      crickets: night && !winter ? 1 : 0
+    });
+  }, [season, phase, pond]);
+
+  useEffect(() => {
+    if (!pond) return;
+    ambientAudio.setWaterPosition({
+      x: pond.position[0] + GARDEN_ORIGIN[0],
+      y: pond.position[1] + GARDEN_ORIGIN[1],
+      z: pond.position[2] + GARDEN_ORIGIN[2]
+    });
+  }, [pond]);
+
+  useFrame((state) => {
+    camera.getWorldDirection(forward);
+    ambientAudio.setListener(camera.position, forward);
+    // Same gust field that sways the grass, sampled where the listener stands
+    ambientAudio.setWind(windIntensity(state.clock.elapsedTime, camera.position.x));
+  });
+
+  return null;
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Translate } from '../utils/i18n';
+
+interface AudioControlsProps {
+  volume: number;
+  muted: boolean;
+  onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+  t: Translate;
+}
+
+export const AudioControls: React.FC<AudioControlsProps> = ({ volume, muted, onVolumeChange, onToggleMute, t }) => (
+  <div className="absolute top-6 right-6 z-40 flex items-center gap-3 px-3 py-2 bg-black/30 backdrop-blur-sm border border-white/10 pointer-events-auto group">
+    <button onClick={onToggleMute} className="text-[10px] uppercase tracking-wider text-washi/70 hover:text-washi transition-all duration-300 w-12 text-left">
+      {t(muted ? 'audio.muted' : 'audio.sound')}
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.01}
+      value={muted ? 0 : volume}
+      onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+      aria-label={t('audio.volume')}
+      className="w-24 accent-[#F5F5DC] opacity-60 group-hover:opacity-100 transition-opacity"
+    />
+  </div>
+);
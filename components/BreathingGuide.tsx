@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MeditationSettings } from '../types';
+import { ambientAudio } from '../utils/audio';
+import { BreathPhase, breathAt, formatDuration, logSession } from '../utils/meditation';
+import { Translate } from '../utils/i18n';
+import { logRecovered } from '../utils/log';
+
+interface BreathingGuideProps {
+  settings: MeditationSettings;
+  onEnd: () => void;
+  t: Translate;
+}
+
+const CLOSING_STRIKES = 3;
+const LINGER_MS = 9000; // stay with the closing bell before the UI returns
+
+// The whole interface during a sitting: a circle that swells and settles with the breath
+export const BreathingGuide: React.FC<BreathingGuideProps> = ({ settings, onEnd, t }) => {
+  const circle = useRef<HTMLDivElement>(null);
+  const [phase, setPhase] = useState<BreathPhase>('inhale');
+  const [remaining, setRemaining] = useState(settings.minutes * 60);
+  const [finished, setFinished] = useState(false);
+  const [shown, setShown] = useState(false);
+
+  // Settings are fixed for the length of a sitting; the opening bell is struck by whoever starts it
+  useEffect(() => {
+    const duration = settings.minutes * 60;
+    const interval = settings.intervalMinutes * 60;
+    const startedAt = new Date();
+    const start = performance.now();
+    let nextInterval = interval;
+    let lastPhase: BreathPhase | null = null;
+    let lastSecond = -1;
+    let frame = 0;
+    let linger: ReturnType<typeof setTimeout> | undefined;
+
+    setShown(true);
+
+    const tick = () => {
+      const elapsed = (performance.now() - start) / 1000;
+      if (elapsed >= duration) {
+        ambientAudio.bell(CLOSING_STRIKES);
+        setRemaining(0);
+        setFinished(true);
+        logSession({ date: startedAt.toISOString(), durationSeconds: duration, pacing: settings.pacing }).catch((err) => logRecovered('Could not log the sitting:', err));
+        linger = setTimeout(onEnd, LINGER_MS);
+        return;
+      }
+      if (interval > 0 && elapsed >= nextInterval) {
+        ambientAudio.bell();
+        nextInterval += interval;
+      }
+
+      const breath = breathAt(elapsed, settings.pacing);
+      if (circle.current) circle.current.style.transform = `scale(${0.45 + breath.fullness * 0.55})`;
+      if (breath.phase !== lastPhase) {
+        lastPhase = breath.phase;
+        setPhase(lastPhase);
+      }
+      const second = Math.floor(elapsed);
+      if (second !== lastSecond) {
+        lastSecond = second;
+        setRemaining(duration - second);
+      }
+
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(linger);
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onEnd(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onEnd]);
+
+  return (
+    <div className={`absolute inset-0 z-40 flex flex-col items-center justify-center pointer-events-none transition-opacity duration-[3000ms] ${shown ? 'opacity-100' : 'opacity-0'}`}>
+      <div className="relative w-56 h-56 flex items-center justify-center">
+        <div
+          ref={circle}
+          className="absolute inset-0 rounded-full border border-washi/40 bg-washi/5 backdrop-blur-[2px] shadow-[0_0_60px_rgba(245,245,220,0.15)]"
+          style={{ transform: 'scale(0.45)' }}
+        />
+        <span className="relative text-xs uppercase tracking-[0.4em] text-washi/80 font-cinzel">
+          {t(finished ? 'breath.finished' : `breath.${phase}`)}
+        </span>
+      </div>
+      <span className="mt-10 text-[10px] uppercase tracking-[0.3em] text-washi/40">{formatDuration(remaining)}</span>
+      <button onClick={onEnd} className="mt-6 px-3 py-2 text-[10px] uppercase tracking-wider text-washi/30 hover:text-washi/80 transition-all duration-300 pointer-events-auto">
+        {t(finished ? 'breath.return' : 'breath.end')}
+      </button>
+    </div>
+  );
+};
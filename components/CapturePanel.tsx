@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { HaikuData } from '../types';
+import { fitPoster, POSTER_SIZES } from '../utils/poster';
+import { Translate } from '../utils/i18n';
+import { buttonClass, sectionTitle } from './ui';
+
+export interface CaptureOptions {
+  width: number;
+  height: number;
+  withHaiku: boolean;
+  withSeason: boolean;
+}
+
+interface CapturePanelProps {
+  // The haiku last opened, which the poster can carry
+  haiku: HaikuData | null;
+  // Longest side the GPU can render, once the canvas is up
+  limit: number | null;
+  busy: boolean;
+  failed: boolean;
+  onCapture: (options: CaptureOptions) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+export const CapturePanel: React.FC<CapturePanelProps> = ({ haiku, limit, busy, failed, onCapture, onClose, t }) => {
+  const [sizeIndex, setSizeIndex] = useState(1);
+  const [portrait, setPortrait] = useState(false);
+  const [withHaiku, setWithHaiku] = useState(true);
+  const [withSeason, setWithSeason] = useState(true);
+  const size = POSTER_SIZES[sizeIndex];
+  const [width, height] = portrait ? [size.height, size.width] : [size.width, size.height];
+  const [outWidth, outHeight] = limit ? fitPoster(width, height, limit) : [width, height];
+
+  return (
+    <div className="absolute bottom-20 right-6 z-40 w-72 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('capture.title')}</span>
+        <button onClick={onClose} className={buttonClass()}>{t('capture.close')}</button>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('capture.size')}</p>
+        <div className="grid grid-cols-2 gap-1 mb-2">
+          {POSTER_SIZES.map((s, i) => (
+            <button key={s.label} onClick={() => setSizeIndex(i)} aria-pressed={sizeIndex === i} className={buttonClass(sizeIndex === i)}>{s.label}</button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button onClick={() => setPortrait(false)} aria-pressed={!portrait} className={buttonClass(!portrait)}>{t('capture.landscape')}</button>
+          <button onClick={() => setPortrait(true)} aria-pressed={portrait} className={buttonClass(portrait)}>{t('capture.portrait')}</button>
+        </div>
+        <p className="text-[10px] tracking-wider opacity-50 mt-2">{outWidth} × {outHeight}</p>
+        {outWidth < width && <p className="text-[10px] tracking-wider text-rust mt-1">{t('capture.reduced', { width, height })}</p>}
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('capture.text')}</p>
+        <div className="flex gap-1">
+          <button onClick={() => setWithHaiku((on) => !on)} aria-pressed={withHaiku && !!haiku} disabled={!haiku} className={buttonClass(withHaiku && !!haiku)}>
+            {t('capture.haiku')}
+          </button>
+          <button onClick={() => setWithSeason((on) => !on)} aria-pressed={withSeason} className={buttonClass(withSeason)}>{t('capture.season')}</button>
+        </div>
+        {haiku
+          ? withHaiku && <p className="text-[10px] tracking-wider opacity-50 mt-2 truncate">{haiku.line1}</p>
+          : <p className="text-[10px] tracking-wider opacity-50 mt-2">{t('capture.noHaiku')}</p>}
+      </div>
+
+      {failed && <p role="alert" className="text-[10px] tracking-wider text-rust">{t('capture.failed')}</p>}
+
+      <button
+        onClick={() => onCapture({ width, height, withHaiku: withHaiku && !!haiku, withSeason })}
+        disabled={busy}
+        className={`${buttonClass()} border border-white/20`}
+      >
+        {t(busy ? 'capture.working' : 'capture.save')}
+      </button>
+    </div>
+  );
+};
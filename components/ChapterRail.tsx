@@ -0,0 +1,51 @@
+import React from 'react';
+import { GARDEN_TOUR } from '../utils/tour';
+import { Translate } from '../utils/i18n';
+
+interface ChapterRailProps {
+  // Index of the chapter in view
+  current: number;
+  onSelect: (index: number) => void;
+  t: Translate;
+}
+
+// Side rail of the tour's chapters: how far along the visitor is, and a link to each chapter.
+// The links are real (#slug) so they can be opened in a new tab or copied.
+export const ChapterRail: React.FC<ChapterRailProps> = ({ current, onSelect, t }) => {
+  const { stops } = GARDEN_TOUR;
+  const progress = stops.length > 1 ? current / (stops.length - 1) : 1;
+
+  const onClick = (e: React.MouseEvent, index: number) => {
+    if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+    e.preventDefault();
+    onSelect(index);
+  };
+
+  return (
+    <nav aria-label={t('nav.chapters')} className="absolute right-6 top-1/2 -translate-y-1/2 z-30 pointer-events-auto">
+      <div aria-hidden="true" className="absolute right-[5px] top-2 bottom-2 w-px bg-white/15">
+        <div className="w-full bg-washi/70 transition-all duration-700" style={{ height: `${progress * 100}%` }} />
+      </div>
+      <ol className="relative flex flex-col gap-5">
+        {stops.map(({ chapter }, index) => {
+          const active = index === current;
+          return (
+            <li key={chapter.id}>
+              <a
+                href={`#${chapter.slug}`}
+                onClick={(e) => onClick(e, index)}
+                aria-current={active ? 'step' : undefined}
+                className="group flex items-center justify-end gap-3 text-[10px] uppercase tracking-[0.2em]"
+              >
+                <span className={`transition-opacity duration-300 ${active ? 'opacity-80' : 'opacity-0 group-hover:opacity-60 group-focus-visible:opacity-60'}`}>
+                  {t(chapter.title)}
+                </span>
+                <span className={`w-[11px] h-[11px] rounded-full border transition-all duration-300 ${active ? 'bg-washi border-washi' : index < current ? 'bg-washi/50 border-washi/50' : 'bg-black/40 border-white/40 group-hover:border-white/80'}`} />
+              </a>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
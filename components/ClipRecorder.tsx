@@ -0,0 +1,210 @@
+import { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import { ClipResult, ClipSettings, fitClip, GIF_WIDTH, gifDelay, MAX_CLIP_WIDTH, planClip, webmType } from '../utils/clip';
+import { createGifEncoder } from '../utils/gif';
+import { muxWebm, WebmFrame } from '../utils/webm';
+
+interface ClipRecorderProps {
+  request: ClipSettings;
+  // 0..1, in whole percent steps
+  onProgress: (fraction: number) => void;
+  onDone: (result: ClipResult) => void;
+  onError: (err: unknown) => void;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: HTMLCanvasElement, readBack = false) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: readBack });
+  if (!ctx) throw new Error('Clip canvas has no 2D context');
+  return ctx;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const VIDEO_BITRATE = 8_000_000;
+const KEYFRAME_SECONDS = 2;
+// WebCodecs codec strings, best first, with the Matroska ids they are muxed under
+const CODECS = [
+  { codec: 'vp09.00.10.08', track: 'V_VP9' },
+  { codec: 'vp8', track: 'V_VP8' }
+];
+
+// Where finished frames of the video go; `index` counts from the first frame kept in the clip
+interface VideoSink {
+  addFrame: (index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+// WebCodecs stamps frame `index` at exactly index/fps, however long it took to render
+const createEncoderSink = async (canvas: HTMLCanvasElement, fps: number): Promise<VideoSink | null> => {
+  if (typeof VideoEncoder === 'undefined') return null;
+  const { width, height } = canvas;
+  for (const { codec, track } of CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: VIDEO_BITRATE, framerate: fps };
+    const { supported } = await VideoEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+    if (!supported) continue;
+
+    const chunks: WebmFrame[] = [];
+    let failure: unknown = null;
+    const encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        chunks.push({ data, timestamp: chunk.timestamp, key: chunk.type === 'key' });
+      },
+      error: (err) => { failure = err; }
+    });
+    encoder.configure(config);
+    const frameDuration = 1_000_000 / fps;
+
+    return {
+      addFrame: async (index) => {
+        if (failure) throw failure;
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+        encoder.encode(frame, { keyFrame: index % (KEYFRAME_SECONDS * fps) === 0 });
+        frame.close();
+        // Keep the renderer from running far ahead of the encoder
+        while (encoder.encodeQueueSize > 2 && !failure) await wait(1);
+      },
+      finish: async () => {
+        await encoder.flush();
+        encoder.close();
+        if (failure) throw failure;
+        const last = chunks[chunks.length - 1];
+        return muxWebm({ codec: track, width, height }, chunks, last ? last.timestamp + frameDuration : 0);
+      },
+      cancel: () => { if (encoder.state !== 'closed') encoder.close(); }
+    };
+  }
+  return null;
+};
+
+// MediaRecorder stamps frames by wall time, so they are released at the clip's rate. A frame that
+// renders slower than that delays the ones after it, and the video plays unevenly.
+const createRecorderSink = (canvas: HTMLCanvasElement, fps: number): VideoSink | null => {
+  const type = webmType();
+  if (!type) return null;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: type, videoBitsPerSecond: VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+  recorder.start();
+  let due = 0;
+
+  return {
+    addFrame: async () => {
+      const now = performance.now();
+      due = due ? due + 1000 / fps : now;
+      if (due > now) await wait(due - now);
+      track.requestFrame();
+    },
+    finish: () => new Promise<Blob>((resolve, reject) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+      recorder.onerror = () => reject(new Error('The video could not be recorded'));
+      recorder.stop();
+    }),
+    cancel: () => { if (recorder.state === 'recording') recorder.stop(); }
+  };
+};
+
+// Records the scene while it holds the frame loop: each frame is advanced by exactly 1/fps on
+// the scene clock, so everything reading state.clock or the frame delta moves in even steps,
+// then copied out before the browser can clear the drawing buffer. Video goes through WebCodecs
+// where the browser has it, else MediaRecorder (see createRecorderSink).
+// Unmounting cancels the recording and hands the loop back.
+export const ClipRecorder = ({ request, onProgress, onDone, onError }: ClipRecorderProps) => {
+  const get = useThree((s) => s.get);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { gl, clock, advance, setFrameloop, frameloop } = get();
+    // Carry on from the scene's current time so nothing jumps as the recording starts or ends
+    let time = clock.elapsedTime;
+    setFrameloop('never');
+    clock.elapsedTime = time;
+
+    const record = async (): Promise<ClipResult | null> => {
+      const source = gl.domElement;
+      const [width, height] = fitClip(source.width, source.height, MAX_CLIP_WIDTH);
+      const frame = createCanvas(width, height);
+      const ctx = context2d(frame);
+      const { frames, fade } = planClip(request);
+      const step = 1 / request.fps;
+
+      const video = (await createEncoderSink(frame, request.fps)) ?? createRecorderSink(frame, request.fps);
+      if (!video && !request.gif) throw new Error('This browser cannot record video');
+
+      const [gifWidth, gifHeight] = fitClip(width, height, GIF_WIDTH);
+      const gifFrame = request.gif ? context2d(createCanvas(gifWidth, gifHeight), true) : null;
+      const gif = request.gif ? createGifEncoder(gifWidth, gifHeight) : null;
+
+      // A loop's first frames are held back, to be faded in over the frames rendered past its end
+      const held: HTMLCanvasElement[] = [];
+      let reported = -1;
+      let complete = false;
+
+      try {
+        for (let i = 0; i < frames + fade; i++) {
+          if (cancelled) return null;
+          time += step;
+          advance(time);
+
+          if (i < fade) {
+            const copy = createCanvas(width, height);
+            context2d(copy).drawImage(source, 0, 0, width, height);
+            held.push(copy);
+            continue;
+          }
+          ctx.globalAlpha = 1;
+          ctx.drawImage(source, 0, 0, width, height);
+          if (i >= frames) {
+            const k = i - frames;
+            ctx.globalAlpha = (k + 1) / fade;
+            ctx.drawImage(held[k], 0, 0);
+            held[k].width = 0;
+          }
+
+          if (video) await video.addFrame(i - fade);
+          if (gif && gifFrame) {
+            gifFrame.drawImage(frame, 0, 0, gifWidth, gifHeight);
+            gif.addFrame(gifFrame.getImageData(0, 0, gifWidth, gifHeight).data, gifDelay(i - fade, request.fps));
+          }
+
+          const percent = Math.floor(((i + 1) / (frames + fade)) * 100);
+          if (percent !== reported) {
+            reported = percent;
+            onProgress(percent / 100);
+          }
+          // Let the page breathe between frames
+          await wait(0);
+        }
+        complete = true;
+      } finally {
+        held.forEach((canvas) => { canvas.width = 0; });
+        if (!complete) video?.cancel();
+      }
+
+      return { gif: gif?.finish(), webm: await video?.finish() };
+    };
+
+    record()
+      .then((result) => { if (result && !cancelled) onDone(result); })
+      .catch((err) => { if (!cancelled) onError(err); })
+      .finally(() => {
+        setFrameloop(frameloop);
+        clock.elapsedTime = time;
+      });
+
+    return () => { cancelled = true; };
+  }, [request]);
+
+  return null;
+};
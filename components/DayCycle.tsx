@@ -0,0 +1,89 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Sky, Stars } from '@react-three/drei';
+import * as THREE from 'three';
+import type { Sky as SkyImpl } from 'three-stdlib';
+import { DayPhase, TimeSettings } from '../types';
+import { dayClock, dayPhaseAt } from '../utils/dayCycle';
+import { seasonClock } from '../utils/seasonCycle';
+import { weatherClock } from '../utils/weather';
+
+interface DayClockDriverProps {
+  time: TimeSettings;
+  onPhaseChange: (phase: DayPhase) => void;
+}
+
+// Advances the shared day clock once per frame; mount before anything that reads it
+export const DayClockDriver: React.FC<DayClockDriverProps> = ({ time, onPhaseChange }) => {
+  const phase = useRef<DayPhase | null>(null);
+  useFrame((_, delta) => {
+    dayClock.advance(delta, time.mode, time.hours);
+    const next = dayPhaseAt(dayClock.hours);
+    if (next !== phase.current) {
+      phase.current = next;
+      onPhaseChange(next);
+    }
+  });
+  return null;
+};
+
+// drei's starfield has no opacity control, so splice a visibility uniform into its shader
+const addStarVisibility = (material: THREE.ShaderMaterial) => {
+  if (material.uniforms.visibility) return;
+  material.uniforms.visibility = { value: 1 };
+  material.fragmentShader = material.fragmentShader
+    .replace('uniform float fade;', 'uniform float fade;\nuniform float visibility;')
+    .replace('gl_FragColor = vec4(vColor, opacity);', 'gl_FragColor = vec4(vColor, opacity * visibility);');
+  material.needsUpdate = true;
+};
+
+export const FOG_NEAR = 5;
+export const FOG_FAR = 45;
+const MIST_NEAR = 0.5;
+const MIST_FAR = 14;
+const mistGrey = new THREE.Color();
+
+// Sky, stars and fog, blended from the day clock every frame; mist thickens and greys the fog
+export const DaySky = ({ stars = 7000 }: { stars?: number }) => {
+  const skyRef = useRef<SkyImpl>(null);
+  const starsRef = useRef<THREE.Points>(null);
+  const { scene } = useThree();
+
+  useEffect(() => {
+    if (starsRef.current) addStarVisibility(starsRef.current.material as THREE.ShaderMaterial);
+  }, []);
+
+  useFrame(() => {
+    const s = dayClock.sample;
+    if (skyRef.current) {
+      const uniforms = (skyRef.current.material as THREE.ShaderMaterial).uniforms;
+      uniforms.sunPosition.value.copy(s.sunDirection).multiplyScalar(100);
+      uniforms.turbidity.value = s.turbidity;
+      uniforms.rayleigh.value = s.rayleigh;
+      // Below the horizon the scattering shader only adds murk over the stars
+      skyRef.current.visible = s.sunElevation > -0.2;
+    }
+    if (starsRef.current) {
+      const uniforms = (starsRef.current.material as THREE.ShaderMaterial).uniforms;
+      // Cloud cover hides them too
+      const visibility = s.starVisibility * (1 - weatherClock.overcast);
+      if (uniforms.visibility) uniforms.visibility.value = visibility;
+      starsRef.current.visible = visibility > 0.01;
+    }
+    if (scene.fog instanceof THREE.Fog) {
+      const mist = weatherClock.mist;
+      const fog = scene.fog.color.copy(s.fogColor).multiply(seasonClock.sample.fogTint);
+      const grey = (fog.r + fog.g + fog.b) / 3;
+      fog.lerp(mistGrey.setScalar(grey), mist * 0.6);
+      scene.fog.near = FOG_NEAR + (MIST_NEAR - FOG_NEAR) * mist;
+      scene.fog.far = FOG_FAR + (MIST_FAR - FOG_FAR) * mist;
+    }
+  });
+
+  return (
+    <>
+      <Sky ref={skyRef} mieCoefficient={0.005} mieDirectionalG={0.8} />
+      <Stars ref={starsRef} radius={100} depth={50} count={stars} factor={4} saturation={0} fade speed={0.5} />
+    </>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import * as THREE from 'three';
+import { ExploreMode, GARDEN_ORIGIN, GardenLayout } from '../types';
+import { groundClearings } from './GardenRegistry';
+import { constrainCamera, DRAG_TURN, EYE_HEIGHT, GROUND_LEVEL, MAX_PITCH, ORBIT_FLOOR, RUN_SPEED, TURN_SPEED, WALK_SPEED, worldColliders } from '../utils/explore';
+
+export interface ExploreState {
+  mode: ExploreMode;
+  // Element the orbit circles; the garden's centre when none is chosen
+  targetId: string | null;
+}
+
+interface ExploreControlsProps extends ExploreState {
+  layout: GardenLayout;
+  reducedMotion?: boolean;
+}
+
+type Colliders = ReturnType<typeof worldColliders>;
+
+// Keys currently held, by KeyboardEvent.code; ignored while typing in a field
+const useHeldKeys = () => {
+  const held = useRef(new Set<string>());
+  useEffect(() => {
+    const keys = held.current;
+    const onDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      if (e.code.startsWith('Arrow')) e.preventDefault();
+      keys.add(e.code);
+    };
+    const onUp = (e: KeyboardEvent) => keys.delete(e.code);
+    const clear = () => keys.clear();
+    window.addEventListener('keydown', onDown);
+    window.addEventListener('keyup', onUp);
+    window.addEventListener('blur', clear);
+    return () => {
+      window.removeEventListener('keydown', onDown);
+      window.removeEventListener('keyup', onUp);
+      window.removeEventListener('blur', clear);
+      keys.clear();
+    };
+  }, []);
+  // +1 while any of `positive` is held, -1 for `negative`, 0 for both or neither
+  return (positive: string[], negative: string[]) =>
+    (positive.some((c) => held.current.has(c)) ? 1 : 0) - (negative.some((c) => held.current.has(c)) ? 1 : 0);
+};
+
+// First person: WASD or the up/down arrows to walk, left/right arrows or a drag to turn, Shift to hurry.
+// The eye settles to standing height, however high the camera was when the walk began.
+const WalkControls = ({ colliders, reducedMotion }: { colliders: Colliders; reducedMotion?: boolean }) => {
+  const camera = useThree((s) => s.camera);
+  // ScrollControls lays its scroller over the canvas and routes pointer events through it
+  const surface = useThree((s) => (s.events.connected as HTMLElement | undefined) ?? s.gl.domElement);
+  const axis = useHeldKeys();
+  const look = useRef({ yaw: 0, pitch: 0 });
+  const forward = useMemo(() => new THREE.Vector3(), []);
+  const right = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    const euler = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ');
+    look.current = { yaw: euler.y, pitch: THREE.MathUtils.clamp(euler.x, -MAX_PITCH, MAX_PITCH) };
+  }, [camera]);
+
+  useEffect(() => {
+    let dragging: number | null = null;
+    let lastX = 0, lastY = 0;
+    const onDown = (e: PointerEvent) => {
+      dragging = e.pointerId;
+      lastX = e.clientX;
+      lastY = e.clientY;
+    };
+    const onMove = (e: PointerEvent) => {
+      if (e.pointerId !== dragging) return;
+      look.current.yaw -= (e.clientX - lastX) * DRAG_TURN;
+      look.current.pitch = THREE.MathUtils.clamp(look.current.pitch - (e.clientY - lastY) * DRAG_TURN, -MAX_PITCH, MAX_PITCH);
+      lastX = e.clientX;
+      lastY = e.clientY;
+    };
+    const onUp = (e: PointerEvent) => { if (e.pointerId === dragging) dragging = null; };
+    surface.addEventListener('pointerdown', onDown);
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+    return () => {
+      surface.removeEventListener('pointerdown', onDown);
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
+    };
+  }, [surface]);
+
+  useFrame((_, delta) => {
+    // A long stall (tab switch) should not fling the visitor across the garden
+    const dt = Math.min(delta, 0.1);
+    const view = look.current;
+    view.yaw += axis(['ArrowLeft'], ['ArrowRight']) * TURN_SPEED * dt;
+
+    const speed = (axis(['ShiftLeft', 'ShiftRight'], []) ? RUN_SPEED : WALK_SPEED) * dt;
+    forward.set(-Math.sin(view.yaw), 0, -Math.cos(view.yaw));
+    right.set(-forward.z, 0, forward.x);
+    camera.position
+      .addScaledVector(forward, axis(['KeyW', 'ArrowUp'], ['KeyS', 'ArrowDown']) * speed)
+      .addScaledVector(right, axis(['KeyD'], ['KeyA']) * speed);
+    camera.position.y = THREE.MathUtils.lerp(camera.position.y, GROUND_LEVEL + EYE_HEIGHT, reducedMotion ? 1 : 1 - Math.exp(-dt * 3));
+    constrainCamera(camera.position, colliders, ORBIT_FLOOR);
+    camera.rotation.set(view.pitch, view.yaw, 0, 'YXZ');
+  });
+
+  return null;
+};
+
+// Orbit one element: drag or the arrow keys to circle it, scroll or W/S to come closer.
+// Switching elements glides the pivot across rather than cutting to it.
+const OrbitAround = ({ target, colliders, reducedMotion }: { target: THREE.Vector3; colliders: Colliders; reducedMotion?: boolean }) => {
+  const camera = useThree((s) => s.camera);
+  const controls = useRef<OrbitControlsImpl>(null);
+  const axis = useHeldKeys();
+
+  // Start the pivot straight ahead at the target's distance, so the view doesn't jump when orbiting begins
+  useEffect(() => {
+    const c = controls.current;
+    if (!c) return;
+    c.target.copy(camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(camera.position.distanceTo(target)).add(camera.position));
+    // Only the first pivot is placed; later targets glide
+  }, [camera]);
+
+  useFrame((_, delta) => {
+    const c = controls.current;
+    if (!c) return;
+    const dt = Math.min(delta, 0.1);
+    c.target.lerp(target, reducedMotion ? 1 : 1 - Math.exp(-dt * 2));
+    const turn = axis(['ArrowLeft'], ['ArrowRight']) * TURN_SPEED * dt;
+    const tilt = axis(['ArrowUp'], ['ArrowDown']) * TURN_SPEED * dt;
+    if (turn) c.setAzimuthalAngle(c.getAzimuthalAngle() + turn);
+    if (tilt) c.setPolarAngle(c.getPolarAngle() - tilt);
+    const zoom = axis(['KeyW'], ['KeyS']);
+    if (zoom > 0) c.dollyIn(1 + dt);
+    else if (zoom < 0) c.dollyOut(1 + dt);
+    constrainCamera(camera.position, colliders, ORBIT_FLOOR);
+  });
+
+  return (
+    <OrbitControls
+      ref={controls}
+      makeDefault
+      enableDamping={!reducedMotion}
+      enablePan={false}
+      minDistance={1.5}
+      maxDistance={30}
+      maxPolarAngle={Math.PI / 2.05}
+    />
+  );
+};
+
+// Free exploration, replacing the scroll tour's camera. Both modes collide with element footprints
+// (the pond's edge included) and keep above the ground.
+export const ExploreControls = ({ mode, targetId, layout, reducedMotion }: ExploreControlsProps) => {
+  const colliders = useMemo(() => worldColliders(groundClearings(layout)), [layout]);
+  const target = useMemo(() => {
+    const spec = layout.elements.find((el) => el.id === targetId);
+    const [x, y, z] = spec?.position ?? [0, 0, 0];
+    const scale = typeof spec?.scale === 'number' ? spec.scale : spec?.scale[1] ?? 1;
+    // Aim a little above the element's base, where the eye rests on it
+    return new THREE.Vector3(x + GARDEN_ORIGIN[0], y + GARDEN_ORIGIN[1] + 0.6 * scale, z + GARDEN_ORIGIN[2]);
+  }, [layout, targetId]);
+
+  return mode === 'walk'
+    ? <WalkControls colliders={colliders} reducedMotion={reducedMotion} />
+    : <OrbitAround target={target} colliders={colliders} reducedMotion={reducedMotion} />;
+};
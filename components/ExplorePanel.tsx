@@ -0,0 +1,69 @@
+import React, { useEffect } from 'react';
+import { ExploreMode, GardenLayout } from '../types';
+import { GARDEN_ELEMENT_REGISTRY } from './GardenRegistry';
+import { ExploreState } from './ExploreControls';
+import { Translate } from '../utils/i18n';
+import { buttonClass, sectionTitle } from './ui';
+
+interface ExplorePanelProps {
+  explore: ExploreState;
+  layout: GardenLayout;
+  onChange: (explore: ExploreState) => void;
+  onExit: () => void;
+  t: Translate;
+}
+
+const MODES: ExploreMode[] = ['walk', 'orbit'];
+
+// Anything solid enough to stand in the way can be circled; numbered when the garden has several alike
+const orbitTargets = (layout: GardenLayout, t: Translate) => {
+  const solid = layout.elements.filter((el) => GARDEN_ELEMENT_REGISTRY[el.type].footprint);
+  return solid.map((el) => {
+    const alike = solid.filter((other) => other.type === el.type);
+    const name = t(`element.${el.type}`);
+    return { id: el.id, label: alike.length > 1 ? `${name} ${alike.indexOf(el) + 1}` : name };
+  });
+};
+
+export const ExplorePanel: React.FC<ExplorePanelProps> = ({ explore, layout, onChange, onExit, t }) => {
+  const targets = orbitTargets(layout, t);
+
+  // Escape ends the walk as readily as the button does
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onExit(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onExit]);
+
+  return (
+    <div className="absolute bottom-6 right-6 z-40 w-72 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('explore.title')}</span>
+        <div className="flex gap-1">
+          {MODES.map((mode) => (
+            <button key={mode} onClick={() => onChange({ ...explore, mode })} aria-pressed={explore.mode === mode} className={buttonClass(explore.mode === mode)}>
+              {t(`explore.${mode}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {explore.mode === 'orbit' && targets.length > 0 && (
+        <div>
+          <p className={sectionTitle}>{t('explore.around')}</p>
+          <div className="grid grid-cols-2 gap-1">
+            {targets.map(({ id, label }) => (
+              <button key={id} onClick={() => onChange({ ...explore, targetId: id })} aria-pressed={explore.targetId === id} className={`${buttonClass(explore.targetId === id)} text-left truncate`}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[10px] tracking-wider opacity-50 leading-relaxed">{t(explore.mode === 'walk' ? 'explore.walkHint' : 'explore.orbitHint')}</p>
+
+      <button onClick={onExit} className={`${buttonClass()} border border-white/20`}>{t('explore.return')}</button>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { OrbitControls, TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { GardenLayout, GardenTransform, TransformMode, Vec3 } from '../types';
+import { MIN_ELEMENT_SCALE } from '../utils/gardenLayout';
+
+export interface GardenEditorState {
+  selectedId: string | null;
+  mode: TransformMode;
+  onSelect: (id: string | null) => void;
+  onTransform: (id: string, transform: GardenTransform) => void;
+}
+
+interface GardenEditorControlsProps extends GardenEditorState {
+  layout: GardenLayout;
+  // Wrapper groups of the rendered elements, keyed by element id
+  objects: Map<string, THREE.Group>;
+}
+
+// The gizmo can drag an axis through zero; layouts only accept positive scales, so stop short
+const readTransform = (obj: THREE.Object3D): GardenTransform => {
+  obj.scale.set(...(obj.scale.toArray().map((s) => Math.max(MIN_ELEMENT_SCALE, s)) as Vec3));
+  const { x: sx, y: sy, z: sz } = obj.scale;
+  const uniform = Math.abs(sx - sy) < 1e-4 && Math.abs(sy - sz) < 1e-4;
+  return {
+    position: obj.position.toArray() as Vec3,
+    rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
+    scale: uniform ? sx : [sx, sy, sz]
+  };
+};
+
+// Edit mode: orbit freely, click an element to select it, then drag the gizmo.
+// The gizmo moves the element's wrapper group directly and commits to the layout on release.
+export const GardenEditorControls: React.FC<GardenEditorControlsProps> = ({ layout, objects, selectedId, mode, onTransform }) => {
+  const [target, setTarget] = useState<THREE.Group | null>(null);
+
+  useEffect(() => {
+    setTarget(selectedId ? objects.get(selectedId) ?? null : null);
+  }, [selectedId, layout, objects]);
+
+  const commit = () => {
+    if (target && selectedId) onTransform(selectedId, readTransform(target));
+  };
+
+  return (
+    <>
+      <OrbitControls makeDefault enableDamping maxPolarAngle={Math.PI / 2.05} minDistance={2} maxDistance={60} />
+      {target && <TransformControls object={target} mode={mode} size={0.8} onMouseUp={commit} />}
+    </>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GardenElementType, GardenLayout, TransformMode } from '../types';
+import { GardenLayoutError, parseGardenLayout, saveLayoutLocally, serializeGardenLayout } from '../utils/gardenLayout';
+import { downloadText } from '../utils/download';
+import { Translate } from '../utils/i18n';
+import { buttonClass, sectionTitle } from './ui';
+
+interface GardenEditorPanelProps {
+  layout: GardenLayout;
+  selectedId: string | null;
+  mode: TransformMode;
+  onModeChange: (mode: TransformMode) => void;
+  onSelect: (id: string | null) => void;
+  onAdd: (type: GardenElementType) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onReplace: (layout: GardenLayout) => void;
+  onReset: () => void;
+  onExit: () => void;
+  t: Translate;
+}
+
+const MODES: { mode: TransformMode; key: string }[] = [
+  { mode: 'translate', key: 'w' },
+  { mode: 'rotate', key: 'e' },
+  { mode: 'scale', key: 'r' }
+];
+
+const formatVec = (v: number[]) => v.map((n) => n.toFixed(2)).join(', ');
+
+export const GardenEditorPanel: React.FC<GardenEditorPanelProps> = ({ layout, selectedId, mode, onModeChange, onSelect, onAdd, onDuplicate, onDelete, onReplace, onReset, onExit, t }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const selected = layout.elements.find((el) => el.id === selectedId) ?? null;
+
+  // Blender/three.js-style shortcuts; ignored while typing in a field
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea')) return;
+      const key = e.key.toLowerCase();
+      const m = MODES.find((entry) => entry.key === key);
+      if (m && !e.ctrlKey && !e.metaKey) onModeChange(m.mode);
+      else if ((key === 'delete' || key === 'backspace') && selectedId) { e.preventDefault(); onDelete(); }
+      else if (key === 'd' && (e.ctrlKey || e.metaKey) && selectedId) { e.preventDefault(); onDuplicate(); }
+      else if (key === 'escape') onSelect(null);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [selectedId, onModeChange, onDelete, onDuplicate, onSelect]);
+
+  useEffect(() => {
+    if (!message) return;
+    const id = setTimeout(() => setMessage(null), 4000);
+    return () => clearTimeout(id);
+  }, [message]);
+
+  const save = () => {
+    saveLayoutLocally(layout);
+    setMessage(t('editor.saved'));
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onReplace(parseGardenLayout(JSON.parse(await file.text())));
+      setMessage(t('editor.loaded', { file: file.name }));
+    } catch (err) {
+      setMessage(err instanceof GardenLayoutError ? err.issues.join(' ') : t('editor.invalidJson', { file: file.name }));
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="absolute top-6 right-6 bottom-6 z-40 w-72 flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('editor.title')}</span>
+        <button onClick={onExit} className={buttonClass()}>{t('editor.done')}</button>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('editor.tool')}</p>
+        <div className="flex gap-1">
+          {MODES.map((m) => (
+            <button key={m.mode} onClick={() => onModeChange(m.mode)} className={buttonClass(mode === m.mode)} title={`${t(`transform.${m.mode}`)} (${m.key.toUpperCase()})`}>{t(`transform.${m.mode}`)}</button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('editor.selection')}</p>
+        {selected ? (
+          <div className="flex flex-col gap-2 text-[11px] opacity-80">
+            <span className="font-bold tracking-wider">{selected.id} <span className="opacity-50 font-normal">· {t(`element.${selected.type}`)}</span></span>
+            <span>{t('editor.position', { value: formatVec(selected.position) })}</span>
+            <span>{t('editor.rotation', { value: formatVec(selected.rotation) })}</span>
+            <span>{t('editor.scale', { value: typeof selected.scale === 'number' ? selected.scale.toFixed(2) : formatVec(selected.scale) })}</span>
+            <div className="flex gap-1 mt-1">
+              <button onClick={onDuplicate} className={buttonClass()}>{t('editor.duplicate')}</button>
+              <button onClick={onDelete} className={buttonClass()}>{t('editor.delete')}</button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-[11px] opacity-50">{t('editor.nothingSelected')}</p>
+        )}
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('editor.elements')}</p>
+        <ul className="flex flex-col max-h-48 overflow-y-auto">
+          {layout.elements.map((el) => (
+            <li key={el.id}>
+              <button onClick={() => onSelect(el.id)} className={`w-full text-left ${buttonClass(el.id === selectedId)}`}>{el.id}</button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('editor.add')}</p>
+        <div className="grid grid-cols-2 gap-1">
+          {Object.values(GardenElementType).map((type) => (
+            <button key={type} onClick={() => onAdd(type)} className={buttonClass()}>{t(`element.${type}`)}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-auto">
+        <p className={sectionTitle}>{t('editor.layout')}</p>
+        <div className="grid grid-cols-2 gap-1">
+          <button onClick={save} className={buttonClass()}>{t('editor.save')}</button>
+          <button onClick={() => downloadText(serializeGardenLayout(layout), 'zen-garden-layout.json')} className={buttonClass()}>{t('editor.export')}</button>
+          <button onClick={() => fileInput.current?.click()} className={buttonClass()}>{t('editor.import')}</button>
+          <button onClick={onReset} className={buttonClass()}>{t('editor.reset')}</button>
+        </div>
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+        {message && <p className="text-[10px] tracking-wider opacity-60 mt-2">{message}</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,282 +1,61 @@
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
-import { MeshDistortMaterial, Instances, Instance, Cylinder, Box, MeshReflectorMaterial, Float, Extrude, Sphere } from '@react-three/drei';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { MeshDistortMaterial, Instances, Instance, Cylinder, Box, MeshReflectorMaterial, Float, Extrude, Sphere, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { HAIKUS, HaikuData } from '../types';
-
-// --- Advanced Texture Generation Utilities (High Fidelity with FBM) ---
-const TextureGenerator = {
-  perm: new Uint8Array(512),
-  init: false,
-  setup() {
-    if (this.init) return;
-    const p = new Uint8Array(256).map((_, i) => i);
-    for (let i = 255; i > 0; i--) {
-      const r = Math.floor(Math.random() * (i + 1));
-      [p[i], p[r]] = [p[r], p[i]];
-    }
-    for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
-    this.init = true;
-  },
-  fade(t: number) { return t * t * t * (t * (t * 6 - 15) + 10); },
-  lerp(t: number, a: number, b: number) { return a + t * (b - a); },
-  grad(hash: number, x: number, y: number, z: number) {
-    const h = hash & 15;
-    const u = h < 8 ? x : y, v = h < 4 ? y : ((h === 12 || h === 14) ? x : z);
-    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
-  },
-  noise(x: number, y: number, z: number) {
-    if (!this.init) this.setup();
-    const X = Math.floor(x) & 255, Y = Math.floor(y) & 255, Z = Math.floor(z) & 255;
-    x -= Math.floor(x); y -= Math.floor(y); z -= Math.floor(z);
-    const u = this.fade(x), v = this.fade(y), w = this.fade(z);
-    const A = this.perm[X] + Y, AA = this.perm[A] + Z, AB = this.perm[A + 1] + Z,
-      B = this.perm[X + 1] + Y, BA = this.perm[B] + Z, BB = this.perm[B + 1] + Z;
-    return this.lerp(w, this.lerp(v, this.lerp(u, this.grad(this.perm[AA], x, y, z), this.grad(this.perm[BA], x - 1, y, z)),
-      this.lerp(u, this.grad(this.perm[AB], x, y - 1, z), this.grad(this.perm[BB], x - 1, y - 1, z))),
-      this.lerp(v, this.lerp(u, this.grad(this.perm[AA + 1], x, y, z - 1), this.grad(this.perm[BA + 1], x - 1, y, z - 1)),
-        this.lerp(u, this.grad(this.perm[AB + 1], x, y - 1, z - 1), this.grad(this.perm[BB + 1], x - 1, y - 1, z - 1))));
-  },
-  // Fractal Brownian Motion
-  fbm(x: number, y: number, z: number, octaves: number, persistence: number = 0.5, scale: number = 1) {
-    let total = 0;
-    let frequency = scale;
-    let amplitude = 1;
-    let maxValue = 0;
-    for (let i = 0; i < octaves; i++) {
-      total += this.noise(x * frequency, y * frequency, z * frequency) * amplitude;
-      maxValue += amplitude;
-      amplitude *= persistence;
-      frequency *= 2;
-    }
-    return total / maxValue;
-  },
-
-  createOrganicTexture: (width: number, height: number, type: 'granite' | 'bamboo' | 'wood' | 'sand' | 'roughness' | 'moss') => {
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-    const imgData = ctx.createImageData(width, height);
-    const data = imgData.data;
-
-    TextureGenerator.setup();
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const i = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-
-        if (type === 'granite') {
-          // Multi-layered noise for realistic stone grain
-          const n1 = TextureGenerator.fbm(nx * 15, ny * 15, 0, 4, 0.5);
-          const n2 = TextureGenerator.fbm(nx * 50, ny * 50, 10, 3, 0.5); // Fine grit
-          const n3 = TextureGenerator.fbm(nx * 100, ny * 100, 20, 2, 0.5); // Micro details
-          
-          // Mix Greys/Blues/Browns
-          // Stone usually has speckles of black (mica), quartz (white), and feldspar (pink/grey)
-          const baseVal = 0.4 + n1 * 0.3;
-          
-          let r = baseVal * 160;
-          let g = baseVal * 165;
-          let b = baseVal * 170;
-
-          // Dark spots (Mica)
-          if (n2 < 0.3) {
-             r *= 0.5; g *= 0.5; b *= 0.5;
-          }
-          // Light spots (Quartz)
-          if (n3 > 0.7) {
-             r += 40; g += 40; b += 40;
-          }
-
-          data[i] = r;     // R
-          data[i + 1] = g; // G
-          data[i + 2] = b; // B
-          data[i + 3] = 255;
-        } 
-        else if (type === 'bamboo') {
-          // Vertical striations
-          const fiber = TextureGenerator.fbm(nx * 80, ny * 2, 0, 5, 0.6); 
-          const stain = TextureGenerator.fbm(nx * 4, ny * 6, 32, 4, 0.5);
-          
-          // Base Bamboo Color (Fresh Green to Yellowish)
-          // More realistic: less saturated, varying from yellow-green to dark green
-          const baseR = 110, baseG = 140, baseB = 80;
-          
-          const fiberVar = (fiber - 0.5) * 40;
-          const stainVar = (stain - 0.5) * 50;
-
-          data[i] = Math.max(0, Math.min(255, baseR + fiberVar - stainVar * 0.5));
-          data[i + 1] = Math.max(0, Math.min(255, baseG + fiberVar - stainVar * 0.5));
-          data[i + 2] = Math.max(0, Math.min(255, baseB + fiberVar - stainVar * 0.8));
-          data[i + 3] = 255;
-        }
-        else if (type === 'wood') {
-           // Wood grain (Sine distortion on noise)
-           const grain = TextureGenerator.fbm(nx * 6, ny * 40 + Math.sin(nx * 10)*3, 5, 4);
-           // Red Lacquer Base - deep, rich red
-           const r = 120 + grain * 30;
-           const g = 20 + grain * 10;
-           const b = 15 + grain * 10;
-           data[i] = r; data[i+1] = g; data[i+2] = b; data[i+3] = 255;
-        }
-        else if (type === 'sand') {
-            // Fine sand grains
-            const grain = TextureGenerator.fbm(nx * 150, ny * 150, 0, 2);
-            // Larger slight color variation
-            const patch = TextureGenerator.fbm(nx * 5, ny * 5, 10, 3);
-            
-            const val = 200 + grain * 40 + patch * 15;
-            data[i] = val; data[i+1] = val; data[i+2] = val - 5; data[i+3] = 255;
-        }
-      }
-    }
-    
-    ctx.putImageData(imgData, 0, 0);
-
-    // Post-process Overlays
-    if(type === 'bamboo') {
-         // Random scuff marks or dark patches
-         ctx.fillStyle = 'rgba(60, 50, 30, 0.1)';
-         for(let k=0; k<30; k++) {
-             const rx = Math.random() * width;
-             const ry = Math.random() * height;
-             const w = 2 + Math.random() * 5;
-             const h = 10 + Math.random() * 30;
-             ctx.fillRect(rx, ry, w, h);
-         }
-    }
-
-    const tex = new THREE.CanvasTexture(canvas);
-    tex.colorSpace = THREE.SRGBColorSpace;
-    tex.wrapS = THREE.RepeatWrapping;
-    tex.wrapT = THREE.RepeatWrapping;
-    tex.anisotropy = 16; // Maximize anisotropy for sharpness at angles
-    return tex;
-  },
-
-  createRoughnessMap: (width: number, height: number, type: 'stone' | 'bamboo' | 'sand') => {
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-    const imgData = ctx.createImageData(width, height);
-    const data = imgData.data;
-
-    TextureGenerator.setup();
-
-    for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-            const i = (y * width + x) * 4;
-            const nx = x / width;
-            const ny = y / height;
-            
-            let val = 0.5;
-
-            if (type === 'stone') {
-                 // Stone roughness: Mica is shiny (low roughness), Matrix is matte (high roughness)
-                 const n = TextureGenerator.fbm(nx * 60, ny * 60, 5, 3);
-                 // Invert: high noise = matte, low noise = shiny
-                 val = 0.4 + n * 0.6; 
-            } else if (type === 'bamboo') {
-                 // Bamboo is generally smooth/shiny but has micro-grooves
-                 const fiber = TextureGenerator.fbm(nx * 100, ny * 2, 0, 2);
-                 val = 0.2 + fiber * 0.3;
-            } else if (type === 'sand') {
-                 // Sand is rough
-                 const n = TextureGenerator.fbm(nx * 100, ny * 100, 0, 2);
-                 val = 0.8 + n * 0.2;
-            }
-
-            data[i] = val * 255;
-            data[i+1] = val * 255;
-            data[i+2] = val * 255;
-            data[i+3] = 255;
-        }
-    }
-    ctx.putImageData(imgData, 0, 0);
-    const tex = new THREE.CanvasTexture(canvas);
-    tex.wrapS = THREE.RepeatWrapping;
-    tex.wrapT = THREE.RepeatWrapping;
-    tex.anisotropy = 16;
-    return tex;
-  },
-
-  createNormalMap: (width: number, height: number, strength: number = 5, type: 'generic' | 'bamboo' | 'stone' = 'generic') => {
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d')!;
-    const imgData = ctx.createImageData(width, height);
-    const data = imgData.data;
-    
-    const buffer = new Float32Array(width * height);
-    TextureGenerator.setup();
-    
-    // Generate Height Map
-    for(let y=0; y<height; y++) {
-        for(let x=0; x<width; x++) {
-            const nx = x/width; 
-            const ny = y/height;
-            if (type === 'bamboo') {
-                 // Vertical fibers
-                 buffer[y*width+x] = TextureGenerator.fbm(nx*150, ny*5, 0, 3);
-            } else if (type === 'stone') {
-                 // Craggy
-                 buffer[y*width+x] = TextureGenerator.fbm(nx*20, ny*20, 99, 5);
-            } else {
-                 buffer[y*width+x] = TextureGenerator.fbm(nx*10, ny*10, 99, 4); 
-            }
-        }
-    }
-
-    // Sobel Filter for Normals
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const i = (y * width + x) * 4;
-        const x1 = buffer[y * width + ((x - 1 + width) % width)];
-        const x2 = buffer[y * width + ((x + 1) % width)];
-        const y1 = buffer[((y - 1 + height) % height) * width + x];
-        const y2 = buffer[((y + 1) % height) * width + x];
-
-        const dx = (x1 - x2) * strength;
-        const dy = (y1 - y2) * strength;
-        const dz = 1.0 / strength;
-
-        const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
-        
-        data[i] = ((dx / len) * 0.5 + 0.5) * 255;
-        data[i + 1] = ((dy / len) * 0.5 + 0.5) * 255;
-        data[i + 2] = (dz / len) * 255;
-        data[i + 3] = 255;
-      }
-    }
-    ctx.putImageData(imgData, 0, 0);
-    const tex = new THREE.CanvasTexture(canvas);
-    tex.wrapS = THREE.RepeatWrapping;
-    tex.wrapT = THREE.RepeatWrapping;
-    tex.anisotropy = 16;
-    return tex;
-  }
+import { GroundClearing, HAIKUS, HaikuData, RakeStroke, RakeWidth } from '../types';
+import { getGardenSeed, seededRandom } from '../utils/random';
+import { createRakeSurface, DEFAULT_RAKE_STROKES, shouldAppendPoint } from '../utils/rake';
+import { windAt } from '../utils/wind';
+import { weatherClock } from '../utils/weather';
+import { addGrassWind, BLADE_HEIGHT, chunkDrawCount, createGrassUniforms, GRASS_GROUND, scatterGrass } from '../utils/grass';
+import { seasonClock } from '../utils/seasonCycle';
+import { addSnowCover } from '../utils/snowCover';
+import { ambientAudio } from '../utils/audio';
+import { createKoiSchool, FOOD_LIFETIME, KoiFood, KoiObstacle, POND_RADIUS, stepKoiSchool } from '../utils/koi';
+import { createPondRipples, PondRipples, ponds } from '../utils/ripples';
+import { createWaterSurface, MAX_WATER_DROPS } from '../utils/waterSurface';
+import { TextureSpec } from '../utils/proceduralTextures';
+import { Translate } from '../utils/i18n';
+import { getProceduralTexture, releaseTexture, retainTexture } from '../utils/textureCache';
+
+// --- Procedural Textures ---
+// Painted in workers and shared through utils/textureCache; each texture fills in once it is ready
+const useProceduralTexture = (spec: TextureSpec) => {
+  const { key, texture } = getProceduralTexture(spec, getGardenSeed());
+  useEffect(() => {
+    retainTexture(key);
+    return () => releaseTexture(key);
+  }, [key]);
+  return texture;
 };
 
 // --- Types ---
-interface GardenElementProps {
+export interface GardenElementProps {
   position: [number, number, number];
   rotation?: [number, number, number];
   scale?: number | [number, number, number];
+  // Stable key for seeded details, so moving an element doesn't reshuffle it
+  seedKey?: string;
 }
 
 // --- Procedural Grass ---
-export const GrassField = ({ count = 35000, area = 50 }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
+const UP = new THREE.Vector3(0, 1, 0);
+
+interface GrassFieldProps {
+  count?: number;
+  area?: number;
+  clearings?: GroundClearing[];
+  // Share of `count` actually planted (quality setting)
+  density?: number;
+}
+
+export const GrassField = ({ count = 35000, area = 50, clearings = [], density = 1 }: GrassFieldProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const chunkRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
   const geometry = useMemo(() => {
-    const geo = new THREE.PlaneGeometry(0.08, 0.45, 1, 6);
-    geo.translate(0, 0.225, 0);
+    const geo = new THREE.PlaneGeometry(0.08, BLADE_HEIGHT, 1, 6);
+    geo.translate(0, BLADE_HEIGHT / 2, 0);
     const pos = geo.attributes.position;
-    const uvs = geo.attributes.uv;
     const colors = [];
     for (let i = 0; i < pos.count; i++) {
         const y = pos.getY(i);
@@ -287,52 +66,127 @@ export const GrassField = ({ count = 35000, area = 50 }) => {
         const zOffset = Math.pow(y, 2) * 0.2;
         pos.setX(i, pos.getX(i) * widthMod);
         pos.setZ(i, pos.getZ(i) + zOffset);
-        if (y < 0.1) colors.push(0.1, 0.2, 0.05);
-        else colors.push(0.4, 0.6, 0.2);
+        colors.push(0, 0, 0);
     }
     geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
     geo.computeVertexNormals();
     return geo;
   }, []);
 
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  const data = useMemo(() => new Array(count).fill(0).map(() => ({
-      x: (Math.random() - 0.5) * area,
-      z: (Math.random() - 0.5) * area,
-      scale: 0.6 + Math.random() * 0.8,
-      rotation: Math.random() * Math.PI,
-      lean: Math.random() * 0.4
-  })), [count, area]);
+  const clearingKey = clearings.map((c) => `${c.x},${c.z},${c.radius}`).join(';');
+  const planted = Math.round(count * density);
+  const chunks = useMemo(() => scatterGrass(planted, area, clearings, seededRandom('grass')), [planted, area, clearingKey]);
+  // Each chunk gets its own copy of the blade so it can carry that chunk's rank attribute
+  const chunkGeometries = useMemo(() => chunks.map((chunk) => {
+    const geo = geometry.clone();
+    geo.setAttribute('bladeRank', new THREE.InstancedBufferAttribute(chunk.ranks, 1));
+    return geo;
+  }), [chunks, geometry]);
+  useEffect(() => () => chunkGeometries.forEach((geo) => geo.dispose()), [chunkGeometries]);
+
+  // Blade colors follow the season blend; every instance of a chunk shares its blade, so this is cheap.
+  // New chunks start unpainted, whatever the season clock says.
+  const colorVersion = useRef(-1);
+  useEffect(() => { colorVersion.current = -1; }, [chunkGeometries]);
+  const paintBlades = () => {
+    if (colorVersion.current === seasonClock.version) return;
+    colorVersion.current = seasonClock.version;
+    const { grassBase, grassTip } = seasonClock.sample;
+    chunkGeometries.forEach((geo) => {
+      const pos = geo.attributes.position;
+      const color = geo.attributes.color;
+      for (let i = 0; i < pos.count; i++) {
+          const c = pos.getY(i) < 0.1 ? grassBase : grassTip;
+          color.setXYZ(i, c.r, c.g, c.b);
+      }
+      color.needsUpdate = true;
+    });
+  };
+
+  const uniforms = useMemo(() => createGrassUniforms(), []);
+  const material = useMemo(() => {
+    const m = new THREE.MeshStandardMaterial({ color: '#ffffff', vertexColors: true, roughness: 0.6, metalness: 0.1, side: THREE.DoubleSide });
+    addGrassWind(m, uniforms);
+    return m;
+  }, [uniforms]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    chunks.forEach((chunk, i) => {
+      const mesh = chunkRefs.current[i];
+      if (!mesh) return;
+      mesh.instanceMatrix.array.set(chunk.matrices);
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    });
+  }, [chunks]);
+
+  const ground = useMemo(() => new THREE.Plane(), []);
+  const hit = useMemo(() => new THREE.Vector3(), []);
+  const viewer = useMemo(() => new THREE.Vector3(), []);
+  const lastPointer = useMemo(() => new THREE.Vector2(Infinity, Infinity), []);
+  const pointerStir = useRef(0);
+
+  useFrame((state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    paintBlades();
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uWind.value = weatherClock.wind;
+
+    // Everything below is in field space
+    const [pointerBender, cameraBender] = uniforms.uBenders.value;
+    viewer.copy(state.camera.position);
+    group.worldToLocal(viewer);
+    uniforms.uViewer.value.copy(viewer);
+    // A camera walking through the grass parts it
+    cameraBender.set(viewer.x, viewer.z, 1.2, THREE.MathUtils.clamp(1 - (viewer.y - GRASS_GROUND - 0.5) / 2.5, 0, 1));
+
+    // The pointer only stirs the grass while it moves, then the blades spring back
+    if (!lastPointer.equals(state.pointer)) {
+      lastPointer.copy(state.pointer);
+      pointerStir.current = 1;
+    } else {
+      pointerStir.current = Math.max(0, pointerStir.current - delta * 1.5);
+    }
+    ground.setFromNormalAndCoplanarPoint(UP, group.localToWorld(hit.set(0, GRASS_GROUND, 0)));
+    state.raycaster.setFromCamera(state.pointer, state.camera);
+    if (pointerStir.current > 0 && state.raycaster.ray.intersectPlane(ground, hit)) {
+      group.worldToLocal(hit);
+      pointerBender.set(hit.x, hit.z, 1, pointerStir.current);
+    } else {
+      pointerBender.w = 0;
+    }
 
-  useFrame((state) => {
-    if (!meshRef.current) return;
-    const time = state.clock.elapsedTime;
-    data.forEach((d, i) => {
-        const windX = Math.sin(time * 0.7 + d.x * 0.3) + Math.sin(time * 1.3 + d.x * 0.8) * 0.3;
-        const windStrength = 0.15 + Math.max(0, windX) * 0.2;
-        dummy.position.set(d.x, -0.15, d.z);
-        dummy.rotation.set(Math.sin(time * 0.5 + d.x) * windStrength * 0.6 + d.lean, d.rotation + windX * 0.1, Math.cos(time * 0.5 + d.z) * windStrength * 0.2);
-        dummy.scale.setScalar(d.scale);
-        dummy.updateMatrix();
-        meshRef.current!.setMatrixAt(i, dummy.matrix);
+    const { x, z } = uniforms.uViewer.value;
+    chunks.forEach((chunk, i) => {
+      const mesh = chunkRefs.current[i];
+      if (mesh) mesh.count = chunkDrawCount(chunk, x, z);
     });
-    meshRef.current.instanceMatrix.needsUpdate = true;
   });
 
   return (
-    <instancedMesh ref={meshRef} args={[geometry, undefined, count]} receiveShadow castShadow={false}>
-      <meshStandardMaterial color="#ffffff" vertexColors roughness={0.6} metalness={0.1} side={THREE.DoubleSide} />
-    </instancedMesh>
+    <group ref={groupRef}>
+      {chunks.map((chunk, i) => (
+        <instancedMesh
+          key={i}
+          ref={(el) => { chunkRefs.current[i] = el; }}
+          args={[chunkGeometries[i], material, chunk.count]}
+          receiveShadow
+          castShadow={false}
+        />
+      ))}
+    </group>
   );
 };
 
 // --- Tea Ceremony Platform ---
-export const TeaCeremonyPlatform = ({ position, rotation = [0,0,0] }: GardenElementProps) => {
-    const woodTex = useMemo(() => TextureGenerator.createOrganicTexture(1024, 1024, 'wood'), []);
-    const normalMap = useMemo(() => TextureGenerator.createNormalMap(1024, 1024, 3), []);
+export const TeaCeremonyPlatform = ({ position, rotation = [0,0,0], scale = 1 }: GardenElementProps) => {
+    const woodTex = useProceduralTexture({ kind: 'organic', type: 'wood', width: 1024, height: 1024 });
+    const normalMap = useProceduralTexture({ kind: 'normal', width: 1024, height: 1024, strength: 3 });
 
     return (
-        <group position={position} rotation={new THREE.Euler(...rotation)}>
+        <group position={position} rotation={new THREE.Euler(...rotation)} scale={scale}>
             <mesh position={[0, 0.1, 0]} receiveShadow castShadow>
                 <boxGeometry args={[3, 0.2, 3]} />
                 <meshPhysicalMaterial 
@@ -377,16 +231,31 @@ export const TeaCeremonyPlatform = ({ position, rotation = [0,0,0] }: GardenElem
 };
 
 // --- Moss Garden ---
-export const MossGarden = ({ position }: GardenElementProps) => {
-    const mossNormal = useMemo(() => TextureGenerator.createNormalMap(512, 512, 15), []);
-    const rocks = useMemo(() => new Array(6).fill(0).map(() => ({
-        pos: [(Math.random()-0.5)*5, 0, (Math.random()-0.5)*5] as [number,number,number],
-        scale: 0.4 + Math.random() * 0.6,
-        rot: [Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI] as [number,number,number]
-    })), []);
+export const MossGarden = ({ position, rotation = [0,0,0], scale = 1, seedKey = position.join(',') }: GardenElementProps) => {
+    const mossNormal = useProceduralTexture({ kind: 'normal', width: 512, height: 512, strength: 15 });
+    const mossMaterials = useRef<THREE.MeshStandardMaterial[]>([]);
+    const groundMaterial = useRef<THREE.MeshStandardMaterial>(null);
+    const colorVersion = useRef(-1);
+
+    // Moss greens, browns and frosts with the season blend
+    useFrame(() => {
+        if (colorVersion.current === seasonClock.version) return;
+        colorVersion.current = seasonClock.version;
+        mossMaterials.current.forEach((m) => m.color.copy(seasonClock.sample.moss));
+        groundMaterial.current?.color.copy(seasonClock.sample.mossGround);
+    });
+
+    const rocks = useMemo(() => {
+        const random = seededRandom(`moss:${seedKey}`);
+        return new Array(6).fill(0).map(() => ({
+            pos: [(random()-0.5)*5, 0, (random()-0.5)*5] as [number,number,number],
+            scale: 0.4 + random() * 0.6,
+            rot: [random()*Math.PI, random()*Math.PI, random()*Math.PI] as [number,number,number]
+        }));
+    }, [seedKey]);
 
     return (
-        <group position={position}>
+        <group position={position} rotation={new THREE.Euler(...rotation)} scale={scale}>
             {rocks.map((rock, i) => (
                 <group key={i} position={rock.pos} rotation={new THREE.Euler(...rock.rot)}>
                     <mesh castShadow receiveShadow position={[0, rock.scale/2, 0]}>
@@ -395,43 +264,48 @@ export const MossGarden = ({ position }: GardenElementProps) => {
                     </mesh>
                     <mesh position={[0, rock.scale/2 + 0.01, 0]}>
                         <dodecahedronGeometry args={[rock.scale * 1.05, 3]} />
-                        <MeshDistortMaterial color="#4f6b35" speed={0.2} factor={0.3} distort={0.2} roughness={1} bumpMap={mossNormal} bumpScale={0.2} />
+                        <MeshDistortMaterial ref={(m: THREE.MeshStandardMaterial | null) => { if (m) { mossMaterials.current[i] = m; colorVersion.current = -1; } }} speed={0.2} factor={0.3} distort={0.2} roughness={1} bumpMap={mossNormal} bumpScale={0.2} />
                     </mesh>
                 </group>
             ))}
              <mesh rotation={[-Math.PI/2, 0, 0]} position={[0, 0.02, 0]} receiveShadow>
                 <circleGeometry args={[3.5, 128]} />
-                <meshStandardMaterial color="#2d4c1e" roughness={1} normalMap={mossNormal} normalScale={new THREE.Vector2(1,1)} />
+                <meshStandardMaterial ref={groundMaterial} roughness={1} normalMap={mossNormal} normalScale={new THREE.Vector2(1,1)} />
             </mesh>
         </group>
     );
 };
 
 // --- Shishi-odoshi ---
-export const ShishiOdoshi = ({ position, rotation = [0,0,0] }: GardenElementProps) => {
+export const ShishiOdoshi = ({ position, rotation = [0,0,0], scale = 1 }: GardenElementProps) => {
   const tubeRef = useRef<THREE.Group>(null);
-  const [state, setState] = useState<'filling' | 'tipping' | 'returning'>('filling');
+  // Kept in a ref so each frame sees the phase the last one left, and the clack sounds exactly once
+  const phase = useRef<'filling' | 'tipping' | 'returning'>('filling');
   const fillLevel = useRef(0);
-  const bambooTex = useMemo(() => TextureGenerator.createOrganicTexture(512, 512, 'bamboo'), []);
-  const bambooRough = useMemo(() => TextureGenerator.createRoughnessMap(512, 512, 'bamboo'), []);
+  const worldPos = useMemo(() => new THREE.Vector3(), []);
+  const bambooTex = useProceduralTexture({ kind: 'organic', type: 'bamboo', width: 512, height: 512 });
+  const bambooRough = useProceduralTexture({ kind: 'roughness', type: 'bamboo', width: 512, height: 512 });
   
   useFrame((_, delta) => {
     if (!tubeRef.current) return;
-    if (state === 'filling') {
+    if (phase.current === 'filling') {
       fillLevel.current += delta * 0.5;
-      if (fillLevel.current > 1) setState('tipping');
+      if (fillLevel.current > 1) {
+        phase.current = 'tipping';
+        ambientAudio.clack(tubeRef.current.getWorldPosition(worldPos));
+      }
       tubeRef.current.rotation.z = THREE.MathUtils.lerp(tubeRef.current.rotation.z, 0.1 * fillLevel.current, 0.1);
-    } else if (state === 'tipping') {
+    } else if (phase.current === 'tipping') {
       tubeRef.current.rotation.z = THREE.MathUtils.lerp(tubeRef.current.rotation.z, -0.8, 0.15);
-      if (tubeRef.current.rotation.z < -0.7) { fillLevel.current = 0; setState('returning'); }
-    } else if (state === 'returning') {
+      if (tubeRef.current.rotation.z < -0.7) { fillLevel.current = 0; phase.current = 'returning'; }
+    } else {
       tubeRef.current.rotation.z = THREE.MathUtils.lerp(tubeRef.current.rotation.z, 0, 0.2);
-      if (Math.abs(tubeRef.current.rotation.z) < 0.05) setState('filling');
+      if (Math.abs(tubeRef.current.rotation.z) < 0.05) phase.current = 'filling';
     }
   });
 
   return (
-    <group position={position} rotation={new THREE.Euler(...rotation)}>
+    <group position={position} rotation={new THREE.Euler(...rotation)} scale={scale}>
       <Cylinder args={[0.04, 0.04, 0.8]} position={[-0.3, 0.4, 0]} material-color="#4A7C59" />
       <Cylinder args={[0.04, 0.04, 0.8]} position={[0.3, 0.4, 0]} material-color="#4A7C59" />
       <Cylinder args={[0.02, 0.02, 0.7]} position={[0, 0.6, 0]} rotation={[0, 0, Math.PI/2]} material-color="#4A7C59" />
@@ -453,15 +327,27 @@ export const ShishiOdoshi = ({ position, rotation = [0,0,0] }: GardenElementProp
 }
 
 // --- Zen Stone (Photorealistic) ---
-export const ZenStone = ({ position, scale, rotation, onInteract }: GardenElementProps & { onInteract: (h: HaikuData) => void }) => {
+interface ZenStoneProps extends GardenElementProps {
+  library?: HaikuData[];
+  onInteract: (h: HaikuData) => void;
+  // Names the stone in its keyboard control; just 'stone' when left out
+  label?: string;
+  t: Translate;
+}
+
+export const ZenStone = ({ position, scale, rotation, seedKey = position.join(','), library = HAIKUS, onInteract, label, t }: ZenStoneProps) => {
   const [hovered, setHover] = useState(false);
-  const haiku = useMemo(() => HAIKUS[Math.floor(Math.random() * HAIKUS.length)], []);
+  const [focused, setFocused] = useState(false);
+  const haiku = useMemo(() => {
+    const random = seededRandom(`haiku:${seedKey}`);
+    return library[Math.floor(random() * library.length)];
+  }, [seedKey, library]);
   const scaleVal = typeof scale === 'number' ? [scale, scale, scale] : scale;
   
   // High res textures for zoom
-  const graniteTex = useMemo(() => TextureGenerator.createOrganicTexture(1024, 1024, 'granite'), []);
-  const normalMap = useMemo(() => TextureGenerator.createNormalMap(1024, 1024, 15, 'stone'), []);
-  const roughMap = useMemo(() => TextureGenerator.createRoughnessMap(1024, 1024, 'stone'), []);
+  const graniteTex = useProceduralTexture({ kind: 'organic', type: 'granite', width: 1024, height: 1024 });
+  const normalMap = useProceduralTexture({ kind: 'normal', type: 'stone', width: 1024, height: 1024, strength: 15 });
+  const roughMap = useProceduralTexture({ kind: 'roughness', type: 'stone', width: 1024, height: 1024 });
 
   useEffect(() => { document.body.style.cursor = hovered ? 'pointer' : 'auto'; }, [hovered]);
 
@@ -488,8 +374,21 @@ export const ZenStone = ({ position, scale, rotation, onInteract }: GardenElemen
             displacementScale={0.12}
             clearcoat={0.05} // Slight sheen for polished areas
             clearcoatRoughness={0.1}
+            emissive="#F5F5DC"
+            emissiveIntensity={focused ? 0.08 : 0}
+            onBeforeCompile={addSnowCover}
           />
         </mesh>
+        {/* Keyboard stand-in for the click: invisible until focused, then a ring around the stone */}
+        <Html center style={{ pointerEvents: 'none' }}>
+          <button
+            aria-label={t('stone.readHaiku', { name: label ?? t('stone.label') })}
+            onClick={() => onInteract(haiku)}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            className="block w-20 h-20 rounded-full opacity-0 focus-visible:opacity-100 outline-none ring-1 ring-washi/80 shadow-[0_0_20px_rgba(245,245,220,0.4)] transition-opacity duration-300"
+          />
+        </Html>
         {/* Soft AO Shadow */}
         <mesh position={[0, -0.2, 0]} rotation={[-Math.PI/2, 0, 0]}>
            <planeGeometry args={[2.8, 2.8]} />
@@ -510,30 +409,46 @@ export const ZenStone = ({ position, scale, rotation, onInteract }: GardenElemen
 
 // --- Bamboo Grove ---
 export const BambooGrove = ({ count = 50, area = 25 }) => {
-  const bambooData = useMemo(() => new Array(count).fill(0).map(() => ({
-      position: [(Math.random() - 0.5) * area, 0, (Math.random() - 0.5) * area * 0.6 - 8] as [number, number, number],
-      scale: 0.8 + Math.random() * 0.5,
-      rotation: Math.random() * Math.PI,
-      lean: (Math.random() - 0.5) * 0.2
-  })), [count, area]);
+  const bambooData = useMemo(() => {
+      const random = seededRandom('bamboo');
+      return new Array(count).fill(0).map(() => ({
+          position: [(random() - 0.5) * area, 0, (random() - 0.5) * area * 0.6 - 8] as [number, number, number],
+          scale: 0.8 + random() * 0.5,
+          rotation: random() * Math.PI,
+          lean: (random() - 0.5) * 0.2
+      }));
+  }, [count, area]);
   
-  const bambooTex = useMemo(() => TextureGenerator.createOrganicTexture(1024, 2048, 'bamboo'), []);
-  const bambooNormal = useMemo(() => TextureGenerator.createNormalMap(1024, 2048, 8, 'bamboo'), []);
-  const bambooRough = useMemo(() => TextureGenerator.createRoughnessMap(1024, 2048, 'bamboo'), []);
+  const bambooTex = useProceduralTexture({ kind: 'organic', type: 'bamboo', width: 1024, height: 2048 });
+  const bambooNormal = useProceduralTexture({ kind: 'normal', type: 'bamboo', width: 1024, height: 2048, strength: 8 });
+  const bambooRough = useProceduralTexture({ kind: 'roughness', type: 'bamboo', width: 1024, height: 2048 });
+  const stalks = useRef<(THREE.Group | null)[]>([]);
+
+  // Stalks bow away from the wind (+x) and rock a little across it
+  useFrame((state) => {
+    const time = state.clock.elapsedTime;
+    bambooData.forEach((d, i) => {
+        const stalk = stalks.current[i];
+        if (!stalk) return;
+        const wind = windAt(time * 0.8, d.position[0]);
+        stalk.rotation.x = d.lean + Math.sin(time * 1.1 + d.position[2]) * wind * 0.008;
+        stalk.rotation.z = d.lean - wind * 0.025;
+    });
+  });
 
   return (
     <group>
-        {bambooData.map((data, i) => <RealisticBambooStalk key={i} {...data} texture={bambooTex} normal={bambooNormal} rough={bambooRough} />)}
+        {bambooData.map((data, i) => <RealisticBambooStalk key={i} ref={(g: THREE.Group | null) => { stalks.current[i] = g; }} {...data} texture={bambooTex} normal={bambooNormal} rough={bambooRough} />)}
     </group>
   );
 };
 
-const RealisticBambooStalk = ({ position, scale, lean, texture, normal, rough }: any) => {
+const RealisticBambooStalk = ({ ref, position, scale, lean, texture, normal, rough }: any) => {
     const segments = 6;
     const height = 1.8 * scale;
     const radius = 0.08 * scale;
     return (
-        <group position={[position[0], 0, position[2]]} rotation={[lean, 0, lean]}>
+        <group ref={ref} position={[position[0], 0, position[2]]} rotation={[lean, 0, lean]}>
             {Array.from({length: segments}).map((_, i) => (
                 <group key={i} position={[0, i * height, 0]}>
                     <mesh position={[0, height/2, 0]} castShadow receiveShadow>
@@ -573,8 +488,8 @@ const RealisticBambooStalk = ({ position, scale, lean, texture, normal, rough }:
 }
 
 // --- Torii Gate ---
-export const ToriiGate = ({ position }: { position: [number, number, number] }) => {
-  const lacquerTex = useMemo(() => TextureGenerator.createOrganicTexture(512, 512, 'wood'), []);
+export const ToriiGate = ({ position, rotation = [0,0,0], scale = 1 }: GardenElementProps) => {
+  const lacquerTex = useProceduralTexture({ kind: 'organic', type: 'wood', width: 512, height: 512 });
   const kasagiCurve = useMemo(() => new THREE.CatmullRomCurve3([
         new THREE.Vector3(-4.5, 7.5, 0), new THREE.Vector3(-2.5, 7.1, 0), new THREE.Vector3(0, 7.0, 0),
         new THREE.Vector3(2.5, 7.1, 0), new THREE.Vector3(4.5, 7.5, 0)]), []);
@@ -586,7 +501,7 @@ export const ToriiGate = ({ position }: { position: [number, number, number] })
   const BlackBaseMaterial = <meshPhysicalMaterial color="#1a1a1a" roughness={0.6} />;
 
   return (
-    <group position={position}>
+    <group position={position} rotation={new THREE.Euler(...rotation)} scale={scale}>
       <mesh position={[-3, 3.5, 0]} castShadow receiveShadow><cylinderGeometry args={[0.38, 0.42, 7.5, 64]} />{WoodMaterial}</mesh>
       <mesh position={[-3, 0.5, 0]}><cylinderGeometry args={[0.43, 0.45, 1.0, 64]} />{BlackBaseMaterial}</mesh>
       <mesh position={[3, 3.5, 0]} castShadow receiveShadow><cylinderGeometry args={[0.38, 0.42, 7.5, 64]} />{WoodMaterial}</mesh>
@@ -606,11 +521,11 @@ export const ToriiGate = ({ position }: { position: [number, number, number] })
 };
 
 // --- Lantern ---
-export const Lantern = ({ position, scale = 1 }: GardenElementProps) => {
-  const stoneTex = useMemo(() => TextureGenerator.createOrganicTexture(256, 256, 'granite'), []);
+export const Lantern = ({ position, rotation = [0,0,0], scale = 1 }: GardenElementProps) => {
+  const stoneTex = useProceduralTexture({ kind: 'organic', type: 'granite', width: 256, height: 256 });
   const mat = <meshPhysicalMaterial map={stoneTex} roughness={0.9} />;
   return (
-    <group position={position} scale={scale}>
+    <group position={position} rotation={new THREE.Euler(...rotation)} scale={scale}>
        <mesh position={[0, 0.2, 0]} castShadow><cylinderGeometry args={[0.3, 0.4, 0.4, 8]} />{mat}</mesh>
        <mesh position={[0, 0.9, 0]} castShadow><cylinderGeometry args={[0.2, 0.25, 1.2, 8]} />{mat}</mesh>
        <mesh position={[0, 1.5, 0]} castShadow><cylinderGeometry args={[0.55, 0.4, 0.2, 8]} />{mat}</mesh>
@@ -623,126 +538,390 @@ export const Lantern = ({ position, scale = 1 }: GardenElementProps) => {
 }
 
 // --- Reflective Pond ---
-export const ZenPond = () => {
-    const stoneTex = useMemo(() => TextureGenerator.createOrganicTexture(256, 256, 'granite'), []);
+const POND_SURFACE = -0.15;
+const MAX_FOOD = 12;
+
+interface PondStone {
+  pos: [number, number, number];
+  scale: number;
+  rot: [number, number, number];
+}
+
+const createPondStones = (radius: number, count: number): PondStone[] => {
+  const random = seededRandom('pond-ring');
+  return new Array(count).fill(0).map((_, i) => {
+    const angle = (i / count) * Math.PI * 2;
+    return {
+      pos: [Math.cos(angle) * radius + (random()-0.5)*0.5, 0.1, Math.sin(angle) * radius + (random()-0.5)*0.5],
+      scale: 0.3 + random() * 0.3,
+      rot: [random()*Math.PI, random()*Math.PI, random()*Math.PI]
+    };
+  });
+};
+
+const SPLASHES_PER_SECOND = 60; // at full rain
+const SPLASH_RADIUS = 5.8; // just inside the pond's stone ring
+
+// Drops striking the pond, queued in its own local space for the water simulation
+const PondSplashes = ({ ripples }: { ripples: PondRipples }) => {
+  const random = useMemo(() => seededRandom('rain-splash'), []);
+  const spawnDebt = useRef(0);
+
+  useFrame((_, delta) => {
+    spawnDebt.current += weatherClock.rain * SPLASHES_PER_SECOND * delta;
+    while (spawnDebt.current >= 1) {
+      spawnDebt.current -= 1;
+      const r = Math.sqrt(random()) * SPLASH_RADIUS, a = random() * Math.PI * 2;
+      ripples.add(Math.cos(a) * r, Math.sin(a) * r, 0.5 + random() * 0.5);
+    }
+  });
+
+  return null;
+};
+
+export const ZenPond = ({ koi = 7, reflectorResolution = 1024 }: { koi?: number; reflectorResolution?: number }) => {
+    const ripples = useMemo(() => createPondRipples(), []);
+    useEffect(() => ponds.register(ripples), [ripples]);
+    const stoneTex = useProceduralTexture({ kind: 'organic', type: 'granite', width: 256, height: 256 });
+    const groupRef = useRef<THREE.Group>(null);
+    const stones = useMemo(() => createPondStones(6.1, 40), []);
+    // The ring stones double as obstacles the school steers around
+    const obstacles = useMemo<KoiObstacle[]>(() => stones.map((s) => ({ x: s.pos[0], z: s.pos[2], radius: s.scale })), [stones]);
+    const food = useRef<KoiFood[]>([]);
+    const lastTouch = useRef<THREE.Vector3 | null>(null);
+
+    const toPond = (e: ThreeEvent<PointerEvent | MouseEvent>) => groupRef.current!.worldToLocal(e.point.clone());
+
+    // Clicking the water scatters a pellet where it lands (drags are camera moves, not clicks)
+    const dropFood = (e: ThreeEvent<MouseEvent>) => {
+      if (e.delta > 4 || !groupRef.current) return;
+      e.stopPropagation();
+      const p = toPond(e);
+      if (food.current.length >= MAX_FOOD) food.current.shift();
+      food.current.push({ x: p.x, z: p.z, age: 0 });
+      ripples.add(p.x, p.z, 0.8);
+    };
+
+    // A pointer trailing over the water leaves a light wake
+    const touchWater = (e: ThreeEvent<PointerEvent>) => {
+      if (!groupRef.current) return;
+      const p = toPond(e);
+      if (lastTouch.current && lastTouch.current.distanceTo(p) < 0.35) return;
+      lastTouch.current = p;
+      ripples.add(p.x, p.z, 0.3);
+    };
+
+    useFrame(() => {
+      if (groupRef.current) ponds.place(ripples, groupRef.current.matrixWorld, POND_SURFACE, POND_RADIUS);
+    });
+
     return (
-      <group>
-        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.15, 0]}>
-            <circleGeometry args={[6, 64]} />
-            <MeshReflectorMaterial
-                blur={[400, 100]} // Reduced vertical blur for clarity
-                resolution={1024}
-                mixBlur={1}
-                mixStrength={50} // Reduced mix strength
-                roughness={0.05} // Smoother
-                depthScale={1.2}
-                minDepthThreshold={0.4}
-                maxDepthThreshold={1.4}
-                color="#0a1a20"
-                metalness={0.9}
-                mirror={0.95}
-            />
-        </mesh>
-        <RingOfStones radius={6.1} count={40} texture={stoneTex} />
-        <Koi startPos={[0, 0, 0]} speed={0.5} color="#ff4400" />
-        <Koi startPos={[2, 0, 1]} speed={0.4} color="#ffffff" />
-        <Koi startPos={[-1.5, 0, -1.5]} speed={0.6} color="#ffd700" />
+      <group ref={groupRef}>
+        <PondWater ripples={ripples} resolution={reflectorResolution} onClick={dropFood} onPointerMove={touchWater} onPointerOut={() => { lastTouch.current = null; }} />
+        <RingOfStones stones={stones} texture={stoneTex} />
+        <KoiSchool count={koi} food={food} obstacles={obstacles} ripples={ripples} />
+        <PondSplashes ripples={ripples} />
       </group>
     );
 };
 
-const RingOfStones = ({radius, count, texture}: {radius: number, count: number, texture: THREE.Texture}) => {
-   const stones = useMemo(() => new Array(count).fill(0).map((_, i) => {
-      const angle = (i / count) * Math.PI * 2;
-      return {
-           pos: [Math.cos(angle) * radius + (Math.random()-0.5)*0.5, 0.1, Math.sin(angle) * radius + (Math.random()-0.5)*0.5] as [number,number,number],
-           scale: 0.3 + Math.random() * 0.3,
-           rot: [Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI] as [number, number, number]
-      }
-   }), [radius, count]);
+const RingOfStones = ({stones, texture}: {stones: PondStone[], texture: THREE.Texture}) => (
+  <group>
+     {stones.map((s, i) => (
+       <mesh key={i} position={s.pos} rotation={new THREE.Euler(...s.rot)} castShadow receiveShadow>
+          <dodecahedronGeometry args={[s.scale, 1]} />
+          <meshStandardMaterial map={texture} roughness={0.8} color="#777" onBeforeCompile={addSnowCover} />
+       </mesh>
+     ))}
+  </group>
+);
+
+interface PondWaterProps {
+  ripples: PondRipples;
+  resolution: number;
+  onClick: (e: ThreeEvent<MouseEvent>) => void;
+  onPointerMove: (e: ThreeEvent<PointerEvent>) => void;
+  onPointerOut: () => void;
+}
 
-   return (
-     <group>
-        {stones.map((s, i) => (
-          <mesh key={i} position={s.pos} rotation={new THREE.Euler(...s.rot)} castShadow receiveShadow>
-             <dodecahedronGeometry args={[s.scale, 1]} />
-             <meshStandardMaterial map={texture} roughness={0.8} color="#777" />
-          </mesh>
-        ))}
-     </group>
-   )
+// The reflector disc, its normals driven by the ripple heightfield so the reflection wobbles
+const PondWater = ({ ripples, resolution, ...props }: PondWaterProps) => {
+  const { gl } = useThree();
+  const surface = useMemo(() => createWaterSurface(), []);
+  useEffect(() => () => surface.dispose(), [surface]);
+
+  useFrame((_, delta) => {
+    // Pond-local x/z to disc texture coordinates (the disc is laid flat, so v runs along -z)
+    ripples.take(MAX_WATER_DROPS * 2).forEach((r) => surface.disturb({
+      u: 0.5 + r.x / (POND_RADIUS * 2),
+      v: 0.5 - r.z / (POND_RADIUS * 2),
+      radius: 0.012 + r.strength * 0.018,
+      depth: 0.004 + r.strength * 0.02
+    }));
+    surface.update(gl, delta);
+  });
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, POND_SURFACE, 0]} {...props}>
+        <circleGeometry args={[POND_RADIUS, 64]} />
+        <MeshReflectorMaterial
+            blur={[400, 100]} // Reduced vertical blur for clarity
+            resolution={resolution}
+            mixBlur={1}
+            mixStrength={50} // Reduced mix strength
+            roughness={0.05} // Smoother
+            depthScale={1.2}
+            minDepthThreshold={0.4}
+            maxDepthThreshold={1.4}
+            color="#0a1a20"
+            metalness={0.9}
+            mirror={0.95}
+            normalMap={surface.normalMap}
+        />
+    </mesh>
+  );
+};
+
+// --- Koi ---
+const KOI_DEPTH = POND_SURFACE - 0.03;
+const KOI_WAKE_INTERVAL = 0.3; // seconds between the faint swirls a swimming fish leaves
+
+// Traditional varieties: body color, pattern color (top only) and belly
+const KOI_VARIETIES = [
+  { base: '#f4f1ea', pattern: '#d9381e', belly: '#f4f1ea' }, // kohaku
+  { base: '#e8b423', pattern: null, belly: '#f0cc5a' },      // ogon
+  { base: '#1c1a1a', pattern: '#d9381e', belly: '#f4f1ea' }, // showa
+  { base: '#f4f1ea', pattern: '#1c1a1a', belly: '#f4f1ea' }, // shiro utsuri-ish
+  { base: '#8a5a2b', pattern: null, belly: '#b58450' },      // chagoi
+  { base: '#6f8fa8', pattern: null, belly: '#d9601e' }       // asagi
+];
+
+// Spindle body along +z (head forward), a touch flatter than it is wide
+const createKoiBody = () => {
+  const profile = [[0, -0.26], [0.02, -0.24], [0.045, -0.16], [0.075, -0.05], [0.085, 0.05], [0.075, 0.13], [0.05, 0.19], [0.02, 0.225], [0, 0.23]]
+    .map(([r, y]) => new THREE.Vector2(r, y));
+  const geometry = new THREE.LatheGeometry(profile, 14);
+  geometry.rotateX(Math.PI / 2);
+  geometry.scale(1, 0.75, 1);
+  return geometry;
+};
+
+const finGeometry = (points: number[], indices: number[]) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+// Forked caudal fin in the vertical plane, hinged at the origin
+const createTailFin = () => finGeometry(
+  [0, 0, 0, 0, 0.08, -0.18, 0, 0.015, -0.12, 0, -0.015, -0.12, 0, -0.08, -0.18],
+  [0, 1, 2, 0, 2, 3, 0, 3, 4]
+);
+
+const createPectoralFins = () => finGeometry(
+  [0.05, -0.03, 0.1, 0.15, -0.06, 0.03, 0.05, -0.03, 0.02, -0.05, -0.03, 0.1, -0.15, -0.06, 0.03, -0.05, -0.03, 0.02],
+  [0, 1, 2, 3, 4, 5]
+);
+
+// Paints a body copy with a seeded variety and blotch pattern
+const paintKoi = (body: THREE.BufferGeometry, random: () => number) => {
+  const variety = KOI_VARIETIES[Math.floor(random() * KOI_VARIETIES.length)];
+  const base = new THREE.Color(variety.base), pattern = variety.pattern && new THREE.Color(variety.pattern), belly = new THREE.Color(variety.belly);
+  const ox = random() * 10, oz = random() * 10, freq = 14 + random() * 10;
+  const geometry = body.clone();
+  const pos = geometry.attributes.position;
+  const colors = new Float32Array(pos.count * 3);
+  const c = new THREE.Color();
+  for (let i = 0; i < pos.count; i++) {
+    const x = pos.getX(i), y = pos.getY(i), z = pos.getZ(i);
+    c.copy(base);
+    if (y < -0.02) c.copy(belly);
+    else if (pattern && Math.sin(z * freq + ox) + Math.sin(x * freq * 0.8 + z * 9 + oz) > 0.4) c.copy(pattern);
+    c.toArray(colors, i * 3);
+  }
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  return geometry;
+};
+
+interface KoiSchoolProps {
+  count: number;
+  food: React.MutableRefObject<KoiFood[]>;
+  obstacles: KoiObstacle[];
+  ripples: PondRipples;
 }
 
-const Koi = ({ startPos, speed, color }: { startPos: [number, number, number], speed: number, color: string }) => {
-  const ref = useRef<THREE.Group>(null);
-  const offset = useRef(Math.random() * 100);
-  useFrame((state) => {
-    if (!ref.current) return;
-    const t = state.clock.elapsedTime * speed + offset.current;
-    const x = Math.sin(t) * 2.5 + startPos[0];
-    const z = Math.cos(t * 0.7) * 2 + startPos[2];
-    ref.current.position.set(x, -0.3, z);
-    ref.current.lookAt(x + Math.cos(t) * 2.5, -0.3, z - Math.sin(t * 0.7) * 1.4);
-    ref.current.rotation.y += Math.sin(t * 10) * 0.1; 
+const KoiSchool = ({ count, food, obstacles, ripples }: KoiSchoolProps) => {
+  const school = useMemo(() => createKoiSchool(count, seededRandom('koi-school')), [count]);
+  const random = useMemo(() => seededRandom('koi-swim'), []);
+  const fish = useMemo(() => {
+    const random = seededRandom('koi-variety');
+    const body = createKoiBody();
+    const painted = school.map(() => ({ body: paintKoi(body, random), scale: 0.8 + random() * 0.45 }));
+    body.dispose();
+    return painted;
+  }, [school]);
+  const tail = useMemo(() => createTailFin(), []);
+  const pectoral = useMemo(() => createPectoralFins(), []);
+  useEffect(() => () => fish.forEach((f) => f.body.dispose()), [fish]);
+  useEffect(() => () => { tail.dispose(); pectoral.dispose(); }, [tail, pectoral]);
+
+  const fishRefs = useRef<(THREE.Group | null)[]>([]);
+  const tailRefs = useRef<(THREE.Group | null)[]>([]);
+  const pelletRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  useFrame((state, delta) => {
+    const time = state.clock.elapsedTime;
+    const pellets = food.current;
+    for (let k = pellets.length - 1; k >= 0; k--) {
+      pellets[k].age += delta;
+      if (pellets[k].age > FOOD_LIFETIME) pellets.splice(k, 1);
+    }
+
+    stepKoiSchool(school, pellets, obstacles, time, delta, random).forEach((k) => {
+      ripples.add(pellets[k].x, pellets[k].z, 0.6);
+      pellets.splice(k, 1);
+    });
+
+    school.forEach((koi, i) => {
+      const group = fishRefs.current[i];
+      if (!group) return;
+      const speed = Math.hypot(koi.vx, koi.vz);
+      group.position.set(koi.x, KOI_DEPTH + Math.sin(time * 0.9 + koi.phase) * 0.008, koi.z);
+      // Fish just under the surface stir it as they pass; staggered by phase so the school doesn't pulse
+      if (Math.floor((time + koi.phase) / KOI_WAKE_INTERVAL) !== Math.floor((time - delta + koi.phase) / KOI_WAKE_INTERVAL)) {
+        ripples.add(koi.x, koi.z, Math.min(0.25, speed * 0.2));
+      }
+      // Turn through the shortest arc toward the swimming direction
+      const heading = Math.atan2(koi.vx, koi.vz);
+      const turn = Math.atan2(Math.sin(heading - group.rotation.y), Math.cos(heading - group.rotation.y));
+      group.rotation.y += turn * Math.min(1, delta * 5);
+      const tailGroup = tailRefs.current[i];
+      if (tailGroup) tailGroup.rotation.y = Math.sin(time * (3 + speed * 10) + koi.phase) * (0.2 + speed * 0.35);
+    });
+
+    if (pelletRef.current) {
+      pellets.forEach((f, k) => {
+        // Pellets bob and slowly soak in before dissolving
+        dummy.position.set(f.x, POND_SURFACE + 0.02 + Math.sin(time * 2 + k) * 0.004, f.z);
+        dummy.scale.setScalar(1 - (f.age / FOOD_LIFETIME) * 0.6);
+        dummy.updateMatrix();
+        pelletRef.current!.setMatrixAt(k, dummy.matrix);
+      });
+      pelletRef.current.count = pellets.length;
+      pelletRef.current.instanceMatrix.needsUpdate = true;
+    }
   });
 
   return (
-    <group ref={ref}>
-      <mesh castShadow>
-        <capsuleGeometry args={[0.08, 0.4, 4, 16]} />
-        <meshPhysicalMaterial color={color} roughness={0.2} metalness={0.1} clearcoat={1} clearcoatRoughness={0.1} />
-      </mesh>
+    <group>
+      {fish.map((f, i) => (
+        <group key={i} ref={(el) => { fishRefs.current[i] = el; }} scale={f.scale}>
+          <mesh geometry={f.body} castShadow>
+            <meshPhysicalMaterial vertexColors roughness={0.25} clearcoat={1} clearcoatRoughness={0.1} />
+          </mesh>
+          <mesh geometry={pectoral}>
+            <meshStandardMaterial color="#f0e8dc" transparent opacity={0.55} side={THREE.DoubleSide} />
+          </mesh>
+          <group position={[0, 0, -0.24]} ref={(el) => { tailRefs.current[i] = el; }}>
+            <mesh geometry={tail}>
+              <meshStandardMaterial color="#f0e8dc" transparent opacity={0.6} side={THREE.DoubleSide} />
+            </mesh>
+          </group>
+        </group>
+      ))}
+      <instancedMesh ref={pelletRef} args={[undefined, undefined, MAX_FOOD]} frustumCulled={false}>
+        <sphereGeometry args={[0.03, 8, 6]} />
+        <meshStandardMaterial color="#a8713a" roughness={0.9} />
+      </instancedMesh>
     </group>
   );
 };
 
 // --- Raked Sand (High Res) ---
-export const SandGarden = () => {
-    const sandTex = useMemo(() => TextureGenerator.createOrganicTexture(1024, 1024, 'sand'), []);
-    const sandRough = useMemo(() => TextureGenerator.createRoughnessMap(1024, 1024, 'sand'), []);
-    const rakeNormal = useMemo(() => {
-        const canvas = document.createElement('canvas');
-        canvas.width = 1024; canvas.height = 1024;
-        const ctx = canvas.getContext('2d')!;
-        
-        // Clear blue normal background
-        ctx.fillStyle = '#8080ff'; ctx.fillRect(0,0,1024,1024);
-        
-        // Add subtle noise to the base normal
-        const nData = ctx.getImageData(0,0,1024,1024);
-        for(let i=0; i<nData.data.length; i+=4) {
-            const n = (Math.random()-0.5) * 10;
-            nData.data[i] += n; nData.data[i+1] += n;
-        }
-        ctx.putImageData(nData, 0, 0);
-
-        for(let i=0; i<25; i++) {
-            const r = 150 + i * 35;
-            ctx.beginPath(); ctx.arc(300, 900, r, 0, Math.PI*2); ctx.lineWidth = 15;
-            // Steep ridge
-            ctx.strokeStyle = `rgba(${128 + 60}, ${128}, ${255}, 1)`; ctx.stroke();
-            
-            ctx.beginPath(); ctx.arc(300, 900, r - 4, 0, Math.PI*2); ctx.lineWidth = 8;
-            // Shadow side
-            ctx.strokeStyle = `rgba(${128 - 60}, ${128}, ${255}, 1)`; ctx.stroke();
-        }
-        
-        const tex = new THREE.CanvasTexture(canvas);
-        tex.anisotropy = 16;
-        return tex;
-    }, []);
+export interface SandGardenProps {
+  strokes?: RakeStroke[];
+  raking?: boolean;
+  rakeWidth?: RakeWidth;
+  onStroke?: (stroke: RakeStroke) => void;
+}
+
+const sameStrokes = (a: RakeStroke[], b: RakeStroke[]) => a.length === b.length && a.every((s, i) => s === b[i]);
+
+export const SandGarden = ({ strokes = DEFAULT_RAKE_STROKES, raking = false, rakeWidth = RakeWidth.Medium, onStroke }: SandGardenProps) => {
+    const sandTex = useProceduralTexture({ kind: 'organic', type: 'sand', width: 1024, height: 1024 });
+    const sandRough = useProceduralTexture({ kind: 'roughness', type: 'sand', width: 1024, height: 1024 });
+    const surface = useMemo(() => createRakeSurface(seededRandom('sand-normal')), []);
+    useEffect(() => () => surface.dispose(), [surface]);
+
+    // Strokes currently carved into the surface; the live stroke is carved while dragging
+    const drawn = useRef<RakeStroke[] | null>(null);
+    const activeStroke = useRef<RakeStroke | null>(null);
+
+    useEffect(() => {
+        if (drawn.current && sameStrokes(drawn.current, strokes)) return;
+        surface.redraw(strokes);
+        drawn.current = strokes;
+    }, [strokes, surface]);
+
+    useEffect(() => { if (!raking) document.body.style.cursor = 'auto'; }, [raking]);
+
+    const toSandUv = (e: ThreeEvent<PointerEvent>): [number, number] | null => e.uv ? [e.uv.x, 1 - e.uv.y] : null;
+
+    const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+        const uv = toSandUv(e);
+        if (!uv) return;
+        e.stopPropagation();
+        (e.target as Element).setPointerCapture(e.pointerId);
+        activeStroke.current = { width: rakeWidth, points: [uv] };
+    };
+
+    const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+        const stroke = activeStroke.current;
+        const uv = toSandUv(e);
+        if (!stroke || !uv) return;
+        const last = stroke.points[stroke.points.length - 1];
+        if (!shouldAppendPoint(last, uv)) return;
+        surface.carveSegment(stroke.width, last, uv);
+        stroke.points.push(uv);
+    };
+
+    const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+        const stroke = activeStroke.current;
+        if (!stroke) return;
+        (e.target as Element).releasePointerCapture(e.pointerId);
+        activeStroke.current = null;
+        if (stroke.points.length < 2) return;
+        drawn.current = [...(drawn.current ?? []), stroke];
+        onStroke?.(stroke);
+    };
 
     return (
         <group position={[0, -0.2, 0]}>
-            <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+            {/* Handlers only while raking: raycasting the dense plane on every pointer move is costly */}
+            <mesh
+                rotation={[-Math.PI / 2, 0, 0]}
+                receiveShadow
+                onPointerDown={raking ? handlePointerDown : undefined}
+                onPointerMove={raking ? handlePointerMove : undefined}
+                onPointerUp={raking ? handlePointerUp : undefined}
+                onPointerOver={raking ? () => { document.body.style.cursor = 'crosshair'; } : undefined}
+                onPointerOut={raking ? () => { document.body.style.cursor = 'auto'; } : undefined}
+            >
                 <planeGeometry args={[60, 60, 512, 512]} />
                 <meshPhysicalMaterial 
                     map={sandTex}
                     roughnessMap={sandRough}
                     color="#E8E8E8" 
                     roughness={0.9} 
-                    normalMap={rakeNormal}
+                    normalMap={surface.normalMap}
                     normalScale={new THREE.Vector2(2, 2)}
+                    displacementMap={surface.heightMap}
+                    displacementScale={0.06}
+                    displacementBias={-0.03}
+                    onBeforeCompile={addSnowCover}
                 />
             </mesh>
              <group position={[-4, 0, 2]}>
@@ -758,12 +937,12 @@ export const SandGarden = () => {
 }
 
 // --- Tsukubai ---
-export const Tsukubai = ({ position }: GardenElementProps) => {
-   const stoneTex = useMemo(() => TextureGenerator.createOrganicTexture(512, 512, 'granite'), []);
-   const normalMap = useMemo(() => TextureGenerator.createNormalMap(512, 512, 10), []);
+export const Tsukubai = ({ position, rotation = [0,0,0], scale = 1 }: GardenElementProps) => {
+   const stoneTex = useProceduralTexture({ kind: 'organic', type: 'granite', width: 512, height: 512 });
+   const normalMap = useProceduralTexture({ kind: 'normal', width: 512, height: 512, strength: 10 });
 
    return (
-     <group position={position}>
+     <group position={position} rotation={new THREE.Euler(...rotation)} scale={scale}>
         <mesh position={[0, 0.2, 0]} castShadow receiveShadow>
            <cylinderGeometry args={[0.4, 0.35, 0.45, 64]} />
            <meshPhysicalMaterial map={stoneTex} normalMap={normalMap} roughness={0.8} displacementMap={normalMap} displacementScale={0.05} />
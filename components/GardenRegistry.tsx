@@ -0,0 +1,141 @@
+import React, { useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { GardenElementSpec, GardenElementType, GardenLayout, GroundClearing, HaikuData, QualitySettings, Vec3 } from '../types';
+import { Translate } from '../utils/i18n';
+import { GardenEditorControls, GardenEditorState } from './GardenEditor';
+import { BambooGrove, ZenStone, ZenPond, ToriiGate, SandGarden, SandGardenProps, Lantern, ShishiOdoshi, Tsukubai, GrassField, TeaCeremonyPlatform, MossGarden } from './GardenElements';
+
+// Runtime wiring that a layout file cannot express
+export interface GardenElementBindings {
+  onInteract: (data: HaikuData) => void;
+  // The haiku stones draw from
+  haiku?: HaikuData[];
+  sand?: SandGardenProps;
+  // Ground that solid elements stand on, kept clear of grass
+  clearings?: GroundClearing[];
+  quality?: QualitySettings;
+  // Names the stones' keyboard controls in the visitor's language
+  t: Translate;
+}
+
+interface GardenElementEntry {
+  // Field elements span the whole garden: too costly to raycast, so the editor selects them from its list
+  field?: boolean;
+  render: (spec: GardenElementSpec, bindings: GardenElementBindings) => React.ReactNode;
+  // Ground the element covers at scale 1, in its own space
+  footprint?: GroundClearing[];
+}
+
+// Elements are drawn at the origin; the wrapping group in GardenElement carries the layout transform
+const ORIGIN: Vec3 = [0, 0, 0];
+const numberProp = (spec: GardenElementSpec, key: string) => spec.props[key] as number | undefined;
+const circle = (radius: number, x = 0, z = 0): GroundClearing => ({ x, z, radius });
+// 'stone-large' reads as 'Large stone', 'zen-stone-2' as 'Stone 2'
+const stoneLabel = (id: string, t: Translate) => {
+  const words = id.split(/[-_\s]+/).filter((w) => w && w !== 'zen' && w !== 'stone').join(' ');
+  if (!words) return t('stone.label');
+  return /^\d+$/.test(words) ? t('stone.numbered', { number: words }) : t('stone.named', { name: `${words[0].toUpperCase()}${words.slice(1)}` });
+};
+
+export const GARDEN_ELEMENT_REGISTRY: Record<GardenElementType, GardenElementEntry> = {
+  [GardenElementType.SandGarden]: { field: true, render: (_, { sand }) => <SandGarden {...sand} /> },
+  [GardenElementType.ZenPond]: {
+    field: true,
+    footprint: [circle(6.5)],
+    render: (spec, { quality }) => <ZenPond koi={numberProp(spec, 'koi')} reflectorResolution={quality?.reflectorResolution} />
+  },
+  [GardenElementType.GrassField]: {
+    field: true,
+    // Clearings arrive in garden space; the field is only ever translated
+    render: (spec, { clearings, quality }) => (
+      <GrassField
+        count={numberProp(spec, 'count')}
+        area={numberProp(spec, 'area')}
+        density={quality?.grassDensity}
+        clearings={clearings?.map((c) => ({ ...c, x: c.x - spec.position[0], z: c.z - spec.position[2] }))}
+      />
+    )
+  },
+  [GardenElementType.BambooGrove]: {
+    field: true,
+    render: (spec) => <BambooGrove count={numberProp(spec, 'count')} area={numberProp(spec, 'area')} />
+  },
+  [GardenElementType.ToriiGate]: { footprint: [circle(0.7, -3), circle(0.7, 3)], render: () => <ToriiGate position={ORIGIN} /> },
+  [GardenElementType.Lantern]: { footprint: [circle(0.6)], render: () => <Lantern position={ORIGIN} /> },
+  [GardenElementType.ShishiOdoshi]: { footprint: [circle(0.6)], render: () => <ShishiOdoshi position={ORIGIN} /> },
+  [GardenElementType.Tsukubai]: { footprint: [circle(0.5)], render: () => <Tsukubai position={ORIGIN} /> },
+  [GardenElementType.ZenStone]: {
+    footprint: [circle(1.1)],
+    render: (spec, { onInteract, haiku, t }) => <ZenStone position={ORIGIN} scale={1} seedKey={spec.id} label={stoneLabel(spec.id, t)} library={haiku} onInteract={onInteract} t={t} />
+  },
+  [GardenElementType.TeaCeremonyPlatform]: { footprint: [circle(2.2)], render: () => <TeaCeremonyPlatform position={ORIGIN} /> },
+  [GardenElementType.MossGarden]: { footprint: [circle(3.5)], render: (spec) => <MossGarden position={ORIGIN} seedKey={spec.id} /> }
+};
+
+// Footprints of every element, placed in garden space (turned by yaw, grown by the larger ground scale)
+export const groundClearings = (layout: GardenLayout): GroundClearing[] =>
+  layout.elements.flatMap((spec) => {
+    const footprint = GARDEN_ELEMENT_REGISTRY[spec.type].footprint ?? [];
+    const scale = typeof spec.scale === 'number' ? spec.scale : Math.max(spec.scale[0], spec.scale[2]);
+    const cos = Math.cos(spec.rotation[1]), sin = Math.sin(spec.rotation[1]);
+    return footprint.map((c) => ({
+      x: spec.position[0] + (c.x * cos + c.z * sin) * scale,
+      z: spec.position[2] + (c.z * cos - c.x * sin) * scale,
+      radius: c.radius * scale
+    }));
+  });
+
+interface GardenElementProps {
+  spec: GardenElementSpec;
+  bindings: GardenElementBindings;
+  ref?: React.Ref<THREE.Group>;
+  onSelect?: () => void;
+}
+
+export const GardenElement = ({ spec, bindings, ref, onSelect }: GardenElementProps) => {
+  const entry = GARDEN_ELEMENT_REGISTRY[spec.type];
+  const pickable = onSelect && !entry.field;
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore the click that ends an orbit drag
+    if (e.delta > 4) return;
+    e.stopPropagation();
+    onSelect?.();
+  };
+  return (
+    <group ref={ref} position={spec.position} rotation={spec.rotation} scale={spec.scale} onClick={pickable ? handleClick : undefined}>
+      {entry.render(spec, bindings)}
+    </group>
+  );
+};
+
+interface GardenLayoutViewProps extends GardenElementBindings {
+  layout: GardenLayout;
+  // Present while the garden editor is open
+  editor?: GardenEditorState;
+}
+
+// The element tree is the same in both modes so toggling the editor never remounts (and re-textures) the garden
+export const GardenLayoutView = ({ layout, editor, ...rest }: GardenLayoutViewProps) => {
+  const objects = useRef(new Map<string, THREE.Group>());
+  const clearings = useMemo(() => groundClearings(layout), [layout]);
+  const bindings = { ...rest, clearings };
+  return (
+    <>
+      {layout.elements.map((spec) => (
+        <GardenElement
+          key={spec.id}
+          spec={spec}
+          ref={(group: THREE.Group | null) => {
+            if (group) objects.current.set(spec.id, group);
+            else objects.current.delete(spec.id);
+          }}
+          onSelect={editor && (() => editor.onSelect(spec.id))}
+          // Stones open haiku on click; while editing a click selects them instead
+          bindings={editor ? { ...bindings, onInteract: () => editor.onSelect(spec.id) } : bindings}
+        />
+      ))}
+      {editor && <GardenEditorControls layout={layout} objects={objects.current} {...editor} />}
+    </>
+  );
+};
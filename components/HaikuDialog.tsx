@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HaikuData } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface HaikuDialogProps {
+  haiku: HaikuData;
+  onClose: () => void;
+  t: Translate;
+}
+
+const DIALOG_BUTTON = 'px-2 py-1 text-[10px] uppercase tracking-[0.2em] text-[#2c2c2c]/60 hover:text-[#2c2c2c] focus-visible:outline focus-visible:outline-1 focus-visible:outline-[#B7282E]';
+
+const FOCUSABLE = 'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+// Modal view of one haiku: focus moves in on open, stays trapped inside, and returns on close.
+// Where the Japanese original is known it stands beside the translation in vertical writing (tategaki).
+export const HaikuDialog: React.FC<HaikuDialogProps> = ({ haiku, onClose, t }) => {
+  const [showOriginal, setShowOriginal] = useState(true);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (!focusable.length) return;
+    const first = focusable[0], last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  const author = haiku.author || t('haiku.unknownAuthor');
+  const original = showOriginal ? haiku.original : undefined;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-xl transition-all duration-700 cursor-pointer p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="haiku-dialog-title"
+        onKeyDown={onKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        className={`bg-[#eaddcf] text-[#2c2c2c] p-12 md:p-20 ${original ? 'max-w-3xl' : 'max-w-xl'} w-full shadow-2xl relative overflow-hidden cursor-auto`}
+      >
+         <h2 id="haiku-dialog-title" className="sr-only">{t('haiku.title', { author })}</h2>
+         <div className="absolute top-4 left-4 flex gap-2">
+            <button ref={closeRef} onClick={onClose} className={DIALOG_BUTTON}>{t('haiku.close')}</button>
+            {haiku.original && (
+              <button onClick={() => setShowOriginal((on) => !on)} aria-pressed={showOriginal} className={DIALOG_BUTTON}>
+                {t(showOriginal ? 'haiku.hideOriginal' : 'haiku.showOriginal')}
+              </button>
+            )}
+         </div>
+         <div aria-hidden="true" className="absolute top-[-20px] right-[-20px] opacity-[0.07] font-zen text-[12rem] select-none pointer-events-none leading-none">心</div>
+         <div className="flex gap-10 items-start">
+            <div className="flex-1">
+               <div className="border-l-4 border-[#B7282E] pl-8 py-2">
+                  <p className="text-3xl md:text-4xl font-zen mb-4 leading-relaxed">{haiku.line1}</p>
+                  <p className="text-3xl md:text-4xl font-zen mb-4 pl-8 leading-relaxed">{haiku.line2}</p>
+                  <p className="text-3xl md:text-4xl font-zen mb-10 leading-relaxed">{haiku.line3}</p>
+               </div>
+               {original && haiku.romaji && (
+                  <p className="pl-9 text-sm italic opacity-60 whitespace-pre-line leading-relaxed">{haiku.romaji}</p>
+               )}
+            </div>
+            {original && (
+               // Columns run right to left, one per verse line
+               <p lang="ja" className="vertical-rl font-zen text-2xl md:text-3xl leading-loose tracking-[0.2em] whitespace-pre-line h-80 shrink-0">{original}</p>
+            )}
+         </div>
+         <div className="flex items-center gap-4 mt-8">
+            <div className="h-[1px] flex-1 bg-gray-400"></div>
+            <p className="text-sm font-cinzel tracking-[0.3em] text-[#B7282E] uppercase">{author}</p>
+         </div>
+         {haiku.translator && <p className="text-right text-[10px] tracking-[0.2em] opacity-50 mt-2">{t('haiku.translatedBy', { translator: haiku.translator })}</p>}
+      </div>
+    </div>
+  );
+};
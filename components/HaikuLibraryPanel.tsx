@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HAIKUS, HaikuData, Season } from '../types';
+import { createHaikuId, HaikuLibraryError, mergeHaikuLibrary, parseHaikuLibrary, serializeHaikuLibrary } from '../utils/haikuLibrary';
+import { HAIKU_PATTERN, haikuSyllables } from '../utils/syllables';
+import { downloadText } from '../utils/download';
+import { Translate } from '../utils/i18n';
+import { buttonClass, fieldClass, sectionTitle } from './ui';
+
+interface HaikuLibraryPanelProps {
+  library: HaikuData[];
+  onChange: (library: HaikuData[]) => void;
+  matchSeason: boolean;
+  onMatchSeasonChange: (match: boolean) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const LINE_FIELDS = ['line1', 'line2', 'line3'] as const;
+
+const emptyHaiku = (): HaikuData => ({ line1: '', line2: '', line3: '' });
+
+// Add/edit form; syllable counts update as you type and lines off 5-7-5 are flagged
+const HaikuForm = ({ initial, onSave, onCancel, t }: { initial: HaikuData; onSave: (haiku: HaikuData) => void; onCancel: () => void; t: Translate }) => {
+  const [draft, setDraft] = useState(initial);
+  const counts = haikuSyllables(draft);
+  const complete = LINE_FIELDS.every((key) => draft[key].trim());
+  const set = (key: keyof HaikuData, value: string) => setDraft((d) => ({ ...d, [key]: value }));
+  const toggleSeason = (season: Season) => setDraft((d) => {
+    const seasons = d.seasons?.includes(season) ? d.seasons.filter((s) => s !== season) : [...(d.seasons ?? []), season];
+    return { ...d, seasons: seasons.length ? seasons : undefined };
+  });
+
+  const save = () => {
+    if (!complete) return;
+    const clean: HaikuData = { id: draft.id ?? createHaikuId(), line1: draft.line1.trim(), line2: draft.line2.trim(), line3: draft.line3.trim() };
+    (['author', 'original', 'romaji', 'translator', 'kigo'] as const).forEach((key) => {
+      const value = draft[key]?.trim();
+      if (value) clean[key] = value;
+    });
+    if (draft.seasons?.length) clean.seasons = draft.seasons;
+    onSave(clean);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {LINE_FIELDS.map((key, i) => (
+        <label key={key} className="flex items-end gap-2">
+          <input value={draft[key]} onChange={(e) => set(key, e.target.value)} placeholder={t('haikuLibrary.line', { line: i + 1 })} className={fieldClass} />
+          <span
+            className={`text-[10px] w-10 text-right tracking-wider ${counts[i] === HAIKU_PATTERN[i] ? 'opacity-40' : 'text-rust'}`}
+            title={t('haikuLibrary.syllables', { count: HAIKU_PATTERN[i] })}
+          >
+            {counts[i]}/{HAIKU_PATTERN[i]}
+          </span>
+        </label>
+      ))}
+      <input value={draft.author ?? ''} onChange={(e) => set('author', e.target.value)} placeholder={t('haikuLibrary.author')} className={fieldClass} />
+      <textarea value={draft.original ?? ''} onChange={(e) => set('original', e.target.value)} placeholder={t('haikuLibrary.original')} rows={3} className={`${fieldClass} resize-none font-zen`} />
+      <textarea value={draft.romaji ?? ''} onChange={(e) => set('romaji', e.target.value)} placeholder={t('haikuLibrary.romaji')} rows={3} className={`${fieldClass} resize-none`} />
+      <input value={draft.translator ?? ''} onChange={(e) => set('translator', e.target.value)} placeholder={t('haikuLibrary.translator')} className={fieldClass} />
+      <input value={draft.kigo ?? ''} onChange={(e) => set('kigo', e.target.value)} placeholder={t('haikuLibrary.kigo')} className={fieldClass} />
+      <div className="grid grid-cols-4 gap-1">
+        {(Object.keys(Season) as Array<keyof typeof Season>).map((s) => (
+          <button key={s} onClick={() => toggleSeason(Season[s])} className={buttonClass(!!draft.seasons?.includes(Season[s]))}>{t(`season.${Season[s]}`)}</button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <button onClick={save} disabled={!complete} className={buttonClass()}>{t('haikuLibrary.save')}</button>
+        <button onClick={onCancel} className={buttonClass()}>{t('haikuLibrary.cancel')}</button>
+      </div>
+    </div>
+  );
+};
+
+export const HaikuLibraryPanel: React.FC<HaikuLibraryPanelProps> = ({ library, onChange, matchSeason, onMatchSeasonChange, onClose, t }) => {
+  const [editing, setEditing] = useState<HaikuData | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!message) return;
+    const id = setTimeout(() => setMessage(null), 4000);
+    return () => clearTimeout(id);
+  }, [message]);
+
+  const saveHaiku = (haiku: HaikuData) => {
+    onChange(library.some((h) => h.id === haiku.id) ? library.map((h) => (h.id === haiku.id ? haiku : h)) : [...library, haiku]);
+    setEditing(null);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const incoming = parseHaikuLibrary(JSON.parse(await file.text()));
+      onChange(mergeHaikuLibrary(library, incoming));
+      setMessage(t('haikuLibrary.imported', { count: incoming.length, file: file.name }));
+    } catch (err) {
+      setMessage(err instanceof HaikuLibraryError ? err.issues.join(' ') : t('haikuLibrary.invalidJson', { file: file.name }));
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="absolute bottom-20 right-6 z-40 w-80 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('haikuLibrary.title')}</span>
+        <button onClick={onClose} className={buttonClass()}>{t('haikuLibrary.close')}</button>
+      </div>
+
+      {editing ? (
+        <HaikuForm key={editing.id ?? 'new'} initial={editing} onSave={saveHaiku} onCancel={() => setEditing(null)} t={t} />
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-[10px] uppercase tracking-wider opacity-70 cursor-pointer">
+            <input type="checkbox" checked={matchSeason} onChange={(e) => onMatchSeasonChange(e.target.checked)} className="accent-[#F5F5DC]" />
+            {t('haikuLibrary.matchSeason')}
+          </label>
+
+          <div>
+            <p className={sectionTitle}>{t('haikuLibrary.yours')}</p>
+            {library.length === 0 && <p className="text-[11px] opacity-50">{t('haikuLibrary.empty')}</p>}
+            <ul className="flex flex-col gap-2">
+              {library.map((h) => {
+                const off = haikuSyllables(h).some((n, i) => n !== HAIKU_PATTERN[i]);
+                return (
+                  <li key={h.id} className="text-[11px] border-l border-white/20 pl-2">
+                    <p className="opacity-90">{h.line1} / {h.line2} / {h.line3}</p>
+                    <p className="opacity-50 flex justify-between">
+                      <span>{h.author || t('haiku.unknownAuthor')}{h.seasons?.length ? ` · ${h.seasons.map((s) => t(`season.${s}`)).join(', ')}` : ''}{off ? ` · ${t('haikuLibrary.offPattern')}` : ''}</span>
+                      <span className="flex gap-2">
+                        <button onClick={() => setEditing(h)} className="hover:opacity-100 underline">{t('haikuLibrary.edit')}</button>
+                        <button onClick={() => onChange(library.filter((x) => x.id !== h.id))} className="hover:opacity-100 underline">{t('haikuLibrary.delete')}</button>
+                      </span>
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+            <button onClick={() => setEditing(emptyHaiku())} className={`mt-2 ${buttonClass()}`}>{t('haikuLibrary.write')}</button>
+          </div>
+
+          <div>
+            <p className={sectionTitle}>{t('haikuLibrary.classics')}</p>
+            <ul className="flex flex-col gap-1 text-[11px] opacity-60">
+              {HAIKUS.map((h, i) => <li key={i}>{h.line1} — {h.author}</li>)}
+            </ul>
+          </div>
+
+          <div className="mt-auto">
+            <p className={sectionTitle}>{t('haikuLibrary.library')}</p>
+            <div className="grid grid-cols-2 gap-1">
+              <button onClick={() => downloadText(serializeHaikuLibrary(library), 'zen-garden-haiku.json')} disabled={library.length === 0} className={buttonClass()}>{t('haikuLibrary.export')}</button>
+              <button onClick={() => fileInput.current?.click()} className={buttonClass()}>{t('haikuLibrary.import')}</button>
+            </div>
+            <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+            {message && <p className="text-[10px] tracking-wider opacity-60 mt-2">{message}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { KoanData, KoanReflection, ZEN_KOANS } from '../types';
+import { createKoanId, dayKey, deleteReflection, KoanLibraryError, loadReflections, mergeKoanLibrary, parseKoanLibrary, saveReflection, serializeKoanLibrary } from '../utils/koans';
+import { downloadText } from '../utils/download';
+import { MessageKey, Translate } from '../utils/i18n';
+import { buttonClass, fieldClass, sectionTitle } from './ui';
+
+interface KoanOfTheDayProps {
+  koan: KoanData;
+  // True once the camera has arrived at the gate
+  revealed: boolean;
+  onReflect: () => void;
+  t: Translate;
+}
+
+// Shown in the Mu section; fades in only when the journey reaches the gate
+export const KoanOfTheDay: React.FC<KoanOfTheDayProps> = ({ koan, revealed, onReflect, t }) => (
+  <div className={`max-w-lg mx-auto mb-12 transition-all duration-[2500ms] ${revealed ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
+    <span className="text-[10px] uppercase tracking-[0.4em] opacity-50">{t('koan.today')}</span>
+    <p className="text-2xl md:text-3xl font-zen leading-relaxed mt-4">{koan.text}</p>
+    {koan.attribution && <p className="text-xs font-cinzel tracking-[0.3em] uppercase text-rust mt-3">{koan.attribution}</p>}
+    <button onClick={onReflect} className="mt-6 px-4 py-2 text-xs uppercase tracking-wider text-washi/70 hover:bg-white/10 border border-white/20 transition-all duration-300 pointer-events-auto">
+      {t('koan.reflect')}
+    </button>
+  </div>
+);
+
+interface KoanPanelProps {
+  koan: KoanData;
+  library: KoanData[];
+  onLibraryChange: (library: KoanData[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+type KoanTab = 'today' | 'journal' | 'koans';
+
+const TABS: { tab: KoanTab; label: MessageKey }[] = [
+  { tab: 'today', label: 'koan.tabToday' },
+  { tab: 'journal', label: 'koan.tabJournal' },
+  { tab: 'koans', label: 'koan.tabKoans' }
+];
+
+export const KoanPanel: React.FC<KoanPanelProps> = ({ koan, library, onLibraryChange, onClose, t }) => {
+  const today = dayKey();
+  const [tab, setTab] = useState<KoanTab>('today');
+  const [reflections, setReflections] = useState<KoanReflection[]>(loadReflections);
+  const saved = reflections.find((r) => r.day === today);
+  // Once written about, today's koan stays put even if the library changes
+  const todayKoan = saved?.koan ?? koan;
+  const [response, setResponse] = useState(saved?.response ?? '');
+  const [draft, setDraft] = useState<KoanData>({ text: '' });
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!message) return;
+    const id = setTimeout(() => setMessage(null), 4000);
+    return () => clearTimeout(id);
+  }, [message]);
+
+  const saveToday = () => {
+    if (!response.trim()) return;
+    setReflections(saveReflection({ day: today, koan: todayKoan, response: response.trim(), savedAt: new Date().toISOString() }));
+    setMessage(t('koan.kept'));
+  };
+
+  const addKoan = () => {
+    if (!draft.text.trim()) return;
+    const attribution = draft.attribution?.trim();
+    onLibraryChange([...library, { id: createKoanId(), text: draft.text.trim(), ...(attribution && { attribution }) }]);
+    setDraft({ text: '' });
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const incoming = parseKoanLibrary(JSON.parse(await file.text()));
+      onLibraryChange(mergeKoanLibrary(library, incoming));
+      setMessage(t('koan.imported', { count: incoming.length, file: file.name }));
+    } catch (err) {
+      setMessage(err instanceof KoanLibraryError ? err.issues.join(' ') : t('koan.invalidJson', { file: file.name }));
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="absolute bottom-20 right-6 z-40 w-80 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('koan.title')}</span>
+        <button onClick={onClose} className={buttonClass()}>{t('koan.close')}</button>
+      </div>
+
+      <div className="flex gap-1">
+        {TABS.map((entry) => <button key={entry.tab} onClick={() => setTab(entry.tab)} className={buttonClass(tab === entry.tab)}>{t(entry.label)}</button>)}
+      </div>
+
+      {tab === 'today' && (
+        <div className="flex flex-col gap-3">
+          <p className="text-lg font-zen leading-relaxed">{todayKoan.text}</p>
+          {todayKoan.attribution && <p className="text-[10px] uppercase tracking-[0.2em] text-rust">{todayKoan.attribution}</p>}
+          <textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            placeholder={t('koan.responsePlaceholder')}
+            rows={6}
+            className="w-full bg-white/5 border border-white/10 focus:border-white/40 outline-none p-2 text-sm leading-relaxed resize-none"
+          />
+          <button onClick={saveToday} disabled={!response.trim()} className={buttonClass()}>{t(saved ? 'koan.update' : 'koan.keep')}</button>
+        </div>
+      )}
+
+      {tab === 'journal' && (
+        <div>
+          {reflections.length === 0 && <p className="text-[11px] opacity-50">{t('koan.journalEmpty')}</p>}
+          <ul className="flex flex-col gap-4">
+            {reflections.map((r) => (
+              <li key={r.day} className="text-[11px] border-l border-white/20 pl-2">
+                <p className="opacity-50 flex justify-between">
+                  <span>{new Date(`${r.day}T00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}</span>
+                  <button onClick={() => setReflections(deleteReflection(r.day))} className="hover:opacity-100 underline">{t('koan.delete')}</button>
+                </p>
+                <p className="italic opacity-70 mt-1">{r.koan.text}</p>
+                <p className="opacity-90 mt-1 whitespace-pre-wrap">{r.response}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {tab === 'koans' && (
+        <>
+          <div>
+            <p className={sectionTitle}>{t('koan.addTitle')}</p>
+            <div className="flex flex-col gap-2">
+              <textarea value={draft.text} onChange={(e) => setDraft({ ...draft, text: e.target.value })} placeholder={t('koan.textPlaceholder')} rows={2} className={`${fieldClass} resize-none`} />
+              <input value={draft.attribution ?? ''} onChange={(e) => setDraft({ ...draft, attribution: e.target.value })} placeholder={t('koan.attributionPlaceholder')} className={fieldClass} />
+              <button onClick={addKoan} disabled={!draft.text.trim()} className={buttonClass()}>{t('koan.add')}</button>
+            </div>
+          </div>
+
+          <div>
+            <p className={sectionTitle}>{t('koan.yours')}</p>
+            {library.length === 0 && <p className="text-[11px] opacity-50">{t('koan.none')}</p>}
+            <ul className="flex flex-col gap-2 text-[11px]">
+              {library.map((k) => (
+                <li key={k.id} className="flex justify-between gap-2">
+                  <span className="opacity-90">{k.text}{k.attribution && <span className="opacity-50"> — {k.attribution}</span>}</span>
+                  <button onClick={() => onLibraryChange(library.filter((x) => x.id !== k.id))} className="opacity-50 hover:opacity-100 underline">{t('koan.delete')}</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <p className={sectionTitle}>{t('koan.classics')}</p>
+            <ul className="flex flex-col gap-1 text-[11px] opacity-60">
+              {ZEN_KOANS.map((k, i) => <li key={i}>{k.text} — {k.attribution}</li>)}
+            </ul>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={() => downloadText(serializeKoanLibrary(library), 'zen-garden-koans.json')} disabled={library.length === 0} className={buttonClass()}>{t('koan.export')}</button>
+            <button onClick={() => fileInput.current?.click()} className={buttonClass()}>{t('koan.import')}</button>
+          </div>
+          <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+        </>
+      )}
+
+      {message && <p className="text-[10px] tracking-wider opacity-60">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { BreathPacing, MeditationRecord, MeditationSettings } from '../types';
+import { formatDuration, INTERVAL_MINUTES, loadSessions, PACING_PRESETS, SESSION_MINUTES, SESSION_WAYPOINTS } from '../utils/meditation';
+import { Translate } from '../utils/i18n';
+import { buttonClass, sectionTitle } from './ui';
+
+interface MeditationPanelProps {
+  settings: MeditationSettings;
+  onChange: (settings: MeditationSettings) => void;
+  onBegin: () => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const PACING_FIELDS: (keyof BreathPacing)[] = ['inhale', 'holdIn', 'exhale', 'holdOut'];
+
+const samePacing = (a: BreathPacing, b: BreathPacing) => PACING_FIELDS.every((key) => a[key] === b[key]);
+
+export const MeditationPanel: React.FC<MeditationPanelProps> = ({ settings, onChange, onBegin, onClose, t }) => {
+  const [history, setHistory] = useState<MeditationRecord[] | null>(null);
+  const [historyError, setHistoryError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSessions()
+      .then((records) => { if (!cancelled) setHistory(records); })
+      .catch(() => { if (!cancelled) setHistoryError(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const set = <K extends keyof MeditationSettings>(key: K, value: MeditationSettings[K]) => onChange({ ...settings, [key]: value });
+  const setPacing = (key: keyof BreathPacing, value: number) => set('pacing', { ...settings.pacing, [key]: Math.min(20, Math.max(0, value)) });
+  const breathLength = PACING_FIELDS.reduce((sum, key) => sum + settings.pacing[key], 0);
+  const totalMinutes = history ? Math.round(history.reduce((sum, r) => sum + r.durationSeconds, 0) / 60) : 0;
+
+  return (
+    <div className="absolute bottom-20 right-6 z-40 w-72 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('meditate.title')}</span>
+        <button onClick={onClose} className={buttonClass()}>{t('meditate.close')}</button>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('meditate.duration')}</p>
+        <div className="flex gap-1">
+          {SESSION_MINUTES.map((m) => (
+            <button key={m} onClick={() => set('minutes', m)} className={buttonClass(settings.minutes === m)}>{t('meditate.minutes', { minutes: m })}</button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('meditate.breath')}</p>
+        <div className="grid grid-cols-4 gap-1 mb-2">
+          {PACING_PRESETS.map((p) => (
+            <button key={p.id} onClick={() => set('pacing', p.pacing)} className={buttonClass(samePacing(p.pacing, settings.pacing))}>{t(`pacing.${p.id}`)}</button>
+          ))}
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {PACING_FIELDS.map((key) => (
+            <label key={key} className="flex flex-col gap-1 text-[10px] uppercase tracking-wider opacity-70">
+              {t(`meditate.${key}`)}
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={settings.pacing[key]}
+                onChange={(e) => setPacing(key, parseInt(e.target.value, 10) || 0)}
+                className="w-full bg-transparent border-b border-white/20 focus:border-white/60 outline-none py-1 text-sm"
+              />
+            </label>
+          ))}
+        </div>
+        {breathLength === 0 && <p className="text-[10px] tracking-wider text-rust mt-2">{t('meditate.noBreath')}</p>}
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('meditate.interval')}</p>
+        <div className="flex gap-1">
+          {INTERVAL_MINUTES.map((m) => (
+            <button key={m} onClick={() => set('intervalMinutes', m)} className={buttonClass(settings.intervalMinutes === m)}>{m ? t('meditate.minutes', { minutes: m }) : t('meditate.noInterval')}</button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className={sectionTitle}>{t('meditate.place')}</p>
+        <div className="grid grid-cols-3 gap-1">
+          {SESSION_WAYPOINTS.map((w) => (
+            <button key={w} onClick={() => set('waypoint', w)} className={buttonClass(settings.waypoint === w)}>{t(`waypoint.${w}`)}</button>
+          ))}
+        </div>
+      </div>
+
+      <button onClick={onBegin} disabled={breathLength === 0} className="px-3 py-3 text-xs uppercase tracking-[0.3em] bg-washi text-sumi font-bold hover:bg-white transition-all duration-300 disabled:opacity-30">{t('meditate.begin')}</button>
+
+      <div>
+        <p className={sectionTitle}>{t('meditate.journal')}</p>
+        {historyError ? (
+          <p className="text-[11px] opacity-50">{t('meditate.journalUnavailable')}</p>
+        ) : !history ? null : history.length === 0 ? (
+          <p className="text-[11px] opacity-50">{t('meditate.noSittings')}</p>
+        ) : (
+          <div className="flex flex-col gap-1 text-[11px] opacity-80">
+            <span className="opacity-60">{t('meditate.totals', { count: history.length, minutes: totalMinutes })}</span>
+            {history.slice(0, 5).map((r) => (
+              <span key={r.id} className="flex justify-between">
+                <span>{new Date(r.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                <span>{formatDuration(r.durationSeconds)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import type { EffectComposer as EffectComposerImpl } from 'postprocessing';
+import * as THREE from 'three';
+import { fitPoster } from '../utils/poster';
+
+export interface PosterRequest {
+  width: number;
+  height: number;
+}
+
+interface PosterCaptureProps {
+  request: PosterRequest;
+  composer: RefObject<EffectComposerImpl | null>;
+  onCapture: (render: HTMLCanvasElement) => void;
+  onError: (err: unknown) => void;
+}
+
+// Longest side the renderer can draw into
+export const posterLimit = (gl: THREE.WebGLRenderer) => {
+  const context = gl.getContext();
+  return Math.min(gl.capabilities.maxTextureSize, context.getParameter(context.MAX_RENDERBUFFER_SIZE));
+};
+
+// The effect chain is mounted for the capture; let it render a few frames before the real one
+const SETTLE_FRAMES = 3;
+const GIVE_UP_FRAMES = 120;
+
+// Renders one frame through the full effect chain at the poster's size, pixel ratio 1, whatever the
+// screen uses, and hands back a copy. The drawing buffer is only that large for this one frame.
+// Runs after the composer's own render, so the next frame puts the screen back as it was.
+export const PosterCapture = ({ request, composer, onCapture, onError }: PosterCaptureProps) => {
+  const { gl, camera, size } = useThree();
+  const frames = useRef(0);
+  const done = useRef(false);
+
+  useEffect(() => {
+    frames.current = 0;
+    done.current = false;
+  }, [request]);
+
+  useFrame((_, delta) => {
+    if (done.current) return;
+    const post = composer.current;
+    frames.current++;
+    if (!post) {
+      if (frames.current > GIVE_UP_FRAMES) {
+        done.current = true;
+        onError(new Error('The effect chain did not start'));
+      }
+      return;
+    }
+    if (frames.current < SETTLE_FRAMES) return;
+    done.current = true;
+
+    // Stay within what the GPU can draw into (CapturePanel shows the size this comes to)
+    const [width, height] = fitPoster(request.width, request.height, posterLimit(gl));
+
+    const pixelRatio = gl.getPixelRatio();
+    const perspective = camera instanceof THREE.PerspectiveCamera ? camera : null;
+    const aspect = perspective?.aspect ?? 1;
+    try {
+      gl.setPixelRatio(1);
+      post.setSize(width, height, false);
+      if (perspective) {
+        perspective.aspect = width / height;
+        perspective.updateProjectionMatrix();
+      }
+      post.render(delta);
+      const render = document.createElement('canvas');
+      render.width = width;
+      render.height = height;
+      // Copied in the same task as the render, before the browser may clear the drawing buffer
+      render.getContext('2d')?.drawImage(gl.domElement, 0, 0, width, height);
+      onCapture(render);
+    } catch (err) {
+      onError(err);
+    } finally {
+      gl.setPixelRatio(pixelRatio);
+      post.setSize(size.width, size.height, false);
+      if (perspective) {
+        perspective.aspect = aspect;
+        perspective.updateProjectionMatrix();
+      }
+    }
+  }, 2);
+
+  return null;
+};
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { QualityTier } from '../types';
+import { createFrameGovernor } from '../utils/quality';
+
+interface QualityGovernorProps {
+  tier: QualityTier;
+  onChange: (tier: QualityTier) => void;
+}
+
+// Watches frame times and steps the quality tier down when the garden runs slow, or up when there is room
+export const QualityGovernor = ({ tier, onChange }: QualityGovernorProps) => {
+  const governor = useMemo(() => createFrameGovernor(), []);
+  useFrame((_, delta) => {
+    const next = governor.sample(delta, tier);
+    if (next) onChange(next);
+  });
+  return null;
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { QualityPreferences, QualitySettings } from '../types';
+import { QUALITY_PRESETS, QUALITY_TIERS, resolveQuality } from '../utils/quality';
+import { Translate } from '../utils/i18n';
+import { buttonClass, sectionTitle } from './ui';
+
+interface QualityPanelProps {
+  preferences: QualityPreferences;
+  onChange: (preferences: QualityPreferences) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+type OptionValue = QualitySettings[keyof QualitySettings];
+
+const onOff = (v: OptionValue, t: Translate) => t(v ? 'quality.on' : 'quality.off');
+
+const QUALITY_OPTIONS: { key: keyof QualitySettings; format: (value: OptionValue, t: Translate) => string }[] = [
+  { key: 'dpr', format: (v) => `×${v}` },
+  { key: 'shadowMapSize', format: String },
+  { key: 'softShadowSamples', format: (v, t) => (v ? String(v) : t('quality.off')) },
+  { key: 'reflectorResolution', format: String },
+  { key: 'grassDensity', format: (v) => `${Math.round(Number(v) * 100)}%` },
+  { key: 'starCount', format: (v) => `${Number(v) / 1000}k` },
+  { key: 'postprocessing', format: onOff },
+  { key: 'depthOfField', format: onOff }
+];
+
+// Each option offers the values the presets use
+const choicesFor = (key: keyof QualitySettings) =>
+  [...new Set(QUALITY_TIERS.map((tier) => QUALITY_PRESETS[tier][key]))].sort((a, b) => Number(a) - Number(b));
+
+export const QualityPanel: React.FC<QualityPanelProps> = ({ preferences, onChange, onClose, t }) => {
+  const settings = resolveQuality(preferences);
+  const preset = QUALITY_PRESETS[preferences.tier];
+  const overridden = Object.keys(preferences.overrides).length > 0;
+
+  // Picking the preset's own value drops the override, so the option follows the tier again
+  const setOption = (key: keyof QualitySettings, value: OptionValue) => {
+    const { [key]: _, ...rest } = preferences.overrides;
+    onChange({ ...preferences, overrides: value === preset[key] ? rest : { ...rest, [key]: value } });
+  };
+
+  return (
+    <div className="absolute bottom-20 right-6 z-40 w-80 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('quality.title')}</span>
+        <button onClick={onClose} className={buttonClass()}>{t('quality.close')}</button>
+      </div>
+
+      <div>
+        <p className={`${sectionTitle} flex justify-between`}>{t('quality.preset')}</p>
+        <div className="grid grid-cols-5 gap-1">
+          {QUALITY_TIERS.map((tier) => (
+            <button key={tier} onClick={() => onChange({ ...preferences, tier, auto: false })} className={buttonClass(preferences.tier === tier && !preferences.auto)}>{t(`qualityTier.${tier}`)}</button>
+          ))}
+          <button
+            onClick={() => onChange({ ...preferences, auto: !preferences.auto })}
+            className={buttonClass(preferences.auto)}
+            title={t('quality.autoHint')}
+          >
+            {t('quality.auto')}
+          </button>
+        </div>
+        {preferences.auto && <p className="text-[10px] tracking-wider opacity-50 mt-2">{t('quality.current', { tier: t(`qualityTier.${preferences.tier}`) })}</p>}
+      </div>
+
+      {QUALITY_OPTIONS.map(({ key, format }) => (
+        <div key={key}>
+          <p className={`${sectionTitle} flex justify-between`}>
+            {t(`quality.${key}`)}
+            {key in preferences.overrides && <span className="normal-case tracking-normal opacity-70">{t('quality.custom')}</span>}
+          </p>
+          <div className="flex gap-1">
+            {choicesFor(key).map((value) => (
+              <button key={String(value)} onClick={() => setOption(key, value)} className={buttonClass(settings[key] === value)}>{format(value, t)}</button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <button onClick={() => onChange({ ...preferences, overrides: {} })} disabled={!overridden} className={buttonClass()}>
+        {t('quality.usePreset')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RakeStroke, RakeWidth } from '../types';
+import { parseRakePattern, serializeRakePattern } from '../utils/rake';
+import { downloadText } from '../utils/download';
+import { Translate } from '../utils/i18n';
+import { buttonClass } from './ui';
+
+const STORAGE_KEY = 'zen-garden.rake-pattern';
+
+interface RakeControlsProps {
+  active: boolean;
+  onToggle: () => void;
+  width: RakeWidth;
+  onWidthChange: (width: RakeWidth) => void;
+  strokes: RakeStroke[];
+  onLoad: (strokes: RakeStroke[]) => void;
+  onSmooth: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  t: Translate;
+}
+
+export const RakeControls: React.FC<RakeControlsProps> = ({ active, onToggle, width, onWidthChange, strokes, onLoad, onSmooth, onUndo, onRedo, canUndo, canRedo, t }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Keyboard undo/redo while the rake is in hand
+  useEffect(() => {
+    if (!active) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      if (e.shiftKey) onRedo(); else onUndo();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [active, onUndo, onRedo]);
+
+  useEffect(() => {
+    if (!message) return;
+    const id = setTimeout(() => setMessage(null), 3000);
+    return () => clearTimeout(id);
+  }, [message]);
+
+  const load = (json: string | null, source: string) => {
+    if (!json) { setMessage(t('rake.empty', { source })); return; }
+    try {
+      onLoad(parseRakePattern(json));
+      setMessage(t('rake.loaded', { source }));
+    } catch (err) {
+      setMessage((err as Error).message);
+    }
+  };
+
+  const save = () => {
+    localStorage.setItem(STORAGE_KEY, serializeRakePattern(strokes));
+    setMessage(t('rake.saved'));
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    load(await file.text(), file.name);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <div className="absolute bottom-6 left-6 z-40 flex flex-col items-start gap-2 pointer-events-auto">
+      {active && (
+        <div className="flex flex-col gap-2 p-3 bg-black/40 backdrop-blur-xl border border-white/10 shadow-2xl">
+          <div className="flex gap-1">
+            {(Object.keys(RakeWidth) as Array<keyof typeof RakeWidth>).map((w) => (
+              <button key={w} onClick={() => onWidthChange(RakeWidth[w])} className={buttonClass(width === RakeWidth[w])}>{t(`rakeWidth.${w}`)}</button>
+            ))}
+          </div>
+          <div className="flex gap-1 border-t border-white/10 pt-2">
+            <button onClick={onUndo} disabled={!canUndo} className={buttonClass()}>{t('rake.undo')}</button>
+            <button onClick={onRedo} disabled={!canRedo} className={buttonClass()}>{t('rake.redo')}</button>
+            <button onClick={onSmooth} disabled={strokes.length === 0} className={buttonClass()}>{t('rake.smooth')}</button>
+          </div>
+          <div className="flex gap-1 border-t border-white/10 pt-2">
+            <button onClick={save} className={buttonClass()}>{t('rake.save')}</button>
+            <button onClick={() => load(localStorage.getItem(STORAGE_KEY), t('rake.storage'))} className={buttonClass()}>{t('rake.load')}</button>
+            <button onClick={() => downloadText(serializeRakePattern(strokes), 'zen-rake-pattern.json')} className={buttonClass()}>{t('rake.export')}</button>
+            <button onClick={() => fileInput.current?.click()} className={buttonClass()}>{t('rake.import')}</button>
+            <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+          </div>
+          {message && <p className="text-[10px] tracking-wider opacity-60 max-w-[16rem]">{message}</p>}
+        </div>
+      )}
+      <button onClick={onToggle} className={`${buttonClass(active)} border border-white/20 bg-black/30 backdrop-blur-sm`}>
+        {t(active ? 'rake.done' : 'rake.start')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { CLIP_DURATIONS, CLIP_FRAMERATES, ClipSettings, supportsVideo } from '../utils/clip';
+import { Translate } from '../utils/i18n';
+import { buttonClass, sectionTitle } from './ui';
+
+interface RecordPanelProps {
+  // 0..1 while a clip records, null otherwise
+  progress: number | null;
+  failed: boolean;
+  onRecord: (settings: ClipSettings) => void;
+  onCancel: () => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+export const RecordPanel: React.FC<RecordPanelProps> = ({ progress, failed, onRecord, onCancel, onClose, t }) => {
+  const [seconds, setSeconds] = useState(CLIP_DURATIONS[1]);
+  const [fps, setFps] = useState(CLIP_FRAMERATES[2]);
+  const [loop, setLoop] = useState(true);
+  const [gif, setGif] = useState(false);
+  const canRecordVideo = supportsVideo();
+  const recording = progress !== null;
+
+  return (
+    <div className="absolute bottom-20 right-6 z-40 w-72 max-h-[80vh] flex flex-col gap-4 p-5 overflow-y-auto bg-black/50 backdrop-blur-xl border border-white/10 shadow-2xl text-washi pointer-events-auto">
+      <div className="flex justify-between items-center">
+        <span className="text-xs uppercase tracking-[0.3em] font-cinzel">{t('record.title')}</span>
+        <button onClick={onClose} className={buttonClass()}>{t('record.close')}</button>
+      </div>
+
+      <fieldset disabled={recording} className="flex flex-col gap-4 disabled:opacity-50">
+        <div>
+          <p className={sectionTitle}>{t('record.duration')}</p>
+          <div className="flex gap-1">
+            {CLIP_DURATIONS.map((s) => (
+              <button key={s} onClick={() => setSeconds(s)} aria-pressed={seconds === s} className={buttonClass(seconds === s)}>{t('record.seconds', { seconds: s })}</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className={sectionTitle}>{t('record.framerate')}</p>
+          <div className="flex gap-1">
+            {CLIP_FRAMERATES.map((f) => (
+              <button key={f} onClick={() => setFps(f)} aria-pressed={fps === f} className={buttonClass(fps === f)}>{f} fps</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className={sectionTitle}>{t('record.output')}</p>
+          <div className="flex gap-1">
+            <button onClick={() => setLoop((on) => !on)} aria-pressed={loop} className={buttonClass(loop)}>{t('record.loop')}</button>
+            <button onClick={() => setGif((on) => !on)} aria-pressed={gif || !canRecordVideo} disabled={!canRecordVideo} className={buttonClass(gif || !canRecordVideo)}>GIF</button>
+          </div>
+          <p className="text-[10px] tracking-wider opacity-50 mt-2">{t(canRecordVideo ? (loop ? 'record.loopHint' : 'record.liveHint') : 'record.noVideo')}</p>
+        </div>
+      </fieldset>
+
+      {failed && <p role="alert" className="text-[10px] tracking-wider text-rust">{t('record.failed')}</p>}
+
+      {recording ? (
+        <div className="flex flex-col gap-2">
+          <div role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress * 100)} className="h-px bg-white/15">
+            <div className="h-full bg-washi/70" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <button onClick={onCancel} className={`${buttonClass()} border border-white/20`}>
+            {t('record.cancel', { percent: Math.round(progress * 100) })}
+          </button>
+        </div>
+      ) : (
+        <button onClick={() => onRecord({ seconds, fps, loop, gif: gif || !canRecordVideo })} className={`${buttonClass()} border border-white/20`}>
+          {t('record.start')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,88 +1,143 @@
-import React, { useRef, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Points, PointMaterial } from '@react-three/drei';
 import * as THREE from 'three';
-import { Season } from '../types';
+import { GARDEN_ORIGIN, Season } from '../types';
+import { seededRandom } from '../utils/random';
+import { seasonClock } from '../utils/seasonCycle';
+import { ponds } from '../utils/ripples';
+import { snowCover } from '../utils/snowCover';
+import { createParticleSprite } from '../utils/particleSprites';
+import { driftHistory, layoutParticles, PARTICLE_FRAGMENT, PARTICLE_TOP, PARTICLE_VERTEX, ParticleSettings, particleLanding } from '../utils/seasonalParticles';
 
 interface SeasonalEffectsProps {
   season: Season;
+  // Particles fall straight and still: no wind drift, sway or spin
+  reducedMotion?: boolean;
 }
 
-const GenerateParticles = ({ count, color, size, speedY, speedX, area, opacity = 0.8, shape = 'circle' }: any) => {
-  const ref = useRef<THREE.Points>(null);
-  
-  // Create initial positions with more spread
-  const positions = useMemo(() => {
-    const pos = new Float32Array(count * 3);
-    for (let i = 0; i < count; i++) {
-      pos[i * 3] = (Math.random() - 0.5) * area;     // x
-      pos[i * 3 + 1] = Math.random() * area * 0.8 + 2;   // y (start higher)
-      pos[i * 3 + 2] = (Math.random() - 0.5) * area; // z
-    }
-    return pos;
-  }, [count, area]);
+interface GenerateParticlesProps extends ParticleSettings {
+  season: Season;
+  onDrained: (season: Season) => void;
+  still: boolean;
+}
 
-  // Random offsets for individual movement feel
-  const seeds = useMemo(() => {
-    return new Float32Array(count).map(() => Math.random() * Math.PI * 2);
-  }, [count]);
+const STILL: Partial<ParticleSettings> = { sway: 0, spin: 0, flutter: 0 };
 
-  useFrame((state, delta) => {
-    if (ref.current) {
-      const positions = ref.current.geometry.attributes.position.array as Float32Array;
-      for (let i = 0; i < count; i++) {
-        const t = state.clock.elapsedTime;
-        const seed = seeds[i];
+const PARTICLE_AREA = 40;
+// Ground level in world space: the garden origin, down to the grass roots
+const PARTICLE_GROUND = GARDEN_ORIGIN[1] - 0.15;
 
-        // Gravity / Movement
-        positions[i * 3 + 1] -= speedY * delta * (1 + Math.sin(seed + t) * 0.2); // Varied fall speed
-        
-        // Wind / Sway
-        positions[i * 3] += Math.sin(t * 0.5 + seed) * speedX * delta; 
-        positions[i * 3 + 2] += Math.cos(t * 0.3 + seed) * speedX * delta;
+const SEASON_PARTICLES: Record<Season, ParticleSettings> = {
+  // Sakura petals: flutter and spin on the way down
+  [Season.Spring]: { shape: 'petal', count: 800, colors: ['#FFE4E1', '#FFC8D6', '#FFF0F3'], size: 0.22, fall: 0.8, sway: 0.8, spin: 1.2, flutter: 0.9, rest: 10, opacity: 0.9 },
+  // Fireflies: wander low over the garden and blink
+  [Season.Summer]: { shape: 'firefly', count: 180, colors: ['#ccff00', '#e6ff70'], size: 0.35, fall: 0, sway: 1.5, spin: 0, flutter: 0, rest: 0, opacity: 0.8, additive: true },
+  // Maple leaves: tumble as they fall and lie longest
+  [Season.Autumn]: { shape: 'leaf', count: 500, colors: ['#D2691E', '#B8321E', '#E0A030', '#8B3A1A'], size: 0.3, fall: 1.0, sway: 1.0, spin: 2.0, flutter: 0.6, rest: 14, opacity: 1 },
+  // Snowflakes: many, slow turning, quick to melt where they land
+  [Season.Winter]: { shape: 'snowflake', count: 2500, colors: ['#FFFFFF', '#EEF4FF'], size: 0.12, fall: 1.2, sway: 0.4, spin: 0.6, flutter: 0, rest: 6, opacity: 0.9 }
+};
+
+// Keeps the shared season blend (and the snow it leaves behind) moving; mount before anything that reads it
+export const SeasonClockDriver = ({ season }: { season: Season }) => {
+  useFrame((_, delta) => {
+    seasonClock.advance(delta, season);
+    snowCover.advance(delta, seasonClock.target === Season.Winter ? seasonClock.weights[Season.Winter] : 0);
+  });
+  return null;
+};
+
+const GenerateParticles = ({ season, onDrained, still, ...settings }: GenerateParticlesProps) => {
+  const { shape, count, size, sway, spin, flutter, rest, opacity, additive } = settings;
+  const falling = settings.fall > 0;
+  const layout = useMemo(
+    () => layoutParticles(settings, PARTICLE_TOP - PARTICLE_GROUND, seededRandom(`particles:${shape}`)),
+    // Settings are static per season
+    [season]
+  );
+  // Positions come from the shader; the attribute only sets the draw count
+  const positions = useMemo(() => new Float32Array(count * 3), [count]);
+  const sprite = useMemo(() => createParticleSprite(shape), [shape]);
+  useEffect(() => () => sprite.dispose(), [sprite]);
 
-        // Reset if below ground or out of bounds
-        if (positions[i * 3 + 1] < 0) {
-          positions[i * 3 + 1] = area * 0.6;
-          positions[i * 3] = (Math.random() - 0.5) * area;
-          positions[i * 3 + 2] = (Math.random() - 0.5) * area;
-        }
-      }
-      ref.current.geometry.attributes.position.needsUpdate = true;
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    uniforms: {
+      ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+      map: { value: sprite },
+      uTime: { value: 0 },
+      uWeight: { value: seasonClock.weights[season] },
+      uTop: { value: PARTICLE_TOP },
+      uGround: { value: PARTICLE_GROUND },
+      uArea: { value: PARTICLE_AREA },
+      uSway: { value: sway },
+      uSpin: { value: spin },
+      uFlutter: { value: flutter },
+      uRest: { value: rest },
+      uSize: { value: size },
+      uScale: { value: 1 },
+      uDrift: { value: 0 },
+      uDriftScale: { value: still ? 0 : 1 },
+      uPond: { value: ponds.disc },
+      uDriftHistory: { value: driftHistory.texture },
+      uOpacity: { value: opacity }
+    },
+    defines: falling ? {} : { HOVERING: '' },
+    vertexShader: PARTICLE_VERTEX,
+    fragmentShader: PARTICLE_FRAGMENT,
+    transparent: true,
+    depthWrite: false,
+    fog: true,
+    blending: additive ? THREE.AdditiveBlending : THREE.NormalBlending
+  }), [sprite, falling, sway, spin, flutter, rest, size, opacity, additive, season, still]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((state, delta) => {
+    const weight = seasonClock.weights[season];
+    if (weight === 0 && seasonClock.target !== season) {
+      onDrained(season);
+      return;
+    }
+    const time = state.clock.elapsedTime;
+    const u = material.uniforms;
+    u.uTime.value = time;
+    u.uWeight.value = weight;
+    u.uDrift.value = driftHistory.total;
+    u.uScale.value = (state.size.height * state.viewport.dpr) / 2;
+
+    // The GPU never reports back, so replay just the landings to ripple the pond
+    if (!falling || ponds.disc.z === 0) return;
+    for (let i = 0; i < count; i++) {
+      if (layout.spawn[i * 4 + 3] >= weight) continue;
+      const spot = particleLanding(layout, i, time, delta, PARTICLE_AREA, sway, u.uDriftScale.value);
+      if (spot) ponds.addWorld(spot.x, spot.z, 0.15);
     }
   });
 
   return (
-    <Points ref={ref} positions={positions} stride={3} frustumCulled={false}>
-      <PointMaterial
-        transparent
-        color={color}
-        size={size}
-        sizeAttenuation={true}
-        depthWrite={false}
-        opacity={opacity}
-        alphaTest={0.001}
-        blending={THREE.AdditiveBlending}
-      />
-    </Points>
+    <points frustumCulled={false} material={material}>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+        <bufferAttribute attach="attributes-aSpawn" args={[layout.spawn, 4]} />
+        <bufferAttribute attach="attributes-aTiming" args={[layout.timing, 2]} />
+        <bufferAttribute attach="attributes-aSize" args={[layout.sizes, 1]} />
+        <bufferAttribute attach="attributes-aColor" args={[layout.colors, 3]} />
+      </bufferGeometry>
+    </points>
   );
 };
 
-export const SeasonalEffects: React.FC<SeasonalEffectsProps> = ({ season }) => {
-  switch (season) {
-    case Season.Spring:
-      // Sakura Petals: Pink, gentle fall
-      return <GenerateParticles count={400} color="#FFE4E1" size={0.12} speedY={0.8} speedX={0.5} area={40} />;
-    case Season.Summer:
-      // Fireflies: Yellow/Green, floating up slightly or hovering
-      return <GenerateParticles count={150} color="#ccff00" size={0.15} speedY={-0.1} speedX={0.2} area={40} opacity={0.6} />;
-    case Season.Autumn:
-      // Red Leaves: Red/Orange, faster fall
-      return <GenerateParticles count={300} color="#D2691E" size={0.15} speedY={1.0} speedX={0.8} area={40} />;
-    case Season.Winter:
-      // Snow: White, fast fall
-      return <GenerateParticles count={1000} color="#FFFFFF" size={0.08} speedY={1.5} speedX={0.3} area={40} />;
-    default:
-      return null;
-  }
-};
\ No newline at end of file
+// The outgoing season stays mounted until its particles have drained
+export const SeasonalEffects: React.FC<SeasonalEffectsProps> = ({ season, reducedMotion = false }) => {
+  const [present, setPresent] = useState<Season[]>([season]);
+  if (!present.includes(season)) setPresent([...present, season]);
+
+  const drained = useCallback((gone: Season) => setPresent((list) => list.filter((s) => s !== gone)), []);
+
+  return (
+    <>
+      {present.map((s) => (
+        <GenerateParticles key={s} season={s} {...SEASON_PARTICLES[s]} {...(reducedMotion && STILL)} still={reducedMotion} onDrained={drained} />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Weather } from '../types';
+import { seededRandom } from '../utils/random';
+import { weatherClock } from '../utils/weather';
+import { driftHistory } from '../utils/seasonalParticles';
+
+interface WeatherDriverProps {
+  weather: Weather;
+}
+
+// Eases the shared weather conditions and records the drift they cause; mount before anything that reads them
+export const WeatherDriver = ({ weather }: WeatherDriverProps) => {
+  useFrame((state, delta) => {
+    weatherClock.advance(delta, weather);
+    driftHistory.record(state.clock.elapsedTime, delta, weatherClock.drift);
+  });
+  return null;
+};
+
+const RAIN_COUNT = 3000;
+const RAIN_AREA = 40;
+const RAIN_TOP = 20;
+const RAIN_SPEED = 14;
+const STREAK_LENGTH = 0.45;
+
+// Streaks are line segments; a share of them (weatherClock.rain) is drawn
+const Rain = () => {
+  const ref = useRef<THREE.LineSegments>(null);
+  const materialRef = useRef<THREE.LineBasicMaterial>(null);
+  const random = useMemo(() => seededRandom('rain'), []);
+
+  const positions = useMemo(() => {
+    const pos = new Float32Array(RAIN_COUNT * 6);
+    for (let i = 0; i < RAIN_COUNT; i++) {
+      const x = (random() - 0.5) * RAIN_AREA, y = random() * RAIN_TOP, z = (random() - 0.5) * RAIN_AREA;
+      pos.set([x, y, z, x, y + STREAK_LENGTH, z], i * 6);
+    }
+    return pos;
+  }, [random]);
+
+  useFrame((_, delta) => {
+    if (!ref.current) return;
+    const active = Math.floor(RAIN_COUNT * weatherClock.rain);
+    ref.current.visible = active > 0;
+    if (!active) return;
+    ref.current.geometry.setDrawRange(0, active * 2);
+    if (materialRef.current) materialRef.current.opacity = 0.2 + weatherClock.rain * 0.2;
+
+    // Streaks lean with the drift so the rain visibly blows across the garden
+    const dx = weatherClock.drift * delta, dy = RAIN_SPEED * delta;
+    const slant = (weatherClock.drift / RAIN_SPEED) * STREAK_LENGTH;
+    for (let i = 0; i < active; i++) {
+      const o = i * 6;
+      let x = positions[o] + dx, y = positions[o + 1] - dy, z = positions[o + 2];
+      if (y < -1) {
+        x = (random() - 0.5) * RAIN_AREA;
+        y = RAIN_TOP;
+        z = (random() - 0.5) * RAIN_AREA;
+      }
+      if (x > RAIN_AREA / 2) x -= RAIN_AREA;
+      positions[o] = x; positions[o + 1] = y; positions[o + 2] = z;
+      positions[o + 3] = x - slant; positions[o + 4] = y + STREAK_LENGTH; positions[o + 5] = z;
+    }
+    ref.current.geometry.attributes.position.needsUpdate = true;
+  });
+
+  return (
+    <lineSegments ref={ref} frustumCulled={false} visible={false}>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+      </bufferGeometry>
+      <lineBasicMaterial ref={materialRef} color="#aabbcc" transparent opacity={0.3} depthWrite={false} />
+    </lineSegments>
+  );
+};
+
+// Drops striking a pond are its own to make (see ZenPond)
+export const WeatherEffects: React.FC = () => <Rain />;
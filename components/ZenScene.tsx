@@ -1,96 +1,187 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
-import { Environment, Stars, Sky, Cloud, SoftShadows, useScroll, SpotLight } from '@react-three/drei';
+import { Environment, Cloud, SoftShadows, useScroll, SpotLight } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette, Noise, DepthOfField } from '@react-three/postprocessing';
+import type { EffectComposer as EffectComposerImpl } from 'postprocessing';
 import * as THREE from 'three';
-import { Season, TimeOfDay, HaikuData } from '../types';
-import { SeasonalEffects } from './SeasonalEffects';
-import { BambooGrove, ZenStone, ZenPond, ToriiGate, SandGarden, Lantern, ShishiOdoshi, Tsukubai, GrassField, TeaCeremonyPlatform, MossGarden } from './GardenElements';
+import { Season, DayPhase, TimeMode, TimeSettings, Weather, HaikuData, GardenLayout, GARDEN_ORIGIN, QualitySettings, WaypointId } from '../types';
+import { SeasonalEffects, SeasonClockDriver } from './SeasonalEffects';
+import { AmbientSound } from './AmbientSound';
+import { DayClockDriver, DaySky, FOG_FAR, FOG_NEAR } from './DayCycle';
+import { WeatherDriver, WeatherEffects } from './Weather';
+import { dayClock, dayPhaseAt } from '../utils/dayCycle';
+import { seasonClock } from '../utils/seasonCycle';
+import { weatherClock } from '../utils/weather';
+import { seededRandom } from '../utils/random';
+import { Translate } from '../utils/i18n';
+import { SandGardenProps } from './GardenElements';
+import { GardenLayoutView } from './GardenRegistry';
+import { GardenEditorState } from './GardenEditor';
+import { ExploreControls, ExploreState } from './ExploreControls';
+import { GARDEN_TOUR, pendingChapterRequest, takeChapterRequest } from '../utils/tour';
+import { PosterCapture, PosterRequest } from './PosterCapture';
 
 interface ZenSceneProps {
   season: Season;
-  timeOfDay: TimeOfDay;
+  time: TimeSettings;
+  weather: Weather;
+  layout: GardenLayout;
+  quality: QualitySettings;
   onInteract: (data: HaikuData) => void;
+  haiku?: HaikuData[];
+  sand?: SandGardenProps;
+  // Present while the garden editor is open; replaces the scroll tour camera with orbit controls
+  editor?: GardenEditorState;
+  // Holds the camera on one waypoint instead of following the scroll (meditation sessions)
+  focus?: WaypointId;
+  // Called when the tour arrives at (or leaves) the gate in the final section
+  onGateChange?: (atGate: boolean) => void;
+  // Called with the index of the tour chapter in view whenever it changes
+  onChapterChange?: (index: number) => void;
+  // The camera cuts instead of gliding, and particles fall without drifting
+  reducedMotion?: boolean;
+  // Present while the visitor walks or orbits freely; the tour camera holds until it ends
+  explore?: ExploreState;
+  // Present while a poster is being rendered; the full effect chain runs for it whatever the quality
+  capture?: PosterRequest;
+  onCapture?: (render: HTMLCanvasElement) => void;
+  onCaptureError?: (err: unknown) => void;
+  t: Translate;
 }
 
-// Extended Camera Rig for 6-page scroll
-const CameraRig = () => {
+// Pages before the final chapter from which the camera has come to rest before the torii gate
+const GATE_APPROACH = 0.4;
+
+// Follows the scroll along the tour; holds on a chapter while meditating, and glides straight to one
+// when a link asks for it or exploring ends
+const CameraRig = ({ focus, onGateChange, onChapterChange, reducedMotion, exploring }: Pick<ZenSceneProps, 'focus' | 'onGateChange' | 'onChapterChange' | 'reducedMotion'> & { exploring: boolean }) => {
   const scroll = useScroll();
   const { camera } = useThree();
+  const tour = GARDEN_TOUR;
+  const atGate = useRef(false);
+  const chapterIndex = useRef(-1);
+  // While gliding to a chapter the scroll waits there; once the camera arrives the scroll takes over again
+  const returning = useRef<{ index: number; waypoint: WaypointId; offset: number; top: number } | null>(null);
+  const explored = useRef(false);
+  const baseFov = useRef(camera instanceof THREE.PerspectiveCamera ? camera.fov : 50);
+  const view = useMemo(() => ({ position: new THREE.Vector3(), look: new THREE.Vector3(), gaze: new THREE.Vector3() }), []);
+
+  // Eases the camera's position, gaze and field of view a fraction of the way onto `view`
+  const approach = (fov: number, amount: number) => {
+    camera.position.lerp(view.position, amount);
+    camera.getWorldDirection(view.gaze).add(camera.position).lerp(view.look, amount);
+    camera.lookAt(view.gaze);
+    if (camera instanceof THREE.PerspectiveCamera && camera.fov !== fov) {
+      camera.fov = Math.abs(camera.fov - fov) < 0.01 ? fov : THREE.MathUtils.lerp(camera.fov, fov, amount);
+      camera.updateProjectionMatrix();
+    }
+  };
 
-  // Camera waypoints
-  const points = {
-    start: { pos: new THREE.Vector3(0, 7, 18), look: new THREE.Vector3(0, 0, 0) },
-    pond: { pos: new THREE.Vector3(0, 2.5, 9), look: new THREE.Vector3(0, 0.5, 0) },
-    stone: { pos: new THREE.Vector3(-6, 1.8, 5), look: new THREE.Vector3(-4, 0.2, 2) },
-    tea: { pos: new THREE.Vector3(6, 1.5, -2), look: new THREE.Vector3(6, 0.5, -5) },
-    moss: { pos: new THREE.Vector3(-5, 0.8, -6), look: new THREE.Vector3(-5, 0.2, -8) },
-    sky: { pos: new THREE.Vector3(0, 1, 0), look: new THREE.Vector3(0, 8, -12) }
+  const settleOn = (id: WaypointId, amount: number) => {
+    const chapter = tour.chapter(id);
+    view.position.set(...chapter.position);
+    view.look.set(...chapter.look);
+    approach(chapter.fov ?? baseFov.current, amount);
   };
 
+  const glideTo = (index: number) => {
+    const { el } = scroll;
+    const offset = tour.offsetOf(index);
+    const top = Math.round(offset * (el.scrollHeight - el.clientHeight));
+    el.scrollTop = top;
+    returning.current = { index, waypoint: tour.stops[index].chapter.id, offset, top };
+  };
+
+  // Exploring holds the tour still; leaving glides to the chapter the visitor wandered nearest
+  useEffect(() => {
+    scroll.el.style.overflowY = exploring ? 'hidden' : 'auto';
+    if (exploring) {
+      explored.current = true;
+      returning.current = null;
+      return;
+    }
+    if (!explored.current) return;
+    explored.current = false;
+    const distances = tour.stops.map(({ chapter }) => camera.position.distanceTo(view.position.set(...chapter.position)));
+    glideTo(distances.indexOf(Math.min(...distances)));
+  }, [exploring, scroll, camera, tour, view]);
+
   useFrame(() => {
-    const r1 = scroll.range(0, 0.2);
-    const r2 = scroll.range(0.2, 0.2);
-    const r3 = scroll.range(0.4, 0.2);
-    const r4 = scroll.range(0.6, 0.2);
-    const r5 = scroll.range(0.8, 0.2);
-
-    let targetPos = points.start.pos.clone();
-    let targetLook = points.start.look.clone();
-
-    if (scroll.offset < 0.2) {
-        targetPos.lerp(points.pond.pos, r1); 
-        targetLook.lerp(points.pond.look, r1);
-    } 
-    else if (scroll.offset < 0.4) {
-        targetPos.copy(points.pond.pos).lerp(points.stone.pos, r2);
-        targetLook.copy(points.pond.look).lerp(points.stone.look, r2);
+    const scrolled = scroll.offset * (tour.pages - 1);
+    const gate = !focus && !exploring && scrolled >= tour.stops[tour.stops.length - 1].start - GATE_APPROACH;
+    if (gate !== atGate.current) {
+      atGate.current = gate;
+      onGateChange?.(gate);
+    }
+    if (exploring) return;
+
+    // A requested chapter counts as current from the start, not the ones passed on the way there
+    const chapter = pendingChapterRequest() ?? returning.current?.index ?? tour.indexAt(scrolled);
+    if (chapter !== chapterIndex.current) {
+      chapterIndex.current = chapter;
+      onChapterChange?.(chapter);
     }
-    else if (scroll.offset < 0.6) {
-        targetPos.copy(points.stone.pos).lerp(points.tea.pos, r3);
-        targetLook.copy(points.stone.look).lerp(points.tea.look, r3);
+
+    // Settle slowly onto a held chapter
+    if (focus) {
+      settleOn(focus, reducedMotion ? 1 : 0.02);
+      return;
     }
-    else if (scroll.offset < 0.8) {
-        targetPos.copy(points.tea.pos).lerp(points.moss.pos, r4);
-        targetLook.copy(points.tea.look).lerp(points.moss.look, r4);
+
+    // Requests wait until the scroller has its height
+    if (scroll.el.scrollHeight > scroll.el.clientHeight) {
+      const requested = takeChapterRequest();
+      if (requested !== null) glideTo(requested);
     }
-    else {
-        targetPos.copy(points.moss.pos).lerp(points.sky.pos, r5);
-        targetLook.copy(points.moss.look).lerp(points.sky.look, r5);
+
+    const back = returning.current;
+    if (back) {
+      // Scrolling away ends the glide early and the tour picks up from there
+      if (Math.abs(scroll.el.scrollTop - back.top) > 2) returning.current = null;
+      else {
+        settleOn(back.waypoint, reducedMotion ? 1 : 0.05);
+        if (camera.position.distanceTo(view.position) < 0.05 && Math.abs(scroll.offset - back.offset) < 0.005) returning.current = null;
+        return;
+      }
     }
 
-    camera.position.lerp(targetPos, 0.05);
-    const currentLook = new THREE.Vector3();
-    camera.getWorldDirection(currentLook);
-    const lerpedLook = currentLook.add(camera.position).lerp(targetLook, 0.05);
-    camera.lookAt(lerpedLook);
+    const fov = tour.sample(scrolled, view.position, view.look, baseFov.current);
+    approach(fov, reducedMotion ? 1 : 0.05);
   });
   return null;
 };
 
-const Lighting = ({ timeOfDay }: { timeOfDay: TimeOfDay }) => {
+// Sun by day, moon by night, both driven by the day clock and dimmed by cloud cover
+const Lighting = ({ shadowMapSize }: { shadowMapSize: number }) => {
   const lightRef = useRef<THREE.DirectionalLight>(null);
-  const isNight = timeOfDay === TimeOfDay.Night;
-  const isSunset = timeOfDay === TimeOfDay.Sunset;
+  const ambientRef = useRef<THREE.AmbientLight>(null);
 
-  useFrame((state) => {
+  // A resized shadow map is only reallocated once the old one is gone
+  useEffect(() => {
+    const shadow = lightRef.current?.shadow;
+    if (!shadow?.map) return;
+    shadow.map.dispose();
+    shadow.map = null;
+  }, [shadowMapSize]);
+
+  useFrame(() => {
+    const s = dayClock.sample;
     if (lightRef.current) {
-      const t = state.clock.elapsedTime * 0.05;
-      lightRef.current.position.x = 20 * Math.cos(t + 0.5);
-      lightRef.current.position.z = 15 * Math.sin(t + 0.5);
+      const source = s.sunElevation > 0 ? s.sunDirection : s.moonDirection;
+      lightRef.current.position.copy(source).multiplyScalar(30);
+      lightRef.current.color.copy(s.lightColor);
+      lightRef.current.intensity = s.lightIntensity * (1 - weatherClock.overcast * 0.6);
     }
+    if (ambientRef.current) ambientRef.current.intensity = s.ambientIntensity;
   });
 
   return (
     <>
-      <ambientLight intensity={isNight ? 0.05 : 0.6} />
+      <ambientLight ref={ambientRef} />
       <directionalLight
         ref={lightRef}
-        position={isSunset ? [-25, 8, -10] : [15, 25, 15]}
-        intensity={isNight ? 0.2 : isSunset ? 1.5 : 2.2}
-        color={isNight ? "#b0c4de" : isSunset ? "#fdba74" : "#fffaf0"}
         castShadow
-        shadow-mapSize={[2048, 2048]}
+        shadow-mapSize={[shadowMapSize, shadowMapSize]}
         shadow-bias={-0.00005}
       >
         <orthographicCamera attach="shadow-camera" args={[-40, 40, 40, -40]} />
@@ -110,69 +201,64 @@ const Lighting = ({ timeOfDay }: { timeOfDay: TimeOfDay }) => {
   );
 };
 
-export const ZenScene: React.FC<ZenSceneProps> = ({ season, timeOfDay, onInteract }) => {
-  const isNight = timeOfDay === TimeOfDay.Night;
-  const isSunset = timeOfDay === TimeOfDay.Sunset;
+// Winter skies clear; drei's Cloud only takes opacity as a prop, so it steps in coarse increments
+const SeasonCloud = ({ isDusk }: { isDusk: boolean }) => {
+  const [presence, setPresence] = useState(() => Math.round(seasonClock.sample.cloud * 20) / 20);
+  // A fixed seed keeps the puffs in place when the opacity changes
+  const seed = useMemo(() => seededRandom('cloud')() * 100, []);
+  useFrame(() => {
+    const next = Math.round(seasonClock.sample.cloud * 20) / 20;
+    if (next !== presence) setPresence(next);
+  });
+  if (presence === 0) return null;
+  return <Cloud seed={seed} opacity={(isDusk ? 0.6 : 0.4) * presence} speed={0.05} bounds={[25, 4, 5]} segments={10} position={[0, 15, -15]} color={isDusk ? "#ffaa88" : "#ffffff"} />;
+};
+
+export const ZenScene: React.FC<ZenSceneProps> = ({ season, time, weather, layout, quality, onInteract, haiku, sand, editor, focus, onGateChange, onChapterChange, reducedMotion, explore, capture, onCapture, onCaptureError, t }) => {
+  // Only discrete choices re-render on phase changes; blended values update per frame
+  const [phase, setPhase] = useState<DayPhase>(() => dayPhaseAt(time.mode === TimeMode.Manual ? time.hours : dayClock.hours));
+  const isNight = phase === DayPhase.Night;
+  const isDusk = phase === DayPhase.Dusk;
+  const composer = useRef<EffectComposerImpl>(null);
 
   return (
     <>
-      <CameraRig />
-      <Lighting timeOfDay={timeOfDay} />
+      <DayClockDriver time={time} onPhaseChange={setPhase} />
+      <SeasonClockDriver season={season} />
+      <WeatherDriver weather={weather} />
+      {!editor && <CameraRig focus={focus} onGateChange={onGateChange} onChapterChange={onChapterChange} reducedMotion={reducedMotion} exploring={!!explore} />}
+      {!editor && explore && <ExploreControls {...explore} layout={layout} reducedMotion={reducedMotion} />}
+      <Lighting shadowMapSize={quality.shadowMapSize} />
       
-      <fog attach="fog" args={[isNight ? '#050510' : isSunset ? '#331111' : '#e6f0ff', 5, 45]} />
-      <Environment preset={isNight ? "city" : isSunset ? "sunset" : "park"} background={false} blur={0.8} />
+      {/* Color and distance are blended every frame by DaySky */}
+      <fog attach="fog" args={['#e6f0ff', FOG_NEAR, FOG_FAR]} />
+      <Environment preset={isNight ? "city" : isDusk ? "sunset" : "park"} background={false} blur={0.8} />
+      <DaySky stars={quality.starCount} />
       
-      {!isNight && (
-        <Sky 
-           sunPosition={isSunset ? [-10, 0, -10] : [100, 40, 100]} 
-           turbidity={isSunset ? 8 : 0.5}
-           rayleigh={isSunset ? 4 : 1}
-           mieCoefficient={0.005}
-           mieDirectionalG={0.8}
-        />
-      )}
-      {isNight && <Stars radius={100} depth={50} count={7000} factor={4} saturation={0} fade speed={0.5} />}
-      
-      {season !== Season.Winter && (
-         <Cloud opacity={isSunset ? 0.6 : 0.4} speed={0.05} bounds={[25, 4, 5]} segments={10} position={[0, 15, -15]} color={isSunset ? "#ffaa88" : "#ffffff"} />
-      )}
+      <SeasonCloud isDusk={isDusk} />
+
+      <SeasonalEffects season={season} reducedMotion={reducedMotion} />
+      <WeatherEffects />
 
-      <SeasonalEffects season={season} />
-
-      <group position={[0, -1, 0]}>
-        <SandGarden />
-        <ZenPond />
-        <GrassField count={40000} area={55} />
-        
-        <ToriiGate position={[0, 0.2, -15]} />
-        
-        <Lantern position={[-2.5, 0, 5]} scale={0.8} />
-        <Lantern position={[3.5, 0, -4]} scale={0.9} />
-        <Lantern position={[-5, 0, -8]} scale={0.9} />
-        <Lantern position={[6, 0, -6.5]} scale={0.8} />
-
-        <ShishiOdoshi position={[5, 0, 3]} rotation={[0, -Math.PI/4, 0]} />
-        <Tsukubai position={[4.5, 0, 3.5]} />
-        
-        <BambooGrove count={80} area={60} />
-        
-        <ZenStone position={[-4, 0.3, 2]} scale={1.2} rotation={[0, Math.PI/4, 0]} onInteract={onInteract} />
-        <ZenStone position={[4, 0.2, 0]} scale={0.9} rotation={[Math.PI/8, 0, 0]} onInteract={onInteract} />
-        <ZenStone position={[0, 0.1, 5]} scale={0.6} onInteract={onInteract} />
-
-        <TeaCeremonyPlatform position={[6, 0, -5]} rotation={[0, -0.5, 0]} />
-        <MossGarden position={[-5, 0, -8]} />
+      <AmbientSound season={season} phase={phase} layout={layout} />
+
+      <group position={GARDEN_ORIGIN}>
+        <GardenLayoutView layout={layout} quality={quality} onInteract={onInteract} haiku={haiku} sand={sand} editor={editor} t={t} />
       </group>
 
-      <SoftShadows size={15} samples={16} focus={1.0} />
+      {quality.softShadowSamples > 0 && <SoftShadows size={15} samples={quality.softShadowSamples} focus={1.0} />}
       
-      <EffectComposer enableNormalPass={false}>
-        {/* Much subtler DoF to ensure things look sharp when zoomed */}
-        <DepthOfField focusDistance={0.025} focalLength={0.02} bokehScale={2} height={480} />
-        <Bloom luminanceThreshold={1.2} mipmapBlur intensity={0.3} radius={0.3} />
-        <Noise opacity={0.04} />
-        <Vignette eskil={false} offset={0.1} darkness={0.6} />
-      </EffectComposer>
+      {(quality.postprocessing || capture) && (
+        <EffectComposer ref={composer} enableNormalPass={false}>
+          {/* Much subtler DoF to ensure things look sharp when zoomed */}
+          {(quality.depthOfField || capture) && <DepthOfField focusDistance={0.025} focalLength={0.02} bokehScale={2} height={480} />}
+          <Bloom luminanceThreshold={1.2} mipmapBlur intensity={0.3} radius={0.3} />
+          <Noise opacity={0.04} />
+          <Vignette eskil={false} offset={0.1} darkness={0.6} />
+        </EffectComposer>
+      )}
+
+      {capture && onCapture && onCaptureError && <PosterCapture request={capture} composer={composer} onCapture={onCapture} onError={onCaptureError} />}
     </>
   );
 };
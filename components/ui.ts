@@ -0,0 +1,10 @@
+// --- Panel Styling ---
+// Class names shared by the floating panels. A button that can't be used gets a real
+// `disabled` attribute; the class only dims it.
+
+export const buttonClass = (selected = false) =>
+  `px-3 py-2 text-[10px] uppercase tracking-wider transition-all duration-300 disabled:opacity-30 disabled:cursor-default ${selected ? 'bg-washi text-sumi font-bold' : 'text-washi/70 hover:bg-white/10 disabled:hover:bg-transparent'}`;
+
+export const sectionTitle = 'text-[10px] uppercase tracking-[0.2em] opacity-50 border-b border-white/10 pb-1 mb-2';
+
+export const fieldClass = 'w-full bg-transparent border-b border-white/20 focus:border-white/60 outline-none py-1 text-sm';
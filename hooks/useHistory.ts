@@ -0,0 +1,51 @@
+import { useCallback, useState } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const HISTORY_LIMIT = 100;
+
+// Minimal undo/redo stack over immutable snapshots
+export const useHistory = <T,>(initial: T | (() => T)) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: []
+  }));
+
+  const push = useCallback((next: T | ((current: T) => T)) => {
+    setHistory(({ past, present }) => ({
+      past: [...past, present].slice(-HISTORY_LIMIT),
+      present: typeof next === 'function' ? (next as (current: T) => T)(present) : next,
+      future: []
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((h) => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future]
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1)
+    });
+  }, []);
+
+  return {
+    present: history.present,
+    push,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -1,3 +1,5 @@
+import type { MessageKey } from './utils/i18n';
+
 export enum Season {
   Spring = 'Spring',
   Summer = 'Summer',
@@ -5,34 +7,245 @@ export enum Season {
   Winter = 'Winter'
 }
 
-export enum TimeOfDay {
+// How the season is chosen: picked by hand, stepped through the year, or read from the calendar
+export enum SeasonMode {
+  Manual = 'Manual',
+  Cycle = 'Cycle',
+  Calendar = 'Calendar'
+}
+
+// Which half of the world the calendar season is read for
+export type Hemisphere = 'north' | 'south';
+
+// How the time of day (0..24h) advances
+export enum TimeMode {
+  Manual = 'Manual',
+  Clock = 'Clock',
+  TimeLapse = 'TimeLapse'
+}
+
+// Coarse bucket of the continuous time, for choices that can't be interpolated
+export enum DayPhase {
   Day = 'Day',
-  Sunset = 'Sunset',
+  Dusk = 'Dusk',
   Night = 'Night'
 }
 
+export interface TimeSettings {
+  mode: TimeMode;
+  // Time shown while in Manual mode
+  hours: number;
+}
+
+// What the garden was last left showing, restored on the next visit. Quality and language
+// are kept separately (QualityPreferences, Language).
+export interface ViewerPreferences {
+  season: Season;
+  seasonMode: SeasonMode;
+  hemisphere: Hemisphere;
+  time: TimeSettings;
+  volume: number;
+  muted: boolean;
+}
+
+// Sky conditions, independent of the season
+export enum Weather {
+  Clear = 'Clear',
+  Drizzle = 'Drizzle',
+  HeavyRain = 'HeavyRain',
+  Mist = 'Mist',
+  Windy = 'Windy'
+}
+
+export enum RakeWidth {
+  Narrow = 'Narrow',
+  Medium = 'Medium',
+  Wide = 'Wide'
+}
+
+// A single rake pass; points are in sand UV space (0..1, origin top-left of the raked map)
+export interface RakeStroke {
+  width: RakeWidth;
+  points: [number, number][];
+}
+
+export interface RakePattern {
+  version: number;
+  strokes: RakeStroke[];
+}
+
+export enum GardenElementType {
+  SandGarden = 'SandGarden',
+  ZenPond = 'ZenPond',
+  GrassField = 'GrassField',
+  BambooGrove = 'BambooGrove',
+  ToriiGate = 'ToriiGate',
+  Lantern = 'Lantern',
+  ShishiOdoshi = 'ShishiOdoshi',
+  Tsukubai = 'Tsukubai',
+  ZenStone = 'ZenStone',
+  TeaCeremonyPlatform = 'TeaCeremonyPlatform',
+  MossGarden = 'MossGarden'
+}
+
+export type Vec3 = [number, number, number];
+
+// Where layout coordinates are anchored in the scene
+export const GARDEN_ORIGIN: Vec3 = [0, -1, 0];
+
+// A circle of ground (garden space, x/z) that something solid stands on
+export interface GroundClearing {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export type GardenElementPropValue = number | string | boolean;
+
+export interface GardenElementSpec {
+  id: string;
+  type: GardenElementType;
+  position: Vec3;
+  rotation: Vec3;
+  scale: number | Vec3;
+  props: Record<string, GardenElementPropValue>;
+}
+
+export type TransformMode = 'translate' | 'rotate' | 'scale';
+
+export type GardenTransform = Pick<GardenElementSpec, 'position' | 'rotation' | 'scale'>;
+
+export interface GardenLayout {
+  version: number;
+  name: string;
+  elements: GardenElementSpec[];
+}
+
+// One stop on the scroll tour, in world space; the camera runs through chapters in order along a smooth curve
+export interface TourChapter {
+  id: string;
+  // Name in links to the chapter (#slug)
+  slug: string;
+  // Catalog key of the chapter's heading, also shown on the chapter rail
+  title: MessageKey;
+  position: Vec3;
+  look: Vec3;
+  // Vertical field of view in degrees; the camera's own when left out
+  fov?: number;
+  // Pages of scroll the camera rests here before moving on
+  dwell?: number;
+}
+
+// Id of a tour chapter the camera can hold on
+export type WaypointId = TourChapter['id'];
+
+// Ways to leave the tour and look around freely
+export type ExploreMode = 'walk' | 'orbit';
+
+// Seconds spent in each part of one breath
+export interface BreathPacing {
+  inhale: number;
+  holdIn: number;
+  exhale: number;
+  holdOut: number;
+}
+
+export interface MeditationSettings {
+  minutes: number;
+  pacing: BreathPacing;
+  // Minutes between interval bells; 0 for none
+  intervalMinutes: number;
+  waypoint: WaypointId;
+}
+
+export enum QualityTier {
+  Low = 'Low',
+  Medium = 'Medium',
+  High = 'High',
+  Ultra = 'Ultra'
+}
+
+// Everything a quality tier scales; the settings panel can override each one
+export interface QualitySettings {
+  // Upper bound of the device pixel ratio
+  dpr: number;
+  shadowMapSize: number;
+  // 0 turns soft shadows off
+  softShadowSamples: number;
+  reflectorResolution: number;
+  // Share of each grass field's blades that are planted
+  grassDensity: number;
+  starCount: number;
+  postprocessing: boolean;
+  depthOfField: boolean;
+}
+
+export interface QualityPreferences {
+  tier: QualityTier;
+  // Let the frame-time governor move between tiers
+  auto: boolean;
+  overrides: Partial<QualitySettings>;
+}
+
+// A completed sitting, as kept in the local session log
+export interface MeditationRecord {
+  id?: number;
+  // ISO timestamp of when the sitting began
+  date: string;
+  durationSeconds: number;
+  pacing: BreathPacing;
+}
+
 export interface HaikuData {
+  // Set on entries in the user's library
+  id?: string;
   line1: string;
   line2: string;
   line3: string;
   author?: string;
+  // Japanese original and its romanization, one line per verse line
+  original?: string;
+  romaji?: string;
+  // Who made the English lines, when known
+  translator?: string;
+  // The seasonal word (kigo) and the season(s) it places the poem in
+  kigo?: string;
+  seasons?: Season[];
 }
 
+// `translator` is left off the versions whose source couldn't be confirmed
 export const HAIKUS: HaikuData[] = [
-  { line1: "The old pond,", line2: "A frog jumps in:", line3: "Plop! Sound of water.", author: "Bashō" },
-  { line1: "In the cherry blossom's shade", line2: "there's no such thing", line3: "as a stranger.", author: "Issa" },
-  { line1: "First winter rain—", line2: "even the monkey", line3: "seems to want a raincoat.", author: "Bashō" },
-  { line1: "Silence—", line2: "the cicada's cry", line3: "pierces the rocks.", author: "Bashō" },
-  { line1: "Light of the moon", line2: "Moves west, flowers' shadows", line3: "Creep eastward.", author: "Buson" },
-  { line1: "I write, erase, rewrite", line2: "Erase again, and then", line3: "A poppy blooms.", author: "Hokushi" },
-  { line1: "Winter seclusion -", line2: "Listening, that evening,", line3: "To the rain in the mountain.", author: "Issa" },
-  { line1: "A world of dew,", line2: "And within every dewdrop", line3: "A world of struggle.", author: "Issa" }
+  { line1: "The old pond,", line2: "A frog jumps in:", line3: "Plop! Sound of water.", author: "Bashō", translator: "Alan Watts", original: "古池や\n蛙飛び込む\n水の音", romaji: "furuike ya\nkawazu tobikomu\nmizu no oto", kigo: "kawazu (frog)", seasons: [Season.Spring] },
+  { line1: "In the cherry blossom's shade", line2: "there's no such thing", line3: "as a stranger.", author: "Issa", original: "花の陰\n赤の他人は\nなかりけり", romaji: "hana no kage\naka no tanin wa\nnakarikeri", kigo: "hana (blossoms)", seasons: [Season.Spring] },
+  { line1: "First winter rain—", line2: "even the monkey", line3: "seems to want a raincoat.", author: "Bashō", original: "初しぐれ\n猿も小蓑を\nほしげなり", romaji: "hatsu shigure\nsaru mo komino o\nhoshige nari", kigo: "hatsu shigure (first winter rain)", seasons: [Season.Winter] },
+  { line1: "Silence—", line2: "the cicada's cry", line3: "pierces the rocks.", author: "Bashō", original: "閑さや\n岩にしみ入る\n蝉の声", romaji: "shizukasa ya\niwa ni shimiiru\nsemi no koe", kigo: "semi (cicada)", seasons: [Season.Summer] },
+  { line1: "Light of the moon", line2: "Moves west, flowers' shadows", line3: "Creep eastward.", author: "Buson", original: "月光\n西にわたれば\n花影東に歩むかな", romaji: "gekkō\nnishi ni watareba\nkaei higashi ni ayumu kana", kigo: "hana (flowers)", seasons: [Season.Spring] },
+  { line1: "I write, erase, rewrite", line2: "Erase again, and then", line3: "A poppy blooms.", author: "Hokushi", original: "書いて見たり\nけしたり果は\nけしの花", romaji: "kaite mitari\nkeshitari hate wa\nkeshi no hana", kigo: "keshi no hana (poppy)", seasons: [Season.Summer] },
+  { line1: "Winter seclusion -", line2: "Listening, that evening,", line3: "To the rain in the mountain.", author: "Issa", translator: "Robert Hass", original: "冬籠り\nその夜に聞くや\n山の雨", romaji: "fuyugomori\nsono yo ni kiku ya\nyama no ame", kigo: "fuyugomori (winter seclusion)", seasons: [Season.Winter] },
+  { line1: "A world of dew,", line2: "And within every dewdrop", line3: "A world of struggle.", author: "Issa", translator: "Jane Hirshfield", original: "露の世の\n露の中にて\nけんくわ哉", romaji: "tsuyu no yo no\ntsuyu no naka nite\nkenka kana", kigo: "tsuyu (dew)", seasons: [Season.Autumn] }
+];
+
+export interface KoanData {
+  // Set on entries in the user's library
+  id?: string;
+  text: string;
+  attribution?: string;
+}
+
+export const ZEN_KOANS: KoanData[] = [
+  { text: "What is the sound of one hand clapping?", attribution: "Hakuin Ekaku" },
+  { text: "When you meet the Buddha, kill him.", attribution: "Linji Yixuan" },
+  { text: "Sitting quietly, doing nothing, Spring comes, and the grass grows by itself.", attribution: "Zenrin-kushū" },
+  { text: "No snowflake ever falls in the wrong place.", attribution: "Zen saying" },
+  { text: "To study the Way is to study the self.", attribution: "Dōgen, Genjōkōan" }
 ];
 
-export const ZEN_KOANS = [
-  "What is the sound of one hand clapping?",
-  "When you meet the Buddha, kill him.",
-  "Sitting quietly, doing nothing, Spring comes, and the grass grows by itself.",
-  "No snowflake ever falls in the wrong place.",
-  "To study the Way is to study the self."
-];
\ No newline at end of file
+// A visitor's written response to one day's koan
+export interface KoanReflection {
+  // Local calendar day, YYYY-MM-DD
+  day: string;
+  koan: KoanData;
+  response: string;
+  // ISO timestamp of the last save
+  savedAt: string;
+}
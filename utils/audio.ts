@@ -0,0 +1,285 @@
+// --- Procedural Ambient Audio ---
+// Every sound is synthesized with Web Audio; nothing is downloaded. Layers fade toward
+// target levels set from scene state, and positional sources go through PannerNodes so
+// their loudness follows the distance to the listener (kept on the camera).
+
+export type AmbientLayer = 'water' | 'wind' | 'cicadas' | 'crickets' | 'snowWind';
+
+type Vec3Like = { x: number; y: number; z: number };
+
+const LAYER_FADE = 1.5; // seconds (time constant)
+const MASTER_FADE = 0.1;
+
+const BELL_PITCH = 528;
+const BELL_SPACING = 2.5; // seconds between strikes
+// [frequency ratio, level, decay seconds]
+const BELL_PARTIALS: [number, number, number][] = [[1, 0.6, 7], [2.76, 0.3, 4.5], [5.4, 0.15, 2.8], [8.93, 0.08, 1.6]];
+
+interface LayerNodes {
+  gain: GainNode;
+  panner?: PannerNode;
+}
+
+const createNoiseBuffer = (ctx: AudioContext, seconds = 2) => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * seconds, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+const createPanner = (ctx: AudioContext, refDistance: number) => new PannerNode(ctx, {
+  panningModel: 'HRTF',
+  distanceModel: 'inverse',
+  refDistance,
+  maxDistance: 60,
+  rolloffFactor: 1.2
+});
+
+const setParamPosition = (panner: PannerNode, p: Vec3Like) => {
+  panner.positionX.value = p.x;
+  panner.positionY.value = p.y;
+  panner.positionZ.value = p.z;
+};
+
+const createAmbientAudio = () => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let noise: AudioBuffer | null = null;
+  const layers = new Map<AmbientLayer, LayerNodes>();
+  let windFilter: BiquadFilterNode | null = null;
+
+  // Desired state is kept even before the context exists, and applied once unlocked
+  const targets: Record<AmbientLayer, number> = { water: 0, wind: 0, cicadas: 0, crickets: 0, snowWind: 0 };
+  let volume = 0.7;
+  let muted = false;
+  let wind = 0.5;
+  let waterPosition: Vec3Like = { x: 0, y: -1, z: 0 };
+
+  const noiseSource = () => {
+    const src = ctx!.createBufferSource();
+    src.buffer = noise;
+    src.loop = true;
+    // Offset each loop so layers don't share audible repetition
+    src.start(0, Math.random() * noise!.duration);
+    return src;
+  };
+
+  // Slow LFO driving an AudioParam around its current value
+  const lfo = (param: AudioParam, frequency: number, depth: number, type: OscillatorType = 'sine') => {
+    const osc = new OscillatorNode(ctx!, { type, frequency });
+    const amount = new GainNode(ctx!, { gain: depth });
+    osc.connect(amount).connect(param);
+    osc.start();
+  };
+
+  const buildWater = (out: GainNode) => {
+    // Low murmur plus a brighter babble band, each breathing on its own slow cycle
+    const low = new BiquadFilterNode(ctx!, { type: 'lowpass', frequency: 500, Q: 0.5 });
+    const lowGain = new GainNode(ctx!, { gain: 0.6 });
+    noiseSource().connect(low).connect(lowGain).connect(out);
+    lfo(lowGain.gain, 0.13, 0.2);
+
+    const babble = new BiquadFilterNode(ctx!, { type: 'bandpass', frequency: 1800, Q: 1.5 });
+    const babbleGain = new GainNode(ctx!, { gain: 0.25 });
+    noiseSource().connect(babble).connect(babbleGain).connect(out);
+    lfo(babble.frequency, 0.7, 500);
+    lfo(babbleGain.gain, 1.9, 0.12);
+  };
+
+  const buildWind = (out: GainNode) => {
+    windFilter = new BiquadFilterNode(ctx!, { type: 'bandpass', frequency: 400, Q: 0.8 });
+    noiseSource().connect(windFilter).connect(out);
+  };
+
+  const buildSnowWind = (out: GainNode) => {
+    // Thin, whistling air over a hushed, snow-muffled floor
+    const hiss = new BiquadFilterNode(ctx!, { type: 'highpass', frequency: 1500 });
+    const whistle = new BiquadFilterNode(ctx!, { type: 'bandpass', frequency: 3000, Q: 6 });
+    const whistleGain = new GainNode(ctx!, { gain: 0.8 });
+    noiseSource().connect(hiss).connect(whistle).connect(whistleGain).connect(out);
+    lfo(whistle.frequency, 0.08, 900);
+    lfo(whistleGain.gain, 0.23, 0.4);
+  };
+
+  const buildCicadas = (out: GainNode) => {
+    // A rasping carrier chopped into a fast buzz, swelling slowly in and out
+    const carrier = new OscillatorNode(ctx!, { type: 'sawtooth', frequency: 4200 });
+    const band = new BiquadFilterNode(ctx!, { type: 'bandpass', frequency: 5200, Q: 4 });
+    const buzz = new GainNode(ctx!, { gain: 0.5 });
+    const swell = new GainNode(ctx!, { gain: 0.5 });
+    carrier.connect(band).connect(buzz).connect(swell).connect(out);
+    carrier.start();
+    lfo(buzz.gain, 38, 0.5, 'square');
+    lfo(swell.gain, 0.09, 0.45);
+    lfo(carrier.frequency, 0.31, 150);
+  };
+
+  const buildCrickets = (out: GainNode) => {
+    // Pure tone gated into trills, and trills gated into chirps
+    [[4600, 1.3, 0], [4350, 1.7, 0.4]].forEach(([frequency, chirpRate, pan]) => {
+      const tone = new OscillatorNode(ctx!, { type: 'sine', frequency });
+      const trill = new GainNode(ctx!, { gain: 0.5 });
+      const chirp = new GainNode(ctx!, { gain: 0.5 });
+      const panner = new StereoPannerNode(ctx!, { pan });
+      tone.connect(trill).connect(chirp).connect(panner).connect(out);
+      tone.start();
+      lfo(trill.gain, 32, 0.5, 'square');
+      lfo(chirp.gain, chirpRate, 0.5, 'square');
+    });
+  };
+
+  const addLayer = (name: AmbientLayer, level: number, build: (out: GainNode) => void, panner?: PannerNode) => {
+    const gain = new GainNode(ctx!, { gain: 0 });
+    const trim = new GainNode(ctx!, { gain: level });
+    build(trim);
+    trim.connect(gain);
+    if (panner) gain.connect(panner).connect(master!);
+    else gain.connect(master!);
+    layers.set(name, { gain, panner });
+  };
+
+  const applyMaster = () => {
+    if (!ctx || !master) return;
+    master.gain.setTargetAtTime(muted ? 0 : volume, ctx.currentTime, MASTER_FADE);
+  };
+
+  const applyLayer = (name: AmbientLayer) => {
+    const layer = layers.get(name);
+    if (!ctx || !layer) return;
+    // Wind layers also follow the gusts
+    const gust = name === 'wind' || name === 'snowWind' ? 0.35 + wind * 0.65 : 1;
+    layer.gain.gain.setTargetAtTime(targets[name] * gust, ctx.currentTime, LAYER_FADE);
+  };
+
+  const build = () => {
+    ctx = new AudioContext();
+    master = new GainNode(ctx, { gain: 0 });
+    master.connect(ctx.destination);
+    noise = createNoiseBuffer(ctx);
+
+    const waterPanner = createPanner(ctx, 3);
+    setParamPosition(waterPanner, waterPosition);
+    addLayer('water', 0.5, buildWater, waterPanner);
+    addLayer('wind', 0.35, buildWind);
+    addLayer('snowWind', 0.12, buildSnowWind);
+    addLayer('cicadas', 0.04, buildCicadas);
+    addLayer('crickets', 0.03, buildCrickets);
+
+    applyMaster();
+    (Object.keys(targets) as AmbientLayer[]).forEach(applyLayer);
+  };
+
+  return {
+    // Browsers only allow audio after a user gesture; call from one
+    unlock() {
+      if (!ctx) build();
+      if (ctx!.state === 'suspended') ctx!.resume();
+    },
+
+    setMaster(nextVolume: number, nextMuted: boolean) {
+      volume = Math.min(1, Math.max(0, nextVolume));
+      muted = nextMuted;
+      applyMaster();
+    },
+
+    setLayerLevels(levels: Partial<Record<AmbientLayer, number>>) {
+      (Object.keys(levels) as AmbientLayer[]).forEach((name) => {
+        targets[name] = levels[name]!;
+        applyLayer(name);
+      });
+    },
+
+    // 0..1; shapes both wind layers and brightens the wind band as it blows harder
+    setWind(intensity: number) {
+      wind = intensity;
+      if (!ctx) return;
+      applyLayer('wind');
+      applyLayer('snowWind');
+      windFilter?.frequency.setTargetAtTime(250 + intensity * 650, ctx.currentTime, 0.5);
+    },
+
+    setWaterPosition(position: Vec3Like) {
+      waterPosition = { x: position.x, y: position.y, z: position.z };
+      const panner = layers.get('water')?.panner;
+      if (panner) setParamPosition(panner, waterPosition);
+    },
+
+    setListener(position: Vec3Like, forward: Vec3Like) {
+      if (!ctx) return;
+      const l = ctx.listener;
+      if (l.positionX) {
+        l.positionX.value = position.x; l.positionY.value = position.y; l.positionZ.value = position.z;
+        l.forwardX.value = forward.x; l.forwardY.value = forward.y; l.forwardZ.value = forward.z;
+        l.upX.value = 0; l.upY.value = 1; l.upZ.value = 0;
+      } else {
+        // Firefox only implements the deprecated setters
+        l.setPosition(position.x, position.y, position.z);
+        l.setOrientation(forward.x, forward.y, forward.z, 0, 1, 0);
+      }
+    },
+
+    // The hollow "kon" of a shishi-odoshi striking its stone
+    clack(position: Vec3Like) {
+      if (!ctx || !master || ctx.state !== 'running') return;
+      const now = ctx.currentTime;
+      const panner = createPanner(ctx, 2);
+      setParamPosition(panner, position);
+      const out = new GainNode(ctx, { gain: 0.9 });
+      out.connect(panner).connect(master);
+
+      // Two hollow resonances of the bamboo tube
+      [[620, 0.18], [1420, 0.08]].forEach(([frequency, decay], i) => {
+        const osc = new OscillatorNode(ctx!, { type: 'sine', frequency });
+        const env = new GainNode(ctx!, { gain: 0 });
+        env.gain.setValueAtTime(0, now);
+        env.gain.linearRampToValueAtTime(0.6, now + 0.003);
+        env.gain.exponentialRampToValueAtTime(0.001, now + decay);
+        osc.connect(env).connect(out);
+        osc.start(now);
+        osc.stop(now + decay + 0.05);
+        // The longest tail frees the voice
+        if (i === 0) osc.onended = () => out.disconnect();
+      });
+
+      // The woody click of the impact
+      const click = ctx.createBufferSource();
+      click.buffer = noise;
+      const band = new BiquadFilterNode(ctx, { type: 'bandpass', frequency: 2400, Q: 3 });
+      const env = new GainNode(ctx, { gain: 0 });
+      env.gain.setValueAtTime(0.8, now);
+      env.gain.exponentialRampToValueAtTime(0.001, now + 0.04);
+      click.connect(band).connect(env).connect(out);
+      click.start(now, Math.random() * noise!.duration);
+      click.stop(now + 0.06);
+    },
+
+    // A rin (temple bowl bell): inharmonic partials ringing down over several seconds.
+    // Several strikes are spaced out the way a bell is struck to close a sitting.
+    bell(strikes = 1) {
+      if (!ctx || !master || ctx.state !== 'running') return;
+      const out = new GainNode(ctx, { gain: 0.5 });
+      out.connect(master);
+      const start = ctx.currentTime;
+      for (let s = 0; s < strikes; s++) {
+        const now = start + s * BELL_SPACING;
+        const last = s === strikes - 1;
+        BELL_PARTIALS.forEach(([ratio, level, decay], i) => {
+          // Each partial is a slightly detuned pair, giving the bowl its slow beating
+          [1, 1.0025].forEach((detune, j) => {
+            const osc = new OscillatorNode(ctx!, { type: 'sine', frequency: BELL_PITCH * ratio * detune });
+            const env = new GainNode(ctx!, { gain: 0 });
+            env.gain.setValueAtTime(0, now);
+            env.gain.linearRampToValueAtTime(level / 2, now + 0.004);
+            env.gain.exponentialRampToValueAtTime(0.0001, now + decay);
+            osc.connect(env).connect(out);
+            osc.start(now);
+            osc.stop(now + decay + 0.05);
+            if (last && i === 0 && j === 0) osc.onended = () => out.disconnect();
+          });
+        });
+      }
+    }
+  };
+};
+
+export const ambientAudio = createAmbientAudio();
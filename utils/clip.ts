@@ -0,0 +1,57 @@
+// --- Clip Recording ---
+// Clips are rendered frame by frame on a fixed timestep (see ClipRecorder) rather than sampled
+// from the live loop, so every frame is the same step apart however slowly it renders. A looping
+// clip runs a little past its end and cross-fades that tail into its first frames.
+
+export interface ClipSettings {
+  seconds: number;
+  fps: number;
+  // Seamless loop: season, weather and time of day hold still and the end fades into the start
+  loop: boolean;
+  // Also encode a small GIF alongside the WebM
+  gif: boolean;
+}
+
+export interface ClipResult {
+  webm?: Blob;
+  gif?: Blob;
+}
+
+export const CLIP_DURATIONS = [3, 6, 10];
+export const CLIP_FRAMERATES = [15, 24, 30];
+
+// The video is scaled down to this width at most; the GIF to a good deal less
+export const MAX_CLIP_WIDTH = 1280;
+export const GIF_WIDTH = 480;
+
+const LOOP_FADE_SECONDS = 1;
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// The best WebM the browser can record, or null where MediaRecorder is missing
+export const webmType = () =>
+  typeof MediaRecorder === 'undefined' ? null : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+
+// WebCodecs where the browser has it, MediaRecorder otherwise
+export const supportsVideo = () => typeof VideoEncoder !== 'undefined' || webmType() !== null;
+
+// Frames kept in the clip, and for a loop how many extra are rendered to fade back into its start
+export const planClip = ({ seconds, fps, loop }: ClipSettings) => {
+  const frames = Math.round(seconds * fps);
+  const fade = loop ? Math.round(Math.min(LOOP_FADE_SECONDS, seconds / 4) * fps) : 0;
+  return { frames, fade };
+};
+
+// Scales down to `maxWidth`, keeping the shape; video encoders want even sizes
+export const fitClip = (width: number, height: number, maxWidth: number): [number, number] => {
+  const fit = Math.min(1, maxWidth / width);
+  const even = (n: number) => Math.max(2, Math.floor((n * fit) / 2) * 2);
+  return [even(width), even(height)];
+};
+
+// GIF delays are whole hundredths of a second. Rounding each frame's end time rather than its
+// length carries the error along, so 30 fps alternates 3 and 4 and the GIF keeps the clip's length.
+export const gifDelay = (index: number, fps: number) => Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps);
+
+export const clipFilename = (seed: string, { seconds, fps, loop }: ClipSettings, extension: 'webm' | 'gif') =>
+  `zen-garden-${seed}-${seconds}s-${fps}fps${loop ? '-loop' : ''}.${extension}`;
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { DayPhase, TimeMode } from '../types';
+
+// --- 24h Day Cycle ---
+// Time is a continuous value in hours (0..24). The sun and moon follow analytic arcs and
+// everything else (light, fog, sky, stars) is interpolated between a few keyframes.
+
+export const TIME_LAPSE_HOURS_PER_SECOND = 0.2; // a full day in two minutes
+
+// Quick picks matching the old fixed moments
+export const TIME_PRESETS: { label: string; hours: number }[] = [
+  { label: 'Dawn', hours: 6.5 },
+  { label: 'Day', hours: 12 },
+  { label: 'Sunset', hours: 18.5 },
+  { label: 'Night', hours: 23 }
+];
+
+interface Keyframe {
+  hours: number;
+  light: string;
+  lightIntensity: number;
+  ambient: number;
+  fog: string;
+  turbidity: number;
+  rayleigh: number;
+  stars: number;
+}
+
+const KEYFRAMES: Keyframe[] = [
+  { hours: 0, light: '#b0c4de', lightIntensity: 0.2, ambient: 0.05, fog: '#050510', turbidity: 0.5, rayleigh: 1, stars: 1 },
+  { hours: 5, light: '#9aa8cc', lightIntensity: 0.15, ambient: 0.08, fog: '#141426', turbidity: 2, rayleigh: 2, stars: 0.8 },
+  { hours: 6.5, light: '#fdba74', lightIntensity: 1.0, ambient: 0.35, fog: '#8a6a6a', turbidity: 6, rayleigh: 3, stars: 0 },
+  { hours: 9, light: '#fffaf0', lightIntensity: 2.2, ambient: 0.6, fog: '#e6f0ff', turbidity: 0.5, rayleigh: 1, stars: 0 },
+  { hours: 16, light: '#fffaf0', lightIntensity: 2.2, ambient: 0.6, fog: '#e6f0ff', turbidity: 0.5, rayleigh: 1, stars: 0 },
+  { hours: 18.5, light: '#fdba74', lightIntensity: 1.5, ambient: 0.4, fog: '#331111', turbidity: 8, rayleigh: 4, stars: 0 },
+  { hours: 20, light: '#8090c0', lightIntensity: 0.3, ambient: 0.1, fog: '#0a0a1a', turbidity: 2, rayleigh: 2, stars: 0.7 },
+  { hours: 21.5, light: '#b0c4de', lightIntensity: 0.2, ambient: 0.05, fog: '#050510', turbidity: 0.5, rayleigh: 1, stars: 1 },
+  { hours: 24, light: '#b0c4de', lightIntensity: 0.2, ambient: 0.05, fog: '#050510', turbidity: 0.5, rayleigh: 1, stars: 1 }
+];
+
+const KEY_COLORS = KEYFRAMES.map((k) => ({ light: new THREE.Color(k.light), fog: new THREE.Color(k.fog) }));
+
+export interface DaySample {
+  hours: number;
+  sunDirection: THREE.Vector3;
+  moonDirection: THREE.Vector3;
+  // Sine of the sun's altitude: > 0 above the horizon
+  sunElevation: number;
+  lightColor: THREE.Color;
+  lightIntensity: number;
+  ambientIntensity: number;
+  fogColor: THREE.Color;
+  turbidity: number;
+  rayleigh: number;
+  starVisibility: number;
+}
+
+export const createDaySample = (): DaySample => ({
+  hours: 12,
+  sunDirection: new THREE.Vector3(),
+  moonDirection: new THREE.Vector3(),
+  sunElevation: 1,
+  lightColor: new THREE.Color(),
+  lightIntensity: 1,
+  ambientIntensity: 1,
+  fogColor: new THREE.Color(),
+  turbidity: 1,
+  rayleigh: 1,
+  starVisibility: 0
+});
+
+export const wrapHours = (hours: number) => ((hours % 24) + 24) % 24;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Fills `out` in place; called every frame, so it allocates nothing
+export const sampleDayCycle = (hours: number, out: DaySample): DaySample => {
+  const h = wrapHours(hours);
+  out.hours = h;
+
+  // Sun rises in the east (+x) at 6h, peaks at noon toward the south (+z), sets west at 18h
+  const angle = ((h - 6) / 12) * Math.PI;
+  out.sunDirection.set(Math.cos(angle), Math.sin(angle) * 0.8, Math.sin(angle) * 0.5 - 0.3).normalize();
+  out.sunElevation = out.sunDirection.y;
+  // The moon keeps roughly to the opposite side of the sky
+  out.moonDirection.set(-Math.cos(angle) * 0.8, -Math.sin(angle) * 0.7 + 0.15, -0.4).normalize();
+
+  let i = 0;
+  while (i < KEYFRAMES.length - 2 && KEYFRAMES[i + 1].hours <= h) i++;
+  const a = KEYFRAMES[i], b = KEYFRAMES[i + 1];
+  const t = (h - a.hours) / (b.hours - a.hours);
+
+  out.lightColor.copy(KEY_COLORS[i].light).lerp(KEY_COLORS[i + 1].light, t);
+  out.fogColor.copy(KEY_COLORS[i].fog).lerp(KEY_COLORS[i + 1].fog, t);
+  out.lightIntensity = lerp(a.lightIntensity, b.lightIntensity, t);
+  out.ambientIntensity = lerp(a.ambient, b.ambient, t);
+  out.turbidity = lerp(a.turbidity, b.turbidity, t);
+  out.rayleigh = lerp(a.rayleigh, b.rayleigh, t);
+  out.starVisibility = lerp(a.stars, b.stars, t);
+  return out;
+};
+
+// Coarse bucket for things that can't blend (environment maps, which insects sing)
+export const dayPhaseAt = (hours: number): DayPhase => {
+  const h = wrapHours(hours);
+  if (h < 5.5 || h >= 20.5) return DayPhase.Night;
+  if (h < 8 || h >= 17) return DayPhase.Dusk;
+  return DayPhase.Day;
+};
+
+export const localClockHours = (date = new Date()) => date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+
+export const formatHours = (hours: number) => {
+  const total = Math.floor(wrapHours(hours) * 60);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// The live time of day, advanced by the scene each frame and read by the UI
+export const dayClock = {
+  hours: 12,
+  sample: sampleDayCycle(12, createDaySample()),
+  advance(delta: number, mode: TimeMode, manualHours: number) {
+    if (mode === TimeMode.Clock) this.hours = localClockHours();
+    else if (mode === TimeMode.TimeLapse) this.hours = wrapHours(this.hours + delta * TIME_LAPSE_HOURS_PER_SECOND);
+    else this.hours = manualHours;
+    sampleDayCycle(this.hours, this.sample);
+  }
+};
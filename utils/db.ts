@@ -0,0 +1,34 @@
+// --- Local Database ---
+// One IndexedDB database for anything too large or too structured for localStorage.
+// Stores are created in the upgrade handler; bump DB_VERSION when adding one.
+
+const DB_NAME = 'zen-garden';
+const DB_VERSION = 2;
+
+export const STORE_SESSIONS = 'sessions';
+export const STORE_TEXTURES = 'textures';
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export const openGardenDb = () => {
+  if (!opening) {
+    opening = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_SESSIONS)) db.createObjectStore(STORE_SESSIONS, { keyPath: 'id', autoIncrement: true });
+        if (!db.objectStoreNames.contains(STORE_TEXTURES)) db.createObjectStore(STORE_TEXTURES, { keyPath: 'key' }).createIndex('usedAt', 'usedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry (e.g. after the visitor leaves private browsing)
+    opening.catch(() => { opening = null; });
+  }
+  return opening;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
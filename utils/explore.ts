@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+import { GARDEN_ORIGIN, GroundClearing } from '../types';
+
+// --- Free Roam ---
+// Walking and orbiting keep the camera on the garden's side of things: element footprints (the
+// pond's included, so its edge stops a walker) are treated as upright cylinders the camera is
+// pushed out of, the ground is a floor it cannot sink through, and the sand's edge is a wall.
+
+// World height of the raked sand the visitor stands on
+export const GROUND_LEVEL = GARDEN_ORIGIN[1] - 0.2;
+export const EYE_HEIGHT = 1.6;
+// Lowest an orbiting camera may dip above the ground
+export const ORBIT_FLOOR = 0.4;
+// Footprints stop the camera up to this height above the ground; above it the camera passes over
+const COLLIDER_HEIGHT = 2.5;
+// How far the camera keeps from anything solid
+const BODY_RADIUS = 0.35;
+// Half the width of the sand, less a step so the camera never sees past its edge
+const ROAM_LIMIT = 27;
+const PUSH_PASSES = 3;
+
+export const WALK_SPEED = 2.5;
+export const RUN_SPEED = 6;
+// Radians per second for keyboard turning, and per pixel of drag
+export const TURN_SPEED = 1.6;
+export const DRAG_TURN = 0.004;
+export const MAX_PITCH = 1.2;
+
+// Footprints come in garden space; the camera moves in world space
+export const worldColliders = (clearings: GroundClearing[]): GroundClearing[] =>
+  clearings.map((c) => ({ x: c.x + GARDEN_ORIGIN[0], z: c.z + GARDEN_ORIGIN[2], radius: c.radius + BODY_RADIUS }));
+
+// Moves `position` (in place) out of every collider it stands in, then inside the garden and above the floor.
+// Overlapping footprints can push into each other, so a few passes settle it.
+export const constrainCamera = (position: THREE.Vector3, colliders: GroundClearing[], floor: number) => {
+  if (position.y < GROUND_LEVEL + COLLIDER_HEIGHT) {
+    for (let pass = 0; pass < PUSH_PASSES; pass++) {
+      let moved = false;
+      for (const c of colliders) {
+        const dx = position.x - c.x, dz = position.z - c.z;
+        const d2 = dx * dx + dz * dz;
+        if (d2 >= c.radius * c.radius) continue;
+        const d = Math.sqrt(d2);
+        // Dead centre has no direction to leave by; step out towards the viewer's usual side
+        const nx = d > 1e-4 ? dx / d : 0, nz = d > 1e-4 ? dz / d : 1;
+        position.x = c.x + nx * c.radius;
+        position.z = c.z + nz * c.radius;
+        moved = true;
+      }
+      if (!moved) break;
+    }
+  }
+  position.x = THREE.MathUtils.clamp(position.x, -ROAM_LIMIT, ROAM_LIMIT);
+  position.z = THREE.MathUtils.clamp(position.z, -ROAM_LIMIT, ROAM_LIMIT);
+  position.y = Math.max(position.y, GROUND_LEVEL + floor);
+  return position;
+};
@@ -0,0 +1,223 @@
+import { GardenElementPropValue, GardenElementSpec, GardenElementType, GardenLayout, Vec3 } from '../types';
+import defaultLayoutJson from '../layouts/default.json';
+import { logRecovered } from './log';
+import { checkVersion, isFiniteNumber, isObject, parseEntries, ValidationError } from './validation';
+
+// --- Garden Layout Format ---
+// A garden is described as JSON: a version, a name and a list of elements, each with a
+// registered type, a transform and type-specific props. Everything is validated up front
+// so a broken layout fails with a readable list of problems instead of a blank scene.
+
+export const GARDEN_LAYOUT_VERSION = 1;
+
+// Smallest scale the editor commits; saved values are rounded, so this must stay well above that step
+export const MIN_ELEMENT_SCALE = 0.01;
+
+interface PropSchema {
+  type: 'number' | 'string' | 'boolean';
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Props each element type accepts from a layout file, beyond its transform
+export const GARDEN_ELEMENT_PROPS: Record<GardenElementType, Record<string, PropSchema>> = {
+  [GardenElementType.SandGarden]: {},
+  [GardenElementType.ZenPond]: {
+    koi: { type: 'number', min: 0, max: 40, integer: true }
+  },
+  [GardenElementType.GrassField]: {
+    count: { type: 'number', min: 0, max: 200000, integer: true },
+    area: { type: 'number', min: 1, max: 200 }
+  },
+  [GardenElementType.BambooGrove]: {
+    count: { type: 'number', min: 0, max: 500, integer: true },
+    area: { type: 'number', min: 1, max: 200 }
+  },
+  [GardenElementType.ToriiGate]: {},
+  [GardenElementType.Lantern]: {},
+  [GardenElementType.ShishiOdoshi]: {},
+  [GardenElementType.Tsukubai]: {},
+  [GardenElementType.ZenStone]: {},
+  [GardenElementType.TeaCeremonyPlatform]: {},
+  [GardenElementType.MossGarden]: {}
+};
+
+const ELEMENT_KEYS = ['id', 'type', 'position', 'rotation', 'scale', 'props'];
+
+export class GardenLayoutError extends ValidationError {
+  constructor(issues: string[]) {
+    super('garden layout', issues);
+    this.name = 'GardenLayoutError';
+  }
+}
+
+const isVec3 = (v: unknown): v is Vec3 => Array.isArray(v) && v.length === 3 && v.every(isFiniteNumber);
+
+const checkProp = (value: unknown, schema: PropSchema): string | null => {
+  if (typeof value !== schema.type) return `must be a ${schema.type}`;
+  if (schema.type !== 'number') return null;
+  const n = value as number;
+  if (!Number.isFinite(n)) return 'must be a finite number';
+  if (schema.integer && !Number.isInteger(n)) return 'must be a whole number';
+  if (schema.min !== undefined && n < schema.min) return `must be at least ${schema.min}`;
+  if (schema.max !== undefined && n > schema.max) return `must be at most ${schema.max}`;
+  return null;
+};
+
+const parseElement = (raw: unknown, index: number, seenIds: Set<string>, issues: string[]): GardenElementSpec | null => {
+  if (!isObject(raw)) {
+    issues.push(`elements[${index}] must be an object.`);
+    return null;
+  }
+  const label = typeof raw.id === 'string' && raw.id ? `elements[${index}] ("${raw.id}")` : `elements[${index}]`;
+  const before = issues.length;
+
+  if (typeof raw.id !== 'string' || !raw.id.trim()) issues.push(`${label}: "id" must be a non-empty string.`);
+  else if (seenIds.has(raw.id)) issues.push(`${label}: duplicate id "${raw.id}".`);
+  else seenIds.add(raw.id);
+
+  const knownTypes = Object.values(GardenElementType) as string[];
+  if (typeof raw.type !== 'string' || !knownTypes.includes(raw.type)) {
+    issues.push(`${label}: unknown type ${JSON.stringify(raw.type)}. Expected one of: ${knownTypes.join(', ')}.`);
+  }
+
+  Object.keys(raw).filter((k) => !ELEMENT_KEYS.includes(k)).forEach((k) => issues.push(`${label}: unexpected field "${k}".`));
+
+  if (raw.position !== undefined && !isVec3(raw.position)) issues.push(`${label}: "position" must be [x, y, z].`);
+  if (raw.rotation !== undefined && !isVec3(raw.rotation)) issues.push(`${label}: "rotation" must be [x, y, z] in radians.`);
+  if (raw.scale !== undefined) {
+    const validScale = (isFiniteNumber(raw.scale) && raw.scale > 0) || (isVec3(raw.scale) && raw.scale.every((s) => s > 0));
+    if (!validScale) issues.push(`${label}: "scale" must be a positive number or [x, y, z].`);
+  }
+
+  const props: Record<string, GardenElementPropValue> = {};
+  if (raw.props !== undefined && !isObject(raw.props)) {
+    issues.push(`${label}: "props" must be an object.`);
+  } else if (raw.props && knownTypes.includes(raw.type as string)) {
+    const schema = GARDEN_ELEMENT_PROPS[raw.type as GardenElementType];
+    Object.entries(raw.props).forEach(([key, value]) => {
+      if (!schema[key]) {
+        const allowed = Object.keys(schema);
+        issues.push(`${label}: ${raw.type} has no prop "${key}"${allowed.length ? ` (allowed: ${allowed.join(', ')})` : ''}.`);
+        return;
+      }
+      const problem = checkProp(value, schema[key]);
+      if (problem) issues.push(`${label}: prop "${key}" ${problem}.`);
+      else props[key] = value as GardenElementPropValue;
+    });
+  }
+
+  if (issues.length > before) return null;
+  return {
+    id: raw.id as string,
+    type: raw.type as GardenElementType,
+    position: (raw.position as Vec3) ?? [0, 0, 0],
+    rotation: (raw.rotation as Vec3) ?? [0, 0, 0],
+    scale: (raw.scale as number | Vec3) ?? 1,
+    props
+  };
+};
+
+export const parseGardenLayout = (data: unknown): GardenLayout => {
+  if (!isObject(data)) throw new GardenLayoutError(['Layout must be a JSON object.']);
+
+  const issues: string[] = [];
+  checkVersion(data.version, GARDEN_LAYOUT_VERSION, issues);
+  if (data.name !== undefined && typeof data.name !== 'string') issues.push('"name" must be a string.');
+
+  const seenIds = new Set<string>();
+  const elements = parseEntries(data, 'elements', (raw, i, found) => parseElement(raw, i, seenIds, found), issues);
+  if (issues.length) throw new GardenLayoutError(issues);
+
+  return {
+    version: GARDEN_LAYOUT_VERSION,
+    name: (data.name as string | undefined) ?? 'Untitled Garden',
+    elements
+  };
+};
+
+export const loadGardenLayout = async (url: string): Promise<GardenLayout> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new GardenLayoutError([`Could not fetch "${url}" (HTTP ${res.status}).`]);
+  let data: unknown;
+  try {
+    data = await res.json();
+  } catch {
+    throw new GardenLayoutError([`"${url}" is not valid JSON.`]);
+  }
+  return parseGardenLayout(data);
+};
+
+export const DEFAULT_GARDEN_LAYOUT: GardenLayout = parseGardenLayout(defaultLayoutJson);
+
+const LAYOUT_STORAGE_KEY = 'zen-garden.layout';
+
+export const saveLayoutLocally = (layout: GardenLayout) => localStorage.setItem(LAYOUT_STORAGE_KEY, serializeGardenLayout(layout));
+
+export const clearLocalLayout = () => localStorage.removeItem(LAYOUT_STORAGE_KEY);
+
+// A stale or hand-broken saved layout shouldn't block the default garden
+export const loadLocalLayout = (): GardenLayout | null => {
+  const json = localStorage.getItem(LAYOUT_STORAGE_KEY);
+  if (!json) return null;
+  try {
+    return parseGardenLayout(JSON.parse(json));
+  } catch (err) {
+    logRecovered('Ignoring saved garden layout:', err);
+    return null;
+  }
+};
+
+// --- Layout Editing ---
+// Pure helpers: each returns a new layout so edits stay plain React state updates
+
+export const createElementId = (layout: GardenLayout, type: GardenElementType) => {
+  const base = type.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+  const taken = new Set(layout.elements.map((el) => el.id));
+  let n = 1;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+export const addElement = (layout: GardenLayout, type: GardenElementType, position: Vec3 = [0, 0, 0]): [GardenLayout, string] => {
+  const id = createElementId(layout, type);
+  const element: GardenElementSpec = { id, type, position, rotation: [0, 0, 0], scale: 1, props: {} };
+  return [{ ...layout, elements: [...layout.elements, element] }, id];
+};
+
+export const duplicateElement = (layout: GardenLayout, id: string): [GardenLayout, string | null] => {
+  const source = layout.elements.find((el) => el.id === id);
+  if (!source) return [layout, null];
+  const copyId = createElementId(layout, source.type);
+  const [x, y, z] = source.position;
+  const copy: GardenElementSpec = { ...source, id: copyId, position: [x + 1, y, z + 1], props: { ...source.props } };
+  return [{ ...layout, elements: [...layout.elements, copy] }, copyId];
+};
+
+export const removeElement = (layout: GardenLayout, id: string): GardenLayout => ({
+  ...layout,
+  elements: layout.elements.filter((el) => el.id !== id)
+});
+
+export const updateElement = (layout: GardenLayout, id: string, patch: Partial<Omit<GardenElementSpec, 'id' | 'type'>>): GardenLayout => ({
+  ...layout,
+  elements: layout.elements.map((el) => el.id === id ? { ...el, ...patch } : el)
+});
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+const roundVec = (v: Vec3): Vec3 => [round(v[0]), round(v[1]), round(v[2])];
+
+// Omits default transforms and empty props to keep saved files readable
+export const serializeGardenLayout = (layout: GardenLayout): string => JSON.stringify({
+  version: GARDEN_LAYOUT_VERSION,
+  name: layout.name,
+  elements: layout.elements.map(({ id, type, position, rotation, scale, props }) => ({
+    id,
+    type,
+    ...(position.some((c) => c !== 0) && { position: roundVec(position) }),
+    ...(rotation.some((c) => c !== 0) && { rotation: roundVec(rotation) }),
+    ...(scale !== 1 && { scale: typeof scale === 'number' ? round(scale) : roundVec(scale) }),
+    ...(Object.keys(props).length > 0 && { props })
+  }))
+}, null, 2);
@@ -0,0 +1,167 @@
+// --- GIF Encoder ---
+// A small animated GIF89a writer for the clip recorder: one fixed 6×7×6 colour cube shared by
+// every frame (ordered dithering hides the banding), LZW-compressed frames and an endless loop.
+// Frames are compressed as they arrive, so only the encoded bytes are held.
+
+const LEVELS_R = 6, LEVELS_G = 7, LEVELS_B = 6;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+// 4×4 Bayer thresholds, centred on zero
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map((v) => (v + 0.5) / 16 - 0.5);
+
+const colorTable = () => {
+  const table = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < LEVELS_R; r++)
+    for (let g = 0; g < LEVELS_G; g++)
+      for (let b = 0; b < LEVELS_B; b++) {
+        table[i++] = Math.round((r * 255) / (LEVELS_R - 1));
+        table[i++] = Math.round((g * 255) / (LEVELS_G - 1));
+        table[i++] = Math.round((b * 255) / (LEVELS_B - 1));
+      }
+  return table;
+};
+
+const level = (value: number, levels: number, threshold: number) =>
+  Math.min(levels - 1, Math.max(0, Math.round((value / 255) * (levels - 1) + threshold)));
+
+const quantize = (rgba: Uint8ClampedArray, width: number, height: number) => {
+  const indices = new Uint8Array(width * height);
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p++) {
+      const t = BAYER[(y & 3) * 4 + (x & 3)];
+      const o = p * 4;
+      indices[p] = level(rgba[o], LEVELS_R, t) * LEVELS_G * LEVELS_B + level(rgba[o + 1], LEVELS_G, t) * LEVELS_B + level(rgba[o + 2], LEVELS_B, t);
+    }
+  }
+  return indices;
+};
+
+// Growable byte buffer
+const createBytes = () => {
+  const parts: Uint8Array[] = [];
+  let chunk = new Uint8Array(64 * 1024);
+  let length = 0;
+  const byte = (b: number) => {
+    if (length === chunk.length) {
+      parts.push(chunk);
+      chunk = new Uint8Array(chunk.length);
+      length = 0;
+    }
+    chunk[length++] = b;
+  };
+  return {
+    byte,
+    word(w: number) {
+      byte(w & 0xff);
+      byte((w >> 8) & 0xff);
+    },
+    bytes(values: ArrayLike<number>) {
+      for (let i = 0; i < values.length; i++) byte(values[i]);
+    },
+    text(s: string) {
+      for (let i = 0; i < s.length; i++) byte(s.charCodeAt(i));
+    },
+    parts() {
+      return [...parts, chunk.slice(0, length)];
+    }
+  };
+};
+
+type Bytes = ReturnType<typeof createBytes>;
+
+// LZW codes, packed least significant bit first into sub-blocks of at most 255 bytes
+const writeImageData = (out: Bytes, indices: Uint8Array) => {
+  const clear = 1 << MIN_CODE_SIZE, end = clear + 1;
+  const block = new Uint8Array(255);
+  let blockLength = 0, bits = 0, bitCount = 0;
+
+  const flushBlock = () => {
+    if (!blockLength) return;
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const emit = (code: number, size: number) => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      if (blockLength === 255) flushBlock();
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  let codeSize = MIN_CODE_SIZE + 1;
+  let next = end + 1;
+  const table = new Map<number, number>();
+  emit(clear, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (next === MAX_CODES) {
+      emit(clear, codeSize);
+      table.clear();
+      next = end + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      table.set(key, next++);
+    }
+    prefix = k;
+  }
+  emit(prefix, codeSize);
+  emit(end, codeSize);
+  if (bitCount > 0) emit(0, 8 - bitCount);
+  flushBlock();
+  out.byte(0);
+};
+
+export const createGifEncoder = (width: number, height: number) => {
+  const out = createBytes();
+  out.text('GIF89a');
+  out.word(width);
+  out.word(height);
+  // Global colour table of 256 entries, 8 bits per primary
+  out.byte(0xf7);
+  out.byte(0);
+  out.byte(0);
+  out.bytes(colorTable());
+  // Loop forever
+  out.byte(0x21); out.byte(0xff); out.byte(11);
+  out.text('NETSCAPE2.0');
+  out.byte(3); out.byte(1); out.word(0); out.byte(0);
+
+  return {
+    // `delay` is how long this frame shows, in hundredths of a second (the GIF's own unit)
+    addFrame(rgba: Uint8ClampedArray, delay: number) {
+      // Graphic control: each frame replaces the last, no transparency
+      out.byte(0x21); out.byte(0xf9); out.byte(4);
+      out.byte(0x04);
+      out.word(delay);
+      out.byte(0);
+      out.byte(0);
+      // Image descriptor covering the whole canvas, using the global table
+      out.byte(0x2c);
+      out.word(0); out.word(0);
+      out.word(width); out.word(height);
+      out.byte(0);
+      writeImageData(out, quantize(rgba, width, height));
+    },
+
+    finish() {
+      out.byte(0x3b);
+      return new Blob(out.parts() as BlobPart[], { type: 'image/gif' });
+    }
+  };
+};
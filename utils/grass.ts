@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { GroundClearing } from '../types';
+import { RandomFn } from './random';
+
+// --- Grass Field ---
+// Blades are scattered once into square chunks and never touched by the CPU again: wind sway,
+// bending away from the pointer and the camera, and distance thinning all happen in the vertex
+// shader. Per frame the CPU only sets a few uniforms and trims each chunk's instance count, so
+// the cost does not grow with the blade count.
+
+export const BLADE_HEIGHT = 0.45;
+export const GRASS_GROUND = -0.15;
+export const GRASS_BENDERS = 2;
+
+const CHUNK_SIZE = 8;
+// Full density up to LOD_NEAR from the viewer, thinning to LOD_MIN by LOD_FAR
+const LOD_NEAR = 10;
+const LOD_FAR = 38;
+const LOD_MIN = 0.12;
+// Blades fade out over this much rank before they are dropped, so thinning doesn't pop
+const LOD_FADE = 0.08;
+const PLACEMENT_TRIES = 8;
+
+export interface GrassChunk {
+  center: THREE.Vector2;
+  // Half-diagonal, for the nearest-point distance
+  reach: number;
+  matrices: Float32Array;
+  // 0..1 per blade, ascending: the blades that survive thinning are always the first ones
+  ranks: Float32Array;
+  count: number;
+}
+
+export const grassDensity = (distance: number) =>
+  THREE.MathUtils.clamp(1 - (distance - LOD_NEAR) / (LOD_FAR - LOD_NEAR), LOD_MIN, 1);
+
+const inClearing = (x: number, z: number, clearings: GroundClearing[]) =>
+  clearings.some((c) => (x - c.x) ** 2 + (z - c.z) ** 2 < c.radius * c.radius);
+
+export const scatterGrass = (count: number, area: number, clearings: GroundClearing[], random: RandomFn): GrassChunk[] => {
+  const cells = Math.max(1, Math.ceil(area / CHUNK_SIZE));
+  const cellSize = area / cells;
+  const blades: { x: number; z: number; scale: number; rotation: number; lean: number; rank: number }[][] =
+    new Array(cells * cells).fill(0).map(() => []);
+
+  for (let i = 0; i < count; i++) {
+    // Blades that land on a clearing try again elsewhere, so the field keeps its count
+    let x = 0, z = 0, tries = 0;
+    do {
+      x = (random() - 0.5) * area;
+      z = (random() - 0.5) * area;
+    } while (inClearing(x, z, clearings) && ++tries < PLACEMENT_TRIES);
+    const scale = 0.6 + random() * 0.8, rotation = random() * Math.PI, lean = random() * 0.4, rank = random();
+    if (tries === PLACEMENT_TRIES) continue;
+    const cx = Math.min(cells - 1, Math.floor((x + area / 2) / cellSize));
+    const cz = Math.min(cells - 1, Math.floor((z + area / 2) / cellSize));
+    blades[cz * cells + cx].push({ x, z, scale, rotation, lean, rank });
+  }
+
+  const dummy = new THREE.Object3D();
+  return blades.flatMap((list, cell) => {
+    if (!list.length) return [];
+    list.sort((a, b) => a.rank - b.rank);
+    const matrices = new Float32Array(list.length * 16);
+    list.forEach((b, i) => {
+      dummy.position.set(b.x, GRASS_GROUND, b.z);
+      dummy.rotation.set(b.lean, b.rotation, 0);
+      dummy.scale.setScalar(b.scale);
+      dummy.updateMatrix();
+      dummy.matrix.toArray(matrices, i * 16);
+    });
+    const cx = cell % cells, cz = Math.floor(cell / cells);
+    return [{
+      center: new THREE.Vector2((cx + 0.5) * cellSize - area / 2, (cz + 0.5) * cellSize - area / 2),
+      reach: cellSize * Math.SQRT1_2,
+      matrices,
+      ranks: Float32Array.from(list, (b) => b.rank),
+      count: list.length
+    }];
+  });
+};
+
+// How many of a chunk's blades can be visible with the viewer at (x, z): thinning is judged from the chunk's nearest point
+export const chunkDrawCount = (chunk: GrassChunk, x: number, z: number) => {
+  const nearest = Math.max(0, Math.hypot(chunk.center.x - x, chunk.center.y - z) - chunk.reach);
+  return Math.min(chunk.count, Math.ceil(chunk.count * (grassDensity(nearest) + LOD_FADE)));
+};
+
+export interface GrassUniforms {
+  uTime: { value: number };
+  uWind: { value: number };
+  // Field-local viewer position, for thinning
+  uViewer: { value: THREE.Vector3 };
+  // x, z, radius, strength
+  uBenders: { value: THREE.Vector4[] };
+}
+
+export const createGrassUniforms = (): GrassUniforms => ({
+  uTime: { value: 0 },
+  uWind: { value: 1 },
+  uViewer: { value: new THREE.Vector3() },
+  uBenders: { value: new Array(GRASS_BENDERS).fill(0).map(() => new THREE.Vector4(0, 0, 1, 0)) }
+});
+
+// Runs in field space (after the instance transform) and maps back, so lighting and shadows see the bent blade
+const GRASS_VERTEX = /* glsl */ `
+  #include <begin_vertex>
+  #ifdef USE_INSTANCING
+    vec3 bladeBase = instanceMatrix[3].xyz;
+    mat3 bladeBasis = mat3(instanceMatrix);
+    vec3 field = bladeBasis * transformed + bladeBase;
+    float rise = max(0.0, field.y - bladeBase.y);
+    float tip = clamp(position.y / ${BLADE_HEIGHT.toFixed(3)}, 0.0, 1.0);
+
+    // The same gust as utils/wind
+    float gust = (sin(uTime * 0.7 + bladeBase.x * 0.3) + sin(uTime * 1.3 + bladeBase.x * 0.8) * 0.3) * uWind;
+    float sway = 0.15 + max(0.0, gust) * 0.2;
+    vec2 push = vec2(gust * 0.1 + cos(uTime * 0.5 + bladeBase.z) * sway * 0.2, sin(uTime * 0.5 + bladeBase.x) * sway * 0.6);
+
+    for (int i = 0; i < ${GRASS_BENDERS}; i++) {
+      vec2 away = bladeBase.xz - uBenders[i].xy;
+      float d = length(away);
+      float f = (1.0 - smoothstep(0.0, uBenders[i].z, d)) * uBenders[i].w;
+      push += away / max(d, 0.001) * f * 1.4;
+    }
+    float lean = min(length(push), 1.4);
+    push = lean > 0.0 ? normalize(push) * lean : push;
+    field.xz += push * rise * tip;
+    // Bent blades get shorter rather than longer
+    field.y -= lean * lean * 0.35 * rise * tip;
+
+    // Thinning: blades past the density for their distance shrink into the ground
+    float density = clamp(1.0 - (distance(bladeBase.xz, uViewer.xz) - ${LOD_NEAR.toFixed(1)}) / ${(LOD_FAR - LOD_NEAR).toFixed(1)}, ${LOD_MIN}, 1.0);
+    field = mix(bladeBase, field, 1.0 - smoothstep(density, density + ${LOD_FADE}, bladeRank));
+
+    transformed = inverse(bladeBasis) * (field - bladeBase);
+  #endif
+`;
+
+export const addGrassWind = (material: THREE.Material, uniforms: GrassUniforms) => {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+        uniform float uTime;
+        uniform float uWind;
+        uniform vec3 uViewer;
+        uniform vec4 uBenders[${GRASS_BENDERS}];
+        attribute float bladeRank;`)
+      .replace('#include <begin_vertex>', GRASS_VERTEX);
+  };
+  material.customProgramCacheKey = () => 'grass-wind';
+};
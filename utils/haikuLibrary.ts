@@ -0,0 +1,84 @@
+import { HAIKUS, HaikuData, Season } from '../types';
+import { logRecovered } from './log';
+import { isObject, mergeLibrary, parseLibrary, ValidationError } from './validation';
+
+// --- Haiku Library ---
+// The visitor's own haiku live in localStorage alongside the built-in collection and can be
+// moved between browsers as JSON: { "version": 1, "haiku": [ { "line1": ..., ... } ] }.
+
+export const HAIKU_LIBRARY_VERSION = 1;
+
+const LIBRARY_STORAGE_KEY = 'zen-garden.haiku-library';
+
+const TEXT_FIELDS = ['line1', 'line2', 'line3', 'author', 'original', 'romaji', 'translator', 'kigo'] as const;
+const REQUIRED_FIELDS = ['line1', 'line2', 'line3'] as const;
+
+export class HaikuLibraryError extends ValidationError {
+  constructor(issues: string[]) {
+    super('haiku library', issues);
+    this.name = 'HaikuLibraryError';
+  }
+}
+
+export const createHaikuId = () => `haiku-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const parseHaiku = (raw: unknown, index: number, issues: string[]): HaikuData | null => {
+  const label = `haiku[${index}]`;
+  if (!isObject(raw)) {
+    issues.push(`${label} must be an object.`);
+    return null;
+  }
+  const before = issues.length;
+  REQUIRED_FIELDS.forEach((key) => {
+    if (typeof raw[key] !== 'string' || !(raw[key] as string).trim()) issues.push(`${label}: "${key}" must be a non-empty string.`);
+  });
+  TEXT_FIELDS.forEach((key) => {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') issues.push(`${label}: "${key}" must be a string.`);
+  });
+  const seasons = Object.values(Season) as string[];
+  if (raw.seasons !== undefined && (!Array.isArray(raw.seasons) || !raw.seasons.every((s) => seasons.includes(s)))) {
+    issues.push(`${label}: "seasons" must be a list of ${seasons.join(', ')}.`);
+  }
+  if (issues.length > before) return null;
+
+  const haiku: HaikuData = { id: typeof raw.id === 'string' && raw.id ? raw.id : createHaikuId(), line1: '', line2: '', line3: '' };
+  TEXT_FIELDS.forEach((key) => {
+    const value = (raw[key] as string | undefined)?.trim();
+    if (value) haiku[key] = value;
+  });
+  if (Array.isArray(raw.seasons) && raw.seasons.length) haiku.seasons = [...new Set(raw.seasons as Season[])];
+  return haiku;
+};
+
+export const parseHaikuLibrary = (data: unknown): HaikuData[] => {
+  const { entries, issues } = parseLibrary(data, HAIKU_LIBRARY_VERSION, 'haiku', parseHaiku);
+  if (issues.length) throw new HaikuLibraryError(issues);
+  return entries;
+};
+
+export const serializeHaikuLibrary = (haiku: HaikuData[]) => JSON.stringify({ version: HAIKU_LIBRARY_VERSION, haiku }, null, 2);
+
+export const saveHaikuLibrary = (haiku: HaikuData[]) => localStorage.setItem(LIBRARY_STORAGE_KEY, serializeHaikuLibrary(haiku));
+
+// One saved entry that no longer parses is dropped on its own rather than taking the library with it
+export const loadHaikuLibrary = (): HaikuData[] => {
+  const json = localStorage.getItem(LIBRARY_STORAGE_KEY);
+  if (!json) return [];
+  try {
+    return parseLibrary(JSON.parse(json), HAIKU_LIBRARY_VERSION, 'haiku', parseHaiku).entries;
+  } catch (err) {
+    logRecovered('Ignoring saved haiku library:', err);
+    return [];
+  }
+};
+
+export const mergeHaikuLibrary = (library: HaikuData[], incoming: HaikuData[]) => mergeLibrary(library, incoming, createHaikuId);
+
+// What the stones draw from: the built-ins plus the visitor's own, optionally only those of a season.
+// A season with nothing tagged falls back to everything rather than leaving the stones silent.
+export const haikuPool = (library: HaikuData[], season?: Season): HaikuData[] => {
+  const all = [...HAIKUS, ...library];
+  if (!season) return all;
+  const matching = all.filter((h) => h.seasons?.includes(season));
+  return matching.length ? matching : all;
+};
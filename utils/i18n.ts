@@ -0,0 +1,616 @@
+// --- Localization ---
+// Overlay text in English and Japanese. The English catalog defines the keys; the Japanese one
+// must cover all of them. `{name}` placeholders are filled from the params passed to `t`.
+// The chosen language is kept in localStorage.
+
+export type Language = 'en' | 'ja';
+
+export const LANGUAGES: { language: Language; label: string }[] = [
+  { language: 'en', label: 'EN' },
+  { language: 'ja', label: '日本語' }
+];
+
+const LANGUAGE_STORAGE_KEY = 'zen-garden.language';
+
+const EN = {
+  'intro.title': '善 ZEN',
+  'intro.subtitle': 'The Digital Sanctuary',
+  'intro.scroll': 'Scroll to Begin Journey',
+
+  'flow.title': 'Flow',
+  'flow.reading': '(Nagare)',
+  'flow.body': 'Like thoughts in meditation, the water flows endlessly. It reflects the world without judgment.',
+  'flow.hint': 'Touch the water. Observe the ripples.',
+
+  'stillness.title': 'Stillness',
+  'stillness.reading': '(Seijaku)',
+  'stillness.body': 'The rock endures the wind and rain. It anchors the spirit in the present moment.',
+  'stillness.hint': 'Click the stones to reveal haiku.',
+
+  'harmony.title': 'Harmony',
+  'harmony.reading': '(Wa)',
+  'harmony.body': 'The ceremony of tea is the worship of the beautiful among the sordid facts of everyday existence.',
+  'harmony.hint': 'Simplicity. Purity. Tranquility.',
+
+  'age.title': 'Age',
+  'age.reading': '(Sabi)',
+  'age.body': 'Beauty that comes with age. The moss growing on the rock shows us that time is not an enemy, but an artist.',
+
+  'mu.title': '無 MU',
+  'mu.body1': 'The Gate opens to the infinite.',
+  'mu.body2': 'Empty your cup so that it may be filled.',
+
+  'controls.season': 'Season',
+  'controls.cycle': 'Cycle',
+  'controls.cycleHint': 'Drift slowly through the year',
+  'controls.calendarHint': 'Follow the season and time of day outside',
+  'controls.hemisphere': 'Hemisphere',
+  'hemisphere.north': 'North',
+  'hemisphere.south': 'South',
+  'controls.time': 'Time',
+  'controls.timeOfDay': 'Time of day',
+  'controls.weather': 'Weather',
+  'controls.auto': 'Auto',
+  'controls.autoWeatherHint': 'Let the weather change by itself',
+  'controls.seed': 'Seed',
+  'controls.seedLabel': 'Garden seed',
+  'controls.newSeed': 'New',
+  'controls.newSeedHint': 'Grow a new garden',
+  'controls.language': 'Language',
+
+  'season.Spring': 'Spring',
+  'season.Summer': 'Summer',
+  'season.Autumn': 'Autumn',
+  'season.Winter': 'Winter',
+
+  'time.Dawn': 'Dawn',
+  'time.Day': 'Day',
+  'time.Sunset': 'Sunset',
+  'time.Night': 'Night',
+  'timeMode.Manual': 'Still',
+  'timeMode.Clock': 'Local',
+  'timeMode.TimeLapse': 'Lapse',
+
+  'weather.Clear': 'Clear',
+  'weather.Drizzle': 'Drizzle',
+  'weather.HeavyRain': 'Downpour',
+  'weather.Mist': 'Mist',
+  'weather.Windy': 'Windy',
+
+  'menu.haiku': 'Haiku',
+  'menu.meditate': 'Meditate',
+  'menu.quality': 'Quality',
+  'menu.edit': 'Edit Garden',
+  'menu.explore': 'Explore',
+  'menu.capture': 'Capture',
+  'menu.record': 'Record',
+  'nav.chapters': 'Chapters',
+
+  'explore.title': 'Explore',
+  'explore.walk': 'Walk',
+  'explore.orbit': 'Orbit',
+  'explore.around': 'Around',
+  'explore.walkHint': 'WASD or arrows to walk, drag to look, Shift to hurry',
+  'explore.orbitHint': 'Drag or arrows to circle, scroll or W/S to come closer',
+  'explore.return': 'Return to Tour',
+
+  'element.ZenPond': 'Pond',
+  'element.ToriiGate': 'Torii Gate',
+  'element.Lantern': 'Lantern',
+  'element.ShishiOdoshi': 'Shishi-odoshi',
+  'element.Tsukubai': 'Tsukubai',
+  'element.ZenStone': 'Stone',
+  'element.TeaCeremonyPlatform': 'Tea Platform',
+  'element.MossGarden': 'Moss Garden',
+  'element.SandGarden': 'Sand',
+  'element.GrassField': 'Grass',
+  'element.BambooGrove': 'Bamboo Grove',
+  'stone.label': 'Stone',
+  'stone.numbered': 'Stone {number}',
+  'stone.named': '{name} stone',
+  'stone.readHaiku': '{name}: read its haiku',
+
+  'koan.today': 'Koan of the Day',
+  'koan.reflect': 'Reflect',
+
+  'koan.title': 'Koan',
+  'koan.close': 'Close',
+  'koan.tabToday': 'Today',
+  'koan.tabJournal': 'Journal',
+  'koan.tabKoans': 'Koans',
+  'koan.responsePlaceholder': 'Sit with it. Write what arises.',
+  'koan.keep': 'Keep',
+  'koan.update': 'Update',
+  'koan.kept': 'Reflection kept.',
+  'koan.journalEmpty': 'Reflections you keep appear here.',
+  'koan.delete': 'Delete',
+  'koan.addTitle': 'Add a Koan',
+  'koan.textPlaceholder': 'Koan',
+  'koan.attributionPlaceholder': 'Attribution',
+  'koan.add': 'Add',
+  'koan.yours': 'Your Koans',
+  'koan.none': 'None yet.',
+  'koan.classics': 'Classics',
+  'koan.export': 'Export',
+  'koan.import': 'Import',
+  'koan.imported': 'Added {count} koans from {file}.',
+  'koan.invalidJson': '{file} is not valid JSON.',
+
+  'haiku.title': 'Haiku by {author}',
+  'haiku.unknownAuthor': 'Unknown',
+  'haiku.close': 'Close',
+  'haiku.showOriginal': 'Show original',
+  'haiku.hideOriginal': 'Translation only',
+  'haiku.translatedBy': 'Translated by {translator}',
+
+  'haikuLibrary.title': 'Haiku',
+  'haikuLibrary.close': 'Close',
+  'haikuLibrary.line': 'Line {line}',
+  'haikuLibrary.syllables': 'Estimated syllables (want {count})',
+  'haikuLibrary.author': 'Author',
+  'haikuLibrary.original': 'Japanese original (one line per verse)',
+  'haikuLibrary.romaji': 'Romaji',
+  'haikuLibrary.translator': 'Translator',
+  'haikuLibrary.kigo': 'Kigo (season word)',
+  'haikuLibrary.save': 'Save',
+  'haikuLibrary.cancel': 'Cancel',
+  'haikuLibrary.matchSeason': 'Stones speak of the current season',
+  'haikuLibrary.yours': 'Your Haiku',
+  'haikuLibrary.empty': 'None yet. Write one below.',
+  'haikuLibrary.offPattern': 'not 5-7-5',
+  'haikuLibrary.edit': 'Edit',
+  'haikuLibrary.delete': 'Delete',
+  'haikuLibrary.write': 'Write a Haiku',
+  'haikuLibrary.classics': 'Classics',
+  'haikuLibrary.library': 'Library',
+  'haikuLibrary.export': 'Export',
+  'haikuLibrary.import': 'Import',
+  'haikuLibrary.imported': 'Added {count} haiku from {file}.',
+  'haikuLibrary.invalidJson': '{file} is not valid JSON.',
+
+  'meditate.title': 'Sit',
+  'meditate.close': 'Close',
+  'meditate.duration': 'Duration',
+  'meditate.minutes': '{minutes}′',
+  'meditate.breath': 'Breath',
+  'meditate.inhale': 'In',
+  'meditate.holdIn': 'Hold',
+  'meditate.exhale': 'Out',
+  'meditate.holdOut': 'Rest',
+  'meditate.noBreath': 'Give the breath some length.',
+  'meditate.interval': 'Interval Bell',
+  'meditate.noInterval': 'None',
+  'meditate.place': 'Place',
+  'meditate.begin': 'Begin',
+  'meditate.journal': 'Journal',
+  'meditate.journalUnavailable': 'The session log is unavailable in this browser.',
+  'meditate.noSittings': 'No sittings yet.',
+  'meditate.totals': '{count} sittings · {minutes} minutes',
+  'pacing.even': 'Even',
+  'pacing.calm': 'Calm',
+  'pacing.box': 'Box',
+  'pacing.relax': '4-7-8',
+  'waypoint.pond': 'Pond',
+  'waypoint.stone': 'Stones',
+  'waypoint.tea': 'Tea House',
+  'waypoint.moss': 'Moss',
+  'waypoint.sky': 'Sky',
+
+  'breath.inhale': 'Breathe in',
+  'breath.holdIn': 'Hold',
+  'breath.exhale': 'Breathe out',
+  'breath.holdOut': 'Rest',
+  'breath.finished': 'Be well',
+  'breath.end': 'End',
+  'breath.return': 'Return',
+
+  'audio.sound': 'Sound',
+  'audio.muted': 'Muted',
+  'audio.volume': 'Ambient volume',
+
+  'rake.start': 'Rake the Sand',
+  'rake.done': 'Done Raking',
+  'rakeWidth.Narrow': 'Narrow',
+  'rakeWidth.Medium': 'Medium',
+  'rakeWidth.Wide': 'Wide',
+  'rake.undo': 'Undo',
+  'rake.redo': 'Redo',
+  'rake.smooth': 'Smooth',
+  'rake.save': 'Save',
+  'rake.load': 'Load',
+  'rake.export': 'Export',
+  'rake.import': 'Import',
+  'rake.storage': 'storage',
+  'rake.empty': 'No pattern in {source}.',
+  'rake.loaded': 'Pattern loaded from {source}.',
+  'rake.saved': 'Pattern saved.',
+
+  'quality.title': 'Quality',
+  'quality.close': 'Close',
+  'quality.preset': 'Preset',
+  'qualityTier.Low': 'Low',
+  'qualityTier.Medium': 'Medium',
+  'qualityTier.High': 'High',
+  'qualityTier.Ultra': 'Ultra',
+  'quality.auto': 'Auto',
+  'quality.autoHint': 'Step the preset down when frames run slow, and back up when there is room',
+  'quality.current': 'Currently {tier}',
+  'quality.custom': 'custom',
+  'quality.on': 'On',
+  'quality.off': 'Off',
+  'quality.dpr': 'Resolution',
+  'quality.shadowMapSize': 'Shadow Detail',
+  'quality.softShadowSamples': 'Soft Shadows',
+  'quality.reflectorResolution': 'Reflections',
+  'quality.grassDensity': 'Grass',
+  'quality.starCount': 'Stars',
+  'quality.postprocessing': 'Post Effects',
+  'quality.depthOfField': 'Depth of Field',
+  'quality.usePreset': 'Use Preset Values',
+
+  'editor.title': 'Garden Editor',
+  'editor.done': 'Done',
+  'editor.tool': 'Tool',
+  'transform.translate': 'Move',
+  'transform.rotate': 'Rotate',
+  'transform.scale': 'Scale',
+  'editor.selection': 'Selection',
+  'editor.position': 'Position {value}',
+  'editor.rotation': 'Rotation {value}',
+  'editor.scale': 'Scale {value}',
+  'editor.duplicate': 'Duplicate',
+  'editor.delete': 'Delete',
+  'editor.nothingSelected': 'Click an element in the garden or pick one below.',
+  'editor.elements': 'Elements',
+  'editor.add': 'Add',
+  'editor.layout': 'Layout',
+  'editor.save': 'Save',
+  'editor.export': 'Export',
+  'editor.import': 'Import',
+  'editor.reset': 'Reset',
+  'editor.saved': 'Garden saved in this browser.',
+  'editor.loaded': 'Loaded {file}.',
+  'editor.invalidJson': '{file} is not valid JSON.',
+
+  'capture.title': 'Poster',
+  'capture.close': 'Close',
+  'capture.size': 'Size',
+  'capture.landscape': 'Landscape',
+  'capture.portrait': 'Portrait',
+  'capture.text': 'Text',
+  'capture.haiku': 'Haiku',
+  'capture.season': 'Season',
+  'capture.reduced': 'Reduced from {width} × {height}, more than this device can render',
+  'capture.noHaiku': 'Open a stone\'s haiku to set it on the poster',
+  'capture.save': 'Save PNG',
+  'capture.working': 'Rendering…',
+  'capture.failed': 'The poster could not be made',
+  'record.title': 'Clip',
+  'record.close': 'Close',
+  'record.duration': 'Length',
+  'record.seconds': '{seconds} s',
+  'record.framerate': 'Frame rate',
+  'record.output': 'Output',
+  'record.loop': 'Seamless loop',
+  'record.loopHint': 'Season, weather and time hold still; the end fades into the start',
+  'record.liveHint': 'Records the garden as it changes',
+  'record.noVideo': 'This browser cannot record video; the clip is saved as GIF',
+  'record.start': 'Record',
+  'record.cancel': 'Recording {percent}% · Cancel',
+  'record.failed': 'The clip could not be recorded',
+
+  'layout.error': 'Garden layout could not be loaded',
+  'loading': 'Preparing the garden {percent}%'
+};
+
+export type MessageKey = keyof typeof EN;
+
+const JA: Record<MessageKey, string> = {
+  'intro.title': '善',
+  'intro.subtitle': 'デジタルの聖域',
+  'intro.scroll': 'スクロールして旅を始める',
+
+  'flow.title': '流れ',
+  'flow.reading': '（ながれ）',
+  'flow.body': '瞑想の中の思いのように、水は絶え間なく流れる。裁くことなく、世界を映す。',
+  'flow.hint': '水に触れ、波紋を見つめる。',
+
+  'stillness.title': '静寂',
+  'stillness.reading': '（せいじゃく）',
+  'stillness.body': '岩は風雨に耐える。心を今この瞬間につなぎとめる。',
+  'stillness.hint': '石に触れると俳句が現れる。',
+
+  'harmony.title': '和',
+  'harmony.reading': '（わ）',
+  'harmony.body': '茶の湯とは、日々の雑事のなかに美を崇める営みである。',
+  'harmony.hint': '簡素。清浄。静寂。',
+
+  'age.title': '寂',
+  'age.reading': '（さび）',
+  'age.body': '年月とともに宿る美。岩に生す苔は、時が敵ではなく芸術家であることを教えてくれる。',
+
+  'mu.title': '無',
+  'mu.body1': '門は無限へと開かれる。',
+  'mu.body2': '満たされるために、器を空にせよ。',
+
+  'controls.season': '季節',
+  'controls.cycle': '巡り',
+  'controls.cycleHint': 'ゆっくりと一年を巡る',
+  'controls.calendarHint': '外と同じ季節と時刻にする',
+  'controls.hemisphere': '半球',
+  'hemisphere.north': '北半球',
+  'hemisphere.south': '南半球',
+  'controls.time': '時刻',
+  'controls.timeOfDay': '時刻',
+  'controls.weather': '天気',
+  'controls.auto': '自動',
+  'controls.autoWeatherHint': '天気の移ろいにまかせる',
+  'controls.seed': '種',
+  'controls.seedLabel': '庭の種',
+  'controls.newSeed': '新しく',
+  'controls.newSeedHint': '新しい庭を育てる',
+  'controls.language': '言語',
+
+  'season.Spring': '春',
+  'season.Summer': '夏',
+  'season.Autumn': '秋',
+  'season.Winter': '冬',
+
+  'time.Dawn': '夜明け',
+  'time.Day': '昼',
+  'time.Sunset': '夕暮れ',
+  'time.Night': '夜',
+  'timeMode.Manual': '静止',
+  'timeMode.Clock': '現在',
+  'timeMode.TimeLapse': '早送り',
+
+  'weather.Clear': '晴れ',
+  'weather.Drizzle': '小雨',
+  'weather.HeavyRain': '大雨',
+  'weather.Mist': '霧',
+  'weather.Windy': '風',
+
+  'menu.haiku': '俳句',
+  'menu.meditate': '坐禅',
+  'menu.quality': '画質',
+  'menu.edit': '庭を編集',
+  'menu.explore': '散策',
+  'menu.capture': '撮影',
+  'menu.record': '録画',
+  'nav.chapters': '章',
+
+  'explore.title': '散策',
+  'explore.walk': '歩く',
+  'explore.orbit': '巡る',
+  'explore.around': '周りを巡る',
+  'explore.walkHint': 'WASD・矢印キーで歩き、ドラッグで見回す。Shiftで急ぐ',
+  'explore.orbitHint': 'ドラッグ・矢印キーで巡り、スクロール・W/Sで近づく',
+  'explore.return': '順路に戻る',
+
+  'element.ZenPond': '池',
+  'element.ToriiGate': '鳥居',
+  'element.Lantern': '石灯籠',
+  'element.ShishiOdoshi': '鹿威し',
+  'element.Tsukubai': '蹲踞',
+  'element.ZenStone': '石',
+  'element.TeaCeremonyPlatform': '茶席',
+  'element.MossGarden': '苔庭',
+  'element.SandGarden': '砂',
+  'element.GrassField': '草地',
+  'element.BambooGrove': '竹林',
+  'stone.label': '石',
+  'stone.numbered': '石 {number}',
+  'stone.named': '{name}の石',
+  'stone.readHaiku': '{name}：句を読む',
+
+  'koan.today': '今日の公案',
+  'koan.reflect': '省みる',
+
+  'koan.title': '公案',
+  'koan.close': '閉じる',
+  'koan.tabToday': '今日',
+  'koan.tabJournal': '記録',
+  'koan.tabKoans': '公案集',
+  'koan.responsePlaceholder': '共に坐り、浮かぶことを書きとめる。',
+  'koan.keep': '残す',
+  'koan.update': '書き直す',
+  'koan.kept': '省察を残しました。',
+  'koan.journalEmpty': '残した省察はここに並びます。',
+  'koan.delete': '削除',
+  'koan.addTitle': '公案を加える',
+  'koan.textPlaceholder': '公案',
+  'koan.attributionPlaceholder': '出典',
+  'koan.add': '加える',
+  'koan.yours': 'あなたの公案',
+  'koan.none': 'まだありません。',
+  'koan.classics': '古典',
+  'koan.export': '書き出す',
+  'koan.import': '読み込む',
+  'koan.imported': '{file}から公案を{count}件加えました。',
+  'koan.invalidJson': '{file}は正しいJSONではありません。',
+
+  'haiku.title': '{author}の俳句',
+  'haiku.unknownAuthor': '詠み人知らず',
+  'haiku.close': '閉じる',
+  'haiku.showOriginal': '原文を表示',
+  'haiku.hideOriginal': '訳のみ',
+  'haiku.translatedBy': '訳：{translator}',
+
+  'haikuLibrary.title': '俳句',
+  'haikuLibrary.close': '閉じる',
+  'haikuLibrary.line': '{line}行目',
+  'haikuLibrary.syllables': '推定の音節数（目安 {count}）',
+  'haikuLibrary.author': '作者',
+  'haikuLibrary.original': '原文（一行ずつ）',
+  'haikuLibrary.romaji': 'ローマ字',
+  'haikuLibrary.translator': '訳者',
+  'haikuLibrary.kigo': '季語',
+  'haikuLibrary.save': '保存',
+  'haikuLibrary.cancel': 'やめる',
+  'haikuLibrary.matchSeason': '石は今の季節を詠む',
+  'haikuLibrary.yours': 'あなたの俳句',
+  'haikuLibrary.empty': 'まだありません。下から詠んでみましょう。',
+  'haikuLibrary.offPattern': '五七五ではない',
+  'haikuLibrary.edit': '編集',
+  'haikuLibrary.delete': '削除',
+  'haikuLibrary.write': '俳句を詠む',
+  'haikuLibrary.classics': '古典',
+  'haikuLibrary.library': 'ライブラリ',
+  'haikuLibrary.export': '書き出す',
+  'haikuLibrary.import': '読み込む',
+  'haikuLibrary.imported': '{file}から俳句を{count}句加えました。',
+  'haikuLibrary.invalidJson': '{file}は正しいJSONではありません。',
+
+  'meditate.title': '坐る',
+  'meditate.close': '閉じる',
+  'meditate.duration': '時間',
+  'meditate.minutes': '{minutes}分',
+  'meditate.breath': '呼吸',
+  'meditate.inhale': '吸う',
+  'meditate.holdIn': '止める',
+  'meditate.exhale': '吐く',
+  'meditate.holdOut': '休む',
+  'meditate.noBreath': '呼吸に長さを与えてください。',
+  'meditate.interval': '合図の鐘',
+  'meditate.noInterval': 'なし',
+  'meditate.place': '場所',
+  'meditate.begin': '始める',
+  'meditate.journal': '記録',
+  'meditate.journalUnavailable': 'このブラウザでは坐禅の記録を使えません。',
+  'meditate.noSittings': 'まだ坐っていません。',
+  'meditate.totals': '{count}回・{minutes}分',
+  'pacing.even': '均等',
+  'pacing.calm': '穏やか',
+  'pacing.box': 'ボックス',
+  'pacing.relax': '4-7-8',
+  'waypoint.pond': '池',
+  'waypoint.stone': '石',
+  'waypoint.tea': '茶室',
+  'waypoint.moss': '苔',
+  'waypoint.sky': '空',
+
+  'breath.inhale': '吸って',
+  'breath.holdIn': '止めて',
+  'breath.exhale': '吐いて',
+  'breath.holdOut': '休んで',
+  'breath.finished': 'お疲れさまでした',
+  'breath.end': '終える',
+  'breath.return': '戻る',
+
+  'audio.sound': '音',
+  'audio.muted': '消音',
+  'audio.volume': '環境音の音量',
+
+  'rake.start': '砂紋を描く',
+  'rake.done': '描き終える',
+  'rakeWidth.Narrow': '細い',
+  'rakeWidth.Medium': '普通',
+  'rakeWidth.Wide': '太い',
+  'rake.undo': '戻す',
+  'rake.redo': 'やり直す',
+  'rake.smooth': '整える',
+  'rake.save': '保存',
+  'rake.load': '呼び出す',
+  'rake.export': '書き出す',
+  'rake.import': '読み込む',
+  'rake.storage': 'このブラウザ',
+  'rake.empty': '{source}に砂紋がありません。',
+  'rake.loaded': '{source}から砂紋を読み込みました。',
+  'rake.saved': '砂紋を保存しました。',
+
+  'quality.title': '画質',
+  'quality.close': '閉じる',
+  'quality.preset': 'プリセット',
+  'qualityTier.Low': '低',
+  'qualityTier.Medium': '中',
+  'qualityTier.High': '高',
+  'qualityTier.Ultra': '最高',
+  'quality.auto': '自動',
+  'quality.autoHint': '動きが重いときは画質を下げ、余裕があれば戻す',
+  'quality.current': '現在：{tier}',
+  'quality.custom': '変更あり',
+  'quality.on': '入',
+  'quality.off': '切',
+  'quality.dpr': '解像度',
+  'quality.shadowMapSize': '影の精細さ',
+  'quality.softShadowSamples': 'やわらかな影',
+  'quality.reflectorResolution': '映り込み',
+  'quality.grassDensity': '草',
+  'quality.starCount': '星',
+  'quality.postprocessing': '後処理',
+  'quality.depthOfField': '被写界深度',
+  'quality.usePreset': 'プリセットの値に戻す',
+
+  'editor.title': '庭の編集',
+  'editor.done': '完了',
+  'editor.tool': '道具',
+  'transform.translate': '移動',
+  'transform.rotate': '回転',
+  'transform.scale': '拡大縮小',
+  'editor.selection': '選択中',
+  'editor.position': '位置 {value}',
+  'editor.rotation': '回転 {value}',
+  'editor.scale': '大きさ {value}',
+  'editor.duplicate': '複製',
+  'editor.delete': '削除',
+  'editor.nothingSelected': '庭の要素をクリックするか、下の一覧から選んでください。',
+  'editor.elements': '要素',
+  'editor.add': '加える',
+  'editor.layout': '配置',
+  'editor.save': '保存',
+  'editor.export': '書き出す',
+  'editor.import': '読み込む',
+  'editor.reset': '元に戻す',
+  'editor.saved': '庭をこのブラウザに保存しました。',
+  'editor.loaded': '{file}を読み込みました。',
+  'editor.invalidJson': '{file}は正しいJSONではありません。',
+
+  'capture.title': 'ポスター',
+  'capture.close': '閉じる',
+  'capture.size': '大きさ',
+  'capture.landscape': '横',
+  'capture.portrait': '縦',
+  'capture.text': '文字',
+  'capture.haiku': '俳句',
+  'capture.season': '季節',
+  'capture.reduced': '{width} × {height} はこの端末で描ける大きさを超えるため縮小します',
+  'capture.noHaiku': '石の俳句を開くと、ポスターに添えられます',
+  'capture.save': 'PNGで保存',
+  'capture.working': '描画中…',
+  'capture.failed': 'ポスターを作れませんでした',
+  'record.title': '動画',
+  'record.close': '閉じる',
+  'record.duration': '長さ',
+  'record.seconds': '{seconds}秒',
+  'record.framerate': 'フレームレート',
+  'record.output': '書き出し',
+  'record.loop': '継ぎ目なく繰り返す',
+  'record.loopHint': '季節・天気・時刻を止め、終わりを始まりへ溶け込ませます',
+  'record.liveHint': '移りゆく庭をそのまま録ります',
+  'record.noVideo': 'このブラウザは動画を録れないため、GIFで保存します',
+  'record.start': '録画',
+  'record.cancel': '録画中 {percent}%・中止',
+  'record.failed': '動画を録れませんでした',
+
+  'layout.error': '庭の配置を読み込めませんでした',
+  'loading': '庭を整えています {percent}%'
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en: EN, ja: JA };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const createTranslator = (language: Language): Translate => (key, params) => {
+  const message = CATALOGS[language][key] ?? EN[key];
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+};
+
+const isLanguage = (value: unknown): value is Language => LANGUAGES.some((l) => l.language === value);
+
+export const loadLanguage = (): Language => {
+  const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (isLanguage(saved)) return saved;
+  return navigator.language.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+};
+
+export const saveLanguage = (language: Language) => localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
@@ -0,0 +1,106 @@
+import { KoanData, KoanReflection, ZEN_KOANS } from '../types';
+import { hashString } from './random';
+import { logRecovered } from './log';
+import { isObject, mergeLibrary, parseLibrary, ValidationError } from './validation';
+
+// --- Koans ---
+// One koan a day, the same for everyone on that calendar day. Visitors can add their own
+// koans (kept and exchanged like the haiku library: { "version": 1, "koans": [...] }) and
+// keep a local journal of reflections, one per day.
+
+export const KOAN_LIBRARY_VERSION = 1;
+
+const LIBRARY_STORAGE_KEY = 'zen-garden.koan-library';
+const REFLECTIONS_STORAGE_KEY = 'zen-garden.koan-reflections';
+
+export class KoanLibraryError extends ValidationError {
+  constructor(issues: string[]) {
+    super('koan library', issues);
+    this.name = 'KoanLibraryError';
+  }
+}
+
+export const createKoanId = () => `koan-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Local calendar day, so the koan turns over at the visitor's midnight
+export const dayKey = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const koanPool = (library: KoanData[]): KoanData[] => [...ZEN_KOANS, ...library];
+
+export const koanForDay = (pool: KoanData[], day = dayKey()) => pool[hashString(`koan:${day}`) % pool.length];
+
+// Today's koan, unless the visitor already reflected on a different one today (e.g. before adding koans)
+export const todaysKoan = (library: KoanData[]) => {
+  const day = dayKey();
+  return loadReflections().find((r) => r.day === day)?.koan ?? koanForDay(koanPool(library), day);
+};
+
+// --- Library ---
+
+const parseKoan = (raw: unknown, index: number, issues: string[]): KoanData | null => {
+  if (!isObject(raw)) {
+    issues.push(`koans[${index}] must be an object.`);
+    return null;
+  }
+  const before = issues.length;
+  if (typeof raw.text !== 'string' || !raw.text.trim()) issues.push(`koans[${index}]: "text" must be a non-empty string.`);
+  if (raw.attribution !== undefined && typeof raw.attribution !== 'string') issues.push(`koans[${index}]: "attribution" must be a string.`);
+  if (issues.length > before) return null;
+  const attribution = typeof raw.attribution === 'string' ? raw.attribution.trim() : '';
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createKoanId(),
+    text: (raw.text as string).trim(),
+    ...(attribution && { attribution })
+  };
+};
+
+export const parseKoanLibrary = (data: unknown): KoanData[] => {
+  const { entries, issues } = parseLibrary(data, KOAN_LIBRARY_VERSION, 'koans', parseKoan);
+  if (issues.length) throw new KoanLibraryError(issues);
+  return entries;
+};
+
+export const serializeKoanLibrary = (koans: KoanData[]) => JSON.stringify({ version: KOAN_LIBRARY_VERSION, koans }, null, 2);
+
+export const saveKoanLibrary = (koans: KoanData[]) => localStorage.setItem(LIBRARY_STORAGE_KEY, serializeKoanLibrary(koans));
+
+// Like the haiku library, a saved koan that no longer parses is dropped without the rest
+export const loadKoanLibrary = (): KoanData[] => {
+  const json = localStorage.getItem(LIBRARY_STORAGE_KEY);
+  if (!json) return [];
+  try {
+    return parseLibrary(JSON.parse(json), KOAN_LIBRARY_VERSION, 'koans', parseKoan).entries;
+  } catch (err) {
+    logRecovered('Ignoring saved koan library:', err);
+    return [];
+  }
+};
+
+export const mergeKoanLibrary = (library: KoanData[], incoming: KoanData[]) => mergeLibrary(library, incoming, createKoanId);
+
+// --- Reflections ---
+
+// Newest day first
+export const loadReflections = (): KoanReflection[] => {
+  try {
+    const list = JSON.parse(localStorage.getItem(REFLECTIONS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(list) ? (list as KoanReflection[]).sort((a, b) => b.day.localeCompare(a.day)) : [];
+  } catch (err) {
+    logRecovered('Ignoring saved koan reflections:', err);
+    return [];
+  }
+};
+
+// Saving again on the same day replaces that day's reflection
+export const saveReflection = (reflection: KoanReflection): KoanReflection[] => {
+  const next = [reflection, ...loadReflections().filter((r) => r.day !== reflection.day)];
+  localStorage.setItem(REFLECTIONS_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const deleteReflection = (day: string): KoanReflection[] => {
+  const next = loadReflections().filter((r) => r.day !== day);
+  localStorage.setItem(REFLECTIONS_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,163 @@
+import { RandomFn } from './random';
+
+// --- Koi School ---
+// Boids in the pond plane (pond-local x/z): separation, alignment and cohesion keep the fish
+// loosely schooled, a soft wall keeps them inside the stone ring, and each fish drifts
+// between gliding and lazy idling. Floating food within sensing range overrides all of that.
+
+export const POND_RADIUS = 6;
+
+export interface Koi {
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  // Personal rhythm for idling and tail beat
+  phase: number;
+  // Slowly wandering preferred heading offset
+  wander: number;
+}
+
+export interface KoiObstacle {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export interface KoiFood {
+  x: number;
+  z: number;
+  age: number;
+}
+
+const NEIGHBOR_RADIUS = 1.6;
+const SEPARATION_RADIUS = 0.6;
+const WALL_MARGIN = 1.4;
+const FOOD_SENSE_RADIUS = 4.5;
+const EAT_RADIUS = 0.2;
+const MIN_SPEED = 0.08;
+const CRUISE_SPEED = 0.45;
+const RACE_SPEED = 1.6;
+const MAX_FORCE = 1.8;
+
+export const FOOD_LIFETIME = 25; // seconds before an uneaten pellet dissolves
+
+export const createKoiSchool = (count: number, random: RandomFn): Koi[] =>
+  new Array(count).fill(0).map(() => {
+    const r = Math.sqrt(random()) * POND_RADIUS * 0.6, a = random() * Math.PI * 2, heading = random() * Math.PI * 2;
+    return {
+      x: Math.cos(a) * r,
+      z: Math.sin(a) * r,
+      vx: Math.sin(heading) * CRUISE_SPEED,
+      vz: Math.cos(heading) * CRUISE_SPEED,
+      phase: random() * Math.PI * 2,
+      wander: 0
+    };
+  });
+
+// Idle rhythm: long glides with the occasional near-stop, different for every fish
+const idleSpeed = (koi: Koi, time: number) => {
+  const swell = Math.sin(time * 0.23 + koi.phase) * 0.5 + Math.sin(time * 0.61 + koi.phase * 2.3) * 0.5;
+  return MIN_SPEED + (CRUISE_SPEED - MIN_SPEED) * (0.55 + swell * 0.45);
+};
+
+/**
+ * Advances the school by `delta` seconds. Returns the indices of food eaten this step
+ * (in descending order, so callers can splice them out directly).
+ */
+export const stepKoiSchool = (school: Koi[], food: KoiFood[], obstacles: KoiObstacle[], time: number, delta: number, random: RandomFn): number[] => {
+  const eaten = new Set<number>();
+  const dt = Math.min(delta, 0.05);
+
+  school.forEach((koi, i) => {
+    let fx = 0, fz = 0;
+
+    // Flocking
+    let sepX = 0, sepZ = 0, alignX = 0, alignZ = 0, centerX = 0, centerZ = 0, neighbors = 0;
+    school.forEach((other, j) => {
+      if (i === j) return;
+      const dx = koi.x - other.x, dz = koi.z - other.z;
+      const d2 = dx * dx + dz * dz;
+      if (d2 > NEIGHBOR_RADIUS * NEIGHBOR_RADIUS) return;
+      neighbors++;
+      alignX += other.vx; alignZ += other.vz;
+      centerX += other.x; centerZ += other.z;
+      if (d2 < SEPARATION_RADIUS * SEPARATION_RADIUS && d2 > 1e-6) {
+        sepX += dx / d2; sepZ += dz / d2;
+      }
+    });
+    fx += sepX * 0.35; fz += sepZ * 0.35;
+    if (neighbors) {
+      fx += (alignX / neighbors - koi.vx) * 0.4 + (centerX / neighbors - koi.x) * 0.15;
+      fz += (alignZ / neighbors - koi.vz) * 0.4 + (centerZ / neighbors - koi.z) * 0.15;
+    }
+
+    // Soft wall just inside the ring
+    const r = Math.hypot(koi.x, koi.z);
+    const inner = POND_RADIUS - WALL_MARGIN;
+    if (r > inner) {
+      const push = ((r - inner) / WALL_MARGIN) ** 2 * 4;
+      fx -= (koi.x / r) * push; fz -= (koi.z / r) * push;
+    }
+
+    // Stones: steer sideways around them rather than bouncing straight back
+    obstacles.forEach((o) => {
+      const dx = koi.x - o.x, dz = koi.z - o.z;
+      const d = Math.hypot(dx, dz);
+      const reach = o.radius + 0.5;
+      if (d > reach || d < 1e-6) return;
+      const push = (1 - d / reach) * 3;
+      fx += (dx / d) * push; fz += (dz / d) * push;
+    });
+
+    // Food: the nearest pellet in range wins over everything else
+    let target = -1, best = FOOD_SENSE_RADIUS;
+    food.forEach((f, k) => {
+      if (eaten.has(k)) return;
+      const d = Math.hypot(f.x - koi.x, f.z - koi.z);
+      if (d < best) { best = d; target = k; }
+    });
+
+    let desiredSpeed: number;
+    if (target >= 0) {
+      const f = food[target];
+      if (best < EAT_RADIUS) eaten.add(target);
+      const dx = f.x - koi.x, dz = f.z - koi.z;
+      fx += (dx / (best || 1)) * RACE_SPEED * 3 - koi.vx * 1.5;
+      fz += (dz / (best || 1)) * RACE_SPEED * 3 - koi.vz * 1.5;
+      desiredSpeed = RACE_SPEED;
+    } else {
+      // Wander: a slowly drifting turn bias
+      koi.wander = Math.max(-1, Math.min(1, koi.wander + (random() - 0.5) * dt * 2));
+      const speed = Math.hypot(koi.vx, koi.vz) || 1;
+      fx += (koi.vz / speed) * koi.wander * 0.6;
+      fz += (-koi.vx / speed) * koi.wander * 0.6;
+      desiredSpeed = idleSpeed(koi, time);
+    }
+
+    const f = Math.hypot(fx, fz);
+    if (f > MAX_FORCE * (target >= 0 ? 2 : 1)) {
+      const k = (MAX_FORCE * (target >= 0 ? 2 : 1)) / f;
+      fx *= k; fz *= k;
+    }
+    koi.vx += fx * dt;
+    koi.vz += fz * dt;
+
+    // Ease speed toward the desired pace while keeping the heading
+    const speed = Math.hypot(koi.vx, koi.vz) || 1e-6;
+    const nextSpeed = speed + (desiredSpeed - speed) * Math.min(1, dt * 1.5);
+    koi.vx *= nextSpeed / speed;
+    koi.vz *= nextSpeed / speed;
+
+    koi.x += koi.vx * dt;
+    koi.z += koi.vz * dt;
+    // Never through the ring, whatever the forces did
+    const out = Math.hypot(koi.x, koi.z);
+    if (out > POND_RADIUS - 0.3) {
+      koi.x *= (POND_RADIUS - 0.3) / out;
+      koi.z *= (POND_RADIUS - 0.3) / out;
+    }
+  });
+
+  return [...eaten].sort((a, b) => b - a);
+};
@@ -0,0 +1,5 @@
+// --- Diagnostics ---
+// Failures the garden recovers from on its own (a saved setting that no longer parses, a texture
+// painted the slow way) are noted here for developers; visitors only see errors that need them.
+
+export const logRecovered = (message: string, err?: unknown) => console.warn(message, err);
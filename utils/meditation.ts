@@ -0,0 +1,63 @@
+import { BreathPacing, MeditationRecord, WaypointId } from '../types';
+import { openGardenDb, promisifyRequest, STORE_SESSIONS } from './db';
+
+// --- Meditation Sessions ---
+
+export const SESSION_MINUTES = [5, 10, 15, 20, 30];
+export const INTERVAL_MINUTES = [0, 1, 5, 10];
+
+export const PACING_PRESETS: { id: 'even' | 'calm' | 'box' | 'relax'; pacing: BreathPacing }[] = [
+  { id: 'even', pacing: { inhale: 5, holdIn: 0, exhale: 5, holdOut: 0 } },
+  { id: 'calm', pacing: { inhale: 4, holdIn: 0, exhale: 6, holdOut: 0 } },
+  { id: 'box', pacing: { inhale: 4, holdIn: 4, exhale: 4, holdOut: 4 } },
+  { id: 'relax', pacing: { inhale: 4, holdIn: 7, exhale: 8, holdOut: 0 } }
+];
+
+export const SESSION_WAYPOINTS = ['pond', 'stone', 'tea', 'moss', 'sky'] as const satisfies readonly WaypointId[];
+
+export type BreathPhase = 'inhale' | 'holdIn' | 'exhale' | 'holdOut';
+
+export interface BreathState {
+  phase: BreathPhase;
+  // 0..1 through the current phase
+  progress: number;
+  // 0 (empty) .. 1 (full), eased, for sizing the guide
+  fullness: number;
+}
+
+const ease = (t: number) => 0.5 - Math.cos(t * Math.PI) / 2;
+
+export const breathAt = (seconds: number, pacing: BreathPacing): BreathState => {
+  const phases: [BreathPhase, number][] = [['inhale', pacing.inhale], ['holdIn', pacing.holdIn], ['exhale', pacing.exhale], ['holdOut', pacing.holdOut]];
+  const cycle = phases.reduce((sum, [, length]) => sum + length, 0);
+  let t = cycle > 0 ? seconds % cycle : 0;
+  for (const [phase, length] of phases) {
+    if (length <= 0) continue;
+    if (t < length) {
+      const progress = t / length;
+      const fullness = phase === 'inhale' ? ease(progress) : phase === 'holdIn' ? 1 : phase === 'exhale' ? 1 - ease(progress) : 0;
+      return { phase, progress, fullness };
+    }
+    t -= length;
+  }
+  return { phase: 'holdOut', progress: 0, fullness: 0 };
+};
+
+export const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// --- Session Log (IndexedDB) ---
+
+export const logSession = async (record: MeditationRecord) => {
+  const db = await openGardenDb();
+  await promisifyRequest(db.transaction(STORE_SESSIONS, 'readwrite').objectStore(STORE_SESSIONS).add(record));
+};
+
+// Newest first
+export const loadSessions = async (): Promise<MeditationRecord[]> => {
+  const db = await openGardenDb();
+  const records = await promisifyRequest(db.transaction(STORE_SESSIONS).objectStore(STORE_SESSIONS).getAll() as IDBRequest<MeditationRecord[]>);
+  return records.sort((a, b) => b.date.localeCompare(a.date));
+};
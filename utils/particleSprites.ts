@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+
+// --- Particle Sprites ---
+// Small canvas-drawn shapes for the seasonal particles. They are drawn in white and shaded only
+// through alpha and a little grey, so each particle's own color tints them.
+
+export type ParticleShape = 'petal' | 'firefly' | 'leaf' | 'snowflake';
+
+const SPRITE_SIZE = 64;
+
+const drawPetal = (ctx: CanvasRenderingContext2D, s: number) => {
+  // Sakura petal: a rounded teardrop with the notch at its broad end
+  ctx.translate(s / 2, s / 2);
+  ctx.beginPath();
+  ctx.moveTo(0, s * 0.42);
+  ctx.bezierCurveTo(s * 0.36, s * 0.2, s * 0.34, -s * 0.3, s * 0.1, -s * 0.4);
+  ctx.lineTo(0, -s * 0.3);
+  ctx.lineTo(-s * 0.1, -s * 0.4);
+  ctx.bezierCurveTo(-s * 0.34, -s * 0.3, -s * 0.36, s * 0.2, 0, s * 0.42);
+  const grad = ctx.createLinearGradient(0, s * 0.42, 0, -s * 0.4);
+  grad.addColorStop(0, '#ffffff');
+  grad.addColorStop(1, '#d8d8d8');
+  ctx.fillStyle = grad;
+  ctx.fill();
+};
+
+const drawLeaf = (ctx: CanvasRenderingContext2D, s: number) => {
+  // Maple leaf: five pointed lobes traced in polar form, plus a stem
+  ctx.translate(s / 2, s * 0.55);
+  ctx.beginPath();
+  const steps = 160;
+  for (let i = 0; i <= steps; i++) {
+    const a = (i / steps) * Math.PI * 2;
+    const lobe = Math.pow(Math.abs(Math.cos(a * 2.5)), 0.6);
+    const serration = 1 + Math.sin(a * 30) * 0.04;
+    // The lower lobes are shorter, the top lobe longest
+    const r = s * (0.14 + lobe * 0.28 * (0.65 + Math.max(0, -Math.sin(a)) * 0.35)) * serration;
+    const x = Math.cos(a) * r, y = Math.sin(a) * r;
+    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  }
+  ctx.fillStyle = '#f2f2f2';
+  ctx.fill();
+  ctx.strokeStyle = '#bdbdbd';
+  ctx.lineWidth = s * 0.025;
+  ctx.beginPath();
+  ctx.moveTo(0, s * 0.4);
+  ctx.lineTo(0, -s * 0.3);
+  ctx.stroke();
+};
+
+const drawSnowflake = (ctx: CanvasRenderingContext2D, s: number) => {
+  ctx.translate(s / 2, s / 2);
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineCap = 'round';
+  ctx.lineWidth = s * 0.05;
+  for (let i = 0; i < 6; i++) {
+    ctx.save();
+    ctx.rotate((i / 6) * Math.PI * 2);
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(0, -s * 0.42);
+    // Two pairs of side branches per arm
+    [0.2, 0.3].forEach((d) => {
+      ctx.moveTo(0, -s * d);
+      ctx.lineTo(s * 0.09, -s * (d + 0.09));
+      ctx.moveTo(0, -s * d);
+      ctx.lineTo(-s * 0.09, -s * (d + 0.09));
+    });
+    ctx.stroke();
+    ctx.restore();
+  }
+};
+
+const drawGlow = (ctx: CanvasRenderingContext2D, s: number) => {
+  const grad = ctx.createRadialGradient(s / 2, s / 2, 0, s / 2, s / 2, s / 2);
+  grad.addColorStop(0, 'rgba(255,255,255,1)');
+  grad.addColorStop(0.15, 'rgba(255,255,255,0.8)');
+  grad.addColorStop(0.45, 'rgba(255,255,255,0.15)');
+  grad.addColorStop(1, 'rgba(255,255,255,0)');
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, s, s);
+};
+
+const DRAW: Record<ParticleShape, (ctx: CanvasRenderingContext2D, s: number) => void> = {
+  petal: drawPetal,
+  firefly: drawGlow,
+  leaf: drawLeaf,
+  snowflake: drawSnowflake
+};
+
+export const createParticleSprite = (shape: ParticleShape, size = SPRITE_SIZE) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size; canvas.height = size;
+  DRAW[shape](canvas.getContext('2d')!, size);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
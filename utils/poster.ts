@@ -0,0 +1,148 @@
+import { HaikuData } from '../types';
+import { logRecovered } from './log';
+
+// --- Poster Export ---
+// The scene is rendered again at the poster's own size (see PosterCapture); this file sets the
+// haiku over it in the haiku dialog's styling (washi card, vermilion rule, mincho verse, Cinzel
+// byline) and turns the result into a PNG.
+
+export interface PosterSize {
+  label: string;
+  // Landscape; portrait swaps them
+  width: number;
+  height: number;
+}
+
+export const POSTER_SIZES: PosterSize[] = [
+  { label: 'QHD', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: 'A4 300dpi', width: 3508, height: 2480 },
+  { label: 'A3 300dpi', width: 4961, height: 3508 }
+];
+
+// The size a poster actually renders at where the GPU can't draw `limit` pixels along a side,
+// keeping its shape
+export const fitPoster = (width: number, height: number, limit: number): [number, number] => {
+  const fit = Math.min(1, limit / Math.max(width, height));
+  return [Math.floor(width * fit), Math.floor(height * fit)];
+};
+
+export interface PosterText {
+  haiku?: HaikuData;
+  // Already translated, e.g. 'Spring'
+  season?: string;
+  author?: string;
+}
+
+const PAPER = '#eaddcf';
+const INK = '#2c2c2c';
+const VERMILION = '#B7282E';
+const VERSE_FONT = '"Zen Old Mincho", serif';
+const BYLINE_FONT = '"Cinzel", serif';
+
+// Canvas text only uses a web font once it has loaded; a missing font falls back rather than failing
+const loadFonts = (verseSize: number, bylineSize: number) =>
+  Promise.all([
+    document.fonts.load(`${verseSize}px ${VERSE_FONT}`),
+    document.fonts.load(`600 ${bylineSize}px ${BYLINE_FONT}`)
+  ]).catch((err) => logRecovered('Poster fonts unavailable:', err));
+
+const setTracking = (ctx: CanvasRenderingContext2D, px: number) => {
+  // Not every browser supports letter spacing on canvas text; without it the text is just tighter
+  if ('letterSpacing' in ctx) (ctx as CanvasRenderingContext2D & { letterSpacing: string }).letterSpacing = `${px}px`;
+};
+
+// Draws the haiku card in the lower left, sized to the poster's shorter side
+const drawHaikuCard = (ctx: CanvasRenderingContext2D, width: number, height: number, text: PosterText) => {
+  const { haiku } = text;
+  const unit = Math.min(width, height);
+  const verse = unit * 0.032;
+  const byline = verse * 0.4;
+  const pad = verse * 1.8;
+  const indent = verse * 0.9;
+  const lineHeight = verse * 1.75;
+  const rule = Math.max(2, verse * 0.1);
+  const ruleGap = verse * 0.9;
+
+  ctx.font = `${verse}px ${VERSE_FONT}`;
+  const lines = haiku ? [haiku.line1, haiku.line2, haiku.line3] : [];
+  const verseWidth = Math.max(0, ...lines.map((line, i) => ctx.measureText(line).width + (i === 1 ? indent : 0)));
+  const cardWidth = Math.max(verseWidth + rule + ruleGap, unit * 0.28) + pad * 2;
+  const bylineBlock = byline * 4;
+  const cardHeight = pad * 2 + lines.length * lineHeight + (text.author ? bylineBlock : 0) + (text.season ? byline * 3 : 0);
+  const margin = unit * 0.05;
+  const x = margin, y = height - margin - cardHeight;
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+  ctx.shadowBlur = unit * 0.03;
+  ctx.shadowOffsetY = unit * 0.008;
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(x, y, cardWidth, cardHeight);
+  ctx.restore();
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, cardWidth, cardHeight);
+  ctx.clip();
+  // The dialog's faint 心 in the corner
+  ctx.fillStyle = INK;
+  ctx.globalAlpha = 0.07;
+  ctx.font = `${verse * 4.5}px ${VERSE_FONT}`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'top';
+  ctx.fillText('心', x + cardWidth + verse * 0.6, y - verse * 0.6);
+  ctx.restore();
+
+  let cursor = y + pad;
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+  if (text.season) {
+    ctx.font = `${byline}px ${BYLINE_FONT}`;
+    setTracking(ctx, byline * 0.3);
+    ctx.fillStyle = 'rgba(44, 44, 44, 0.6)';
+    ctx.fillText(text.season.toUpperCase(), x + pad, cursor + byline);
+    setTracking(ctx, 0);
+    cursor += byline * 3;
+  }
+
+  if (lines.length) {
+    ctx.fillStyle = VERMILION;
+    ctx.fillRect(x + pad, cursor, rule, lines.length * lineHeight);
+    ctx.fillStyle = INK;
+    ctx.font = `${verse}px ${VERSE_FONT}`;
+    lines.forEach((line, i) => {
+      ctx.fillText(line, x + pad + rule + ruleGap + (i === 1 ? indent : 0), cursor + lineHeight * (i + 0.72));
+    });
+    cursor += lines.length * lineHeight;
+  }
+
+  if (text.author) {
+    const baseline = cursor + bylineBlock * 0.65;
+    ctx.font = `600 ${byline}px ${BYLINE_FONT}`;
+    setTracking(ctx, byline * 0.3);
+    const author = text.author.toUpperCase();
+    const authorWidth = ctx.measureText(author).width;
+    ctx.fillStyle = VERMILION;
+    ctx.textAlign = 'right';
+    ctx.fillText(author, x + cardWidth - pad, baseline);
+    setTracking(ctx, 0);
+    ctx.fillStyle = '#9ca3af';
+    ctx.fillRect(x + pad, baseline - byline * 0.35, Math.max(0, cardWidth - pad * 2 - authorWidth - byline * 1.5), Math.max(1, unit * 0.0008));
+  }
+};
+
+// Sets any text over the rendered scene and encodes it as PNG
+export const composePoster = async (render: HTMLCanvasElement, text: PosterText): Promise<Blob> => {
+  const ctx = render.getContext('2d');
+  if (!ctx) throw new Error('Poster canvas has no 2D context');
+  if (text.haiku || text.season) {
+    const unit = Math.min(render.width, render.height) * 0.032;
+    await loadFonts(unit, unit * 0.4);
+    drawHaikuCard(ctx, render.width, render.height, text);
+  }
+  return new Promise((resolve, reject) =>
+    render.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Poster could not be encoded'))), 'image/png'));
+};
+
+export const posterFilename = (seed: string, width: number, height: number) => `zen-garden-${seed}-${width}x${height}.png`;
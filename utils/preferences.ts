@@ -0,0 +1,50 @@
+import { Season, SeasonMode, TimeMode, ViewerPreferences } from '../types';
+import { guessHemisphere } from './seasonCycle';
+import { logRecovered } from './log';
+
+// --- Viewer Preferences ---
+// Season, time of day and sound as the visitor last left them, kept in localStorage.
+// Anything missing or malformed in the saved copy falls back to the defaults field by field.
+
+const PREFERENCES_STORAGE_KEY = 'zen-garden.preferences';
+
+export const defaultViewerPreferences = (): ViewerPreferences => ({
+  season: Season.Spring,
+  seasonMode: SeasonMode.Manual,
+  hemisphere: guessHemisphere(),
+  time: { mode: TimeMode.Manual, hours: 12 },
+  volume: 0.6,
+  muted: false
+});
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+
+export const saveViewerPreferences = (prefs: ViewerPreferences) => localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(prefs));
+
+export const loadViewerPreferences = (): ViewerPreferences => {
+  const fallback = defaultViewerPreferences();
+  const json = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+  if (!json) return fallback;
+  try {
+    const saved = JSON.parse(json);
+    const time = saved.time ?? {};
+    return {
+      season: isOneOf(Season, saved.season) ? saved.season : fallback.season,
+      seasonMode: isOneOf(SeasonMode, saved.seasonMode) ? saved.seasonMode : fallback.seasonMode,
+      hemisphere: saved.hemisphere === 'north' || saved.hemisphere === 'south' ? saved.hemisphere : fallback.hemisphere,
+      time: {
+        mode: isOneOf(TimeMode, time.mode) ? time.mode : fallback.time.mode,
+        hours: isNumberIn(time.hours, 0, 24) ? time.hours : fallback.time.hours
+      },
+      volume: isNumberIn(saved.volume, 0, 1) ? saved.volume : fallback.volume,
+      muted: typeof saved.muted === 'boolean' ? saved.muted : fallback.muted
+    };
+  } catch (err) {
+    logRecovered('Ignoring saved viewer preferences:', err);
+    return fallback;
+  }
+};
@@ -0,0 +1,266 @@
+import { getGardenSeed, seededRandom } from './random';
+
+// --- Procedural Textures ---
+// The FBM painters behind every generated stone, wood, bamboo and sand surface. They only need
+// a 2D context, so the same code runs in the texture workers (on an OffscreenCanvas) and, where
+// workers can't draw, on the main thread. Bump TEXTURE_GENERATOR_VERSION when the output changes
+// so cached copies are regenerated.
+
+export const TEXTURE_GENERATOR_VERSION = 1;
+
+export type OrganicTextureType = 'granite' | 'bamboo' | 'wood' | 'sand' | 'roughness' | 'moss';
+export type RoughnessTextureType = 'stone' | 'bamboo' | 'sand';
+export type NormalTextureType = 'generic' | 'bamboo' | 'stone';
+
+export type TextureSpec =
+  | { kind: 'organic'; type: OrganicTextureType; width: number; height: number }
+  | { kind: 'roughness'; type: RoughnessTextureType; width: number; height: number }
+  | { kind: 'normal'; type?: NormalTextureType; width: number; height: number; strength?: number };
+
+export type TextureContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Same spec and seed, same pixels: the key identifies a texture everywhere it is cached
+export const textureKey = (spec: TextureSpec, seed: string) => {
+  const extra = spec.kind === 'normal' ? `:${spec.type ?? 'generic'}:${spec.strength ?? 5}` : `:${spec.type}`;
+  return `v${TEXTURE_GENERATOR_VERSION}:${seed}:${spec.kind}${extra}:${spec.width}x${spec.height}`;
+};
+
+const TextureGenerator = {
+  perm: new Uint8Array(512),
+  init: false,
+  seed: '',
+  setup() {
+    // Re-shuffle whenever the garden seed changes so textures follow the layout
+    if (this.init && this.seed === getGardenSeed()) return;
+    this.seed = getGardenSeed();
+    const random = seededRandom('texture-permutation');
+    const p = new Uint8Array(256).map((_, i) => i);
+    for (let i = 255; i > 0; i--) {
+      const r = Math.floor(random() * (i + 1));
+      [p[i], p[r]] = [p[r], p[i]];
+    }
+    for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
+    this.init = true;
+  },
+  fade(t: number) { return t * t * t * (t * (t * 6 - 15) + 10); },
+  lerp(t: number, a: number, b: number) { return a + t * (b - a); },
+  grad(hash: number, x: number, y: number, z: number) {
+    const h = hash & 15;
+    const u = h < 8 ? x : y, v = h < 4 ? y : ((h === 12 || h === 14) ? x : z);
+    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+  },
+  noise(x: number, y: number, z: number) {
+    const X = Math.floor(x) & 255, Y = Math.floor(y) & 255, Z = Math.floor(z) & 255;
+    x -= Math.floor(x); y -= Math.floor(y); z -= Math.floor(z);
+    const u = this.fade(x), v = this.fade(y), w = this.fade(z);
+    const A = this.perm[X] + Y, AA = this.perm[A] + Z, AB = this.perm[A + 1] + Z,
+      B = this.perm[X + 1] + Y, BA = this.perm[B] + Z, BB = this.perm[B + 1] + Z;
+    return this.lerp(w, this.lerp(v, this.lerp(u, this.grad(this.perm[AA], x, y, z), this.grad(this.perm[BA], x - 1, y, z)),
+      this.lerp(u, this.grad(this.perm[AB], x, y - 1, z), this.grad(this.perm[BB], x - 1, y - 1, z))),
+      this.lerp(v, this.lerp(u, this.grad(this.perm[AA + 1], x, y, z - 1), this.grad(this.perm[BA + 1], x - 1, y, z - 1)),
+        this.lerp(u, this.grad(this.perm[AB + 1], x, y - 1, z - 1), this.grad(this.perm[BB + 1], x - 1, y - 1, z - 1))));
+  },
+  // Fractal Brownian Motion
+  fbm(x: number, y: number, z: number, octaves: number, persistence: number = 0.5, scale: number = 1) {
+    let total = 0;
+    let frequency = scale;
+    let amplitude = 1;
+    let maxValue = 0;
+    for (let i = 0; i < octaves; i++) {
+      total += this.noise(x * frequency, y * frequency, z * frequency) * amplitude;
+      maxValue += amplitude;
+      amplitude *= persistence;
+      frequency *= 2;
+    }
+    return total / maxValue;
+  },
+
+  paintOrganic: (ctx: TextureContext, width: number, height: number, type: OrganicTextureType) => {
+    const imgData = ctx.createImageData(width, height);
+    const data = imgData.data;
+
+    TextureGenerator.setup();
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const nx = x / width;
+        const ny = y / height;
+
+        if (type === 'granite') {
+          // Multi-layered noise for realistic stone grain
+          const n1 = TextureGenerator.fbm(nx * 15, ny * 15, 0, 4, 0.5);
+          const n2 = TextureGenerator.fbm(nx * 50, ny * 50, 10, 3, 0.5); // Fine grit
+          const n3 = TextureGenerator.fbm(nx * 100, ny * 100, 20, 2, 0.5); // Micro details
+          
+          // Mix Greys/Blues/Browns
+          // Stone usually has speckles of black (mica), quartz (white), and feldspar (pink/grey)
+          const baseVal = 0.4 + n1 * 0.3;
+          
+          let r = baseVal * 160;
+          let g = baseVal * 165;
+          let b = baseVal * 170;
+
+          // Dark spots (Mica)
+          if (n2 < 0.3) {
+             r *= 0.5; g *= 0.5; b *= 0.5;
+          }
+          // Light spots (Quartz)
+          if (n3 > 0.7) {
+             r += 40; g += 40; b += 40;
+          }
+
+          data[i] = r;     // R
+          data[i + 1] = g; // G
+          data[i + 2] = b; // B
+          data[i + 3] = 255;
+        } 
+        else if (type === 'bamboo') {
+          // Vertical striations
+          const fiber = TextureGenerator.fbm(nx * 80, ny * 2, 0, 5, 0.6); 
+          const stain = TextureGenerator.fbm(nx * 4, ny * 6, 32, 4, 0.5);
+          
+          // Base Bamboo Color (Fresh Green to Yellowish)
+          // More realistic: less saturated, varying from yellow-green to dark green
+          const baseR = 110, baseG = 140, baseB = 80;
+          
+          const fiberVar = (fiber - 0.5) * 40;
+          const stainVar = (stain - 0.5) * 50;
+
+          data[i] = Math.max(0, Math.min(255, baseR + fiberVar - stainVar * 0.5));
+          data[i + 1] = Math.max(0, Math.min(255, baseG + fiberVar - stainVar * 0.5));
+          data[i + 2] = Math.max(0, Math.min(255, baseB + fiberVar - stainVar * 0.8));
+          data[i + 3] = 255;
+        }
+        else if (type === 'wood') {
+           // Wood grain (Sine distortion on noise)
+           const grain = TextureGenerator.fbm(nx * 6, ny * 40 + Math.sin(nx * 10)*3, 5, 4);
+           // Red Lacquer Base - deep, rich red
+           const r = 120 + grain * 30;
+           const g = 20 + grain * 10;
+           const b = 15 + grain * 10;
+           data[i] = r; data[i+1] = g; data[i+2] = b; data[i+3] = 255;
+        }
+        else if (type === 'sand') {
+            // Fine sand grains
+            const grain = TextureGenerator.fbm(nx * 150, ny * 150, 0, 2);
+            // Larger slight color variation
+            const patch = TextureGenerator.fbm(nx * 5, ny * 5, 10, 3);
+            
+            const val = 200 + grain * 40 + patch * 15;
+            data[i] = val; data[i+1] = val; data[i+2] = val - 5; data[i+3] = 255;
+        }
+      }
+    }
+    
+    ctx.putImageData(imgData, 0, 0);
+
+    // Post-process Overlays
+    if(type === 'bamboo') {
+         // Random scuff marks or dark patches
+         const random = seededRandom(`bamboo-scuffs:${width}x${height}`);
+         ctx.fillStyle = 'rgba(60, 50, 30, 0.1)';
+         for(let k=0; k<30; k++) {
+             const rx = random() * width;
+             const ry = random() * height;
+             const w = 2 + random() * 5;
+             const h = 10 + random() * 30;
+             ctx.fillRect(rx, ry, w, h);
+         }
+    }
+
+  },
+
+  paintRoughness: (ctx: TextureContext, width: number, height: number, type: RoughnessTextureType) => {
+    const imgData = ctx.createImageData(width, height);
+    const data = imgData.data;
+
+    TextureGenerator.setup();
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const nx = x / width;
+            const ny = y / height;
+            
+            let val = 0.5;
+
+            if (type === 'stone') {
+                 // Stone roughness: Mica is shiny (low roughness), Matrix is matte (high roughness)
+                 const n = TextureGenerator.fbm(nx * 60, ny * 60, 5, 3);
+                 // Invert: high noise = matte, low noise = shiny
+                 val = 0.4 + n * 0.6; 
+            } else if (type === 'bamboo') {
+                 // Bamboo is generally smooth/shiny but has micro-grooves
+                 const fiber = TextureGenerator.fbm(nx * 100, ny * 2, 0, 2);
+                 val = 0.2 + fiber * 0.3;
+            } else if (type === 'sand') {
+                 // Sand is rough
+                 const n = TextureGenerator.fbm(nx * 100, ny * 100, 0, 2);
+                 val = 0.8 + n * 0.2;
+            }
+
+            data[i] = val * 255;
+            data[i+1] = val * 255;
+            data[i+2] = val * 255;
+            data[i+3] = 255;
+        }
+    }
+    ctx.putImageData(imgData, 0, 0);
+  },
+
+  paintNormal: (ctx: TextureContext, width: number, height: number, strength: number, type: NormalTextureType) => {
+    const imgData = ctx.createImageData(width, height);
+    const data = imgData.data;
+    
+    const buffer = new Float32Array(width * height);
+    TextureGenerator.setup();
+    
+    // Generate Height Map
+    for(let y=0; y<height; y++) {
+        for(let x=0; x<width; x++) {
+            const nx = x/width; 
+            const ny = y/height;
+            if (type === 'bamboo') {
+                 // Vertical fibers
+                 buffer[y*width+x] = TextureGenerator.fbm(nx*150, ny*5, 0, 3);
+            } else if (type === 'stone') {
+                 // Craggy
+                 buffer[y*width+x] = TextureGenerator.fbm(nx*20, ny*20, 99, 5);
+            } else {
+                 buffer[y*width+x] = TextureGenerator.fbm(nx*10, ny*10, 99, 4); 
+            }
+        }
+    }
+
+    // Sobel Filter for Normals
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const x1 = buffer[y * width + ((x - 1 + width) % width)];
+        const x2 = buffer[y * width + ((x + 1) % width)];
+        const y1 = buffer[((y - 1 + height) % height) * width + x];
+        const y2 = buffer[((y + 1) % height) * width + x];
+
+        const dx = (x1 - x2) * strength;
+        const dy = (y1 - y2) * strength;
+        const dz = 1.0 / strength;
+
+        const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        
+        data[i] = ((dx / len) * 0.5 + 0.5) * 255;
+        data[i + 1] = ((dy / len) * 0.5 + 0.5) * 255;
+        data[i + 2] = (dz / len) * 255;
+        data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(imgData, 0, 0);
+  }
+};
+
+// Paints `spec` for the current garden seed into a context of the spec's size
+export const paintTexture = (ctx: TextureContext, spec: TextureSpec) => {
+  if (spec.kind === 'organic') TextureGenerator.paintOrganic(ctx, spec.width, spec.height, spec.type);
+  else if (spec.kind === 'roughness') TextureGenerator.paintRoughness(ctx, spec.width, spec.height, spec.type);
+  else TextureGenerator.paintNormal(ctx, spec.width, spec.height, spec.strength ?? 5, spec.type ?? 'generic');
+};
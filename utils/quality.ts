@@ -0,0 +1,141 @@
+import { QualityPreferences, QualitySettings, QualityTier } from '../types';
+import { logRecovered } from './log';
+
+// --- Rendering Quality ---
+// Four presets scale everything costly in the scene. The visitor can pin individual options over
+// the preset, and an optional governor watches frame times and moves between presets on its own.
+// Preferences are kept in localStorage.
+
+const QUALITY_STORAGE_KEY = 'zen-garden.quality';
+
+// Cheapest first
+export const QUALITY_TIERS: QualityTier[] = [QualityTier.Low, QualityTier.Medium, QualityTier.High, QualityTier.Ultra];
+
+export const QUALITY_PRESETS: Record<QualityTier, QualitySettings> = {
+  [QualityTier.Low]: {
+    dpr: 1,
+    shadowMapSize: 512,
+    softShadowSamples: 0,
+    reflectorResolution: 256,
+    grassDensity: 0.3,
+    starCount: 2000,
+    postprocessing: false,
+    depthOfField: false
+  },
+  [QualityTier.Medium]: {
+    dpr: 1.25,
+    shadowMapSize: 1024,
+    softShadowSamples: 8,
+    reflectorResolution: 512,
+    grassDensity: 0.6,
+    starCount: 4000,
+    postprocessing: true,
+    depthOfField: false
+  },
+  // The garden's original fixed settings
+  [QualityTier.High]: {
+    dpr: 1.5,
+    shadowMapSize: 2048,
+    softShadowSamples: 16,
+    reflectorResolution: 1024,
+    grassDensity: 1,
+    starCount: 7000,
+    postprocessing: true,
+    depthOfField: true
+  },
+  [QualityTier.Ultra]: {
+    dpr: 2,
+    shadowMapSize: 4096,
+    softShadowSamples: 24,
+    reflectorResolution: 2048,
+    grassDensity: 1.25,
+    starCount: 10000,
+    postprocessing: true,
+    depthOfField: true
+  }
+};
+
+export const resolveQuality = ({ tier, overrides }: QualityPreferences): QualitySettings => ({ ...QUALITY_PRESETS[tier], ...overrides });
+
+// A first guess before the governor has seen any frames: touch devices and small CPUs start a step lower
+const guessTier = () => {
+  const coarse = typeof matchMedia !== 'undefined' && matchMedia('(pointer: coarse)').matches;
+  return coarse || (navigator.hardwareConcurrency || 4) <= 4 ? QualityTier.Medium : QualityTier.High;
+};
+
+export const defaultQualityPreferences = (): QualityPreferences => ({ tier: guessTier(), auto: true, overrides: {} });
+
+export const saveQualityPreferences = (prefs: QualityPreferences) => localStorage.setItem(QUALITY_STORAGE_KEY, JSON.stringify(prefs));
+
+export const loadQualityPreferences = (): QualityPreferences => {
+  const fallback = defaultQualityPreferences();
+  const json = localStorage.getItem(QUALITY_STORAGE_KEY);
+  if (!json) return fallback;
+  try {
+    const saved = JSON.parse(json);
+    const preset = QUALITY_PRESETS[QualityTier.High];
+    // Keep only overrides that still exist and have the right type
+    const overrides = Object.fromEntries(Object.entries(saved.overrides ?? {}).filter(([key, value]) =>
+      key in preset && typeof value === typeof preset[key as keyof QualitySettings]));
+    return {
+      tier: QUALITY_TIERS.includes(saved.tier) ? saved.tier : fallback.tier,
+      auto: typeof saved.auto === 'boolean' ? saved.auto : fallback.auto,
+      overrides
+    };
+  } catch (err) {
+    logRecovered('Ignoring saved quality preferences:', err);
+    return fallback;
+  }
+};
+
+// --- Frame-time governor ---
+
+const GOVERNOR_WINDOW = 3; // seconds of frames behind each verdict
+const SLOW_FRAME = 1 / 45;
+const FAST_FRAME = 1 / 57;
+// Stepping up waits for this many fast windows in a row; stepping down takes one slow one
+const FAST_WINDOWS = 4;
+// Longer frames are hitches (a hidden tab, shader compiles), not the steady cost of the tier
+const HITCH = 0.25;
+
+export const createFrameGovernor = () => {
+  let elapsed = 0;
+  let frames = 0;
+  let fastStreak = 0;
+  // Windows to ignore while a new tier compiles and settles
+  let warmup = 1;
+  // Tiers that were already too slow are never retried, so the governor can't flip-flop
+  const failed = new Set<QualityTier>();
+
+  return {
+    // Feeds one frame; returns the tier to switch to, or null to stay
+    sample(delta: number, tier: QualityTier): QualityTier | null {
+      if (delta > HITCH) return null;
+      elapsed += delta;
+      frames++;
+      if (elapsed < GOVERNOR_WINDOW) return null;
+      const average = elapsed / frames;
+      elapsed = 0;
+      frames = 0;
+      if (warmup > 0) {
+        warmup--;
+        return null;
+      }
+
+      const index = QUALITY_TIERS.indexOf(tier);
+      if (average > SLOW_FRAME) {
+        fastStreak = 0;
+        if (index === 0) return null;
+        failed.add(tier);
+        warmup = 1;
+        return QUALITY_TIERS[index - 1];
+      }
+      fastStreak = average < FAST_FRAME ? fastStreak + 1 : 0;
+      const up = QUALITY_TIERS[index + 1];
+      if (fastStreak < FAST_WINDOWS || !up || failed.has(up)) return null;
+      fastStreak = 0;
+      warmup = 1;
+      return up;
+    }
+  };
+};
@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+import { RakePattern, RakeStroke, RakeWidth } from '../types';
+import { RandomFn } from './random';
+import { isFiniteNumber, isObject } from './validation';
+
+// --- Raked Sand Surface ---
+// Strokes are carved into a grayscale heightfield canvas (used as the displacement map);
+// the normal map is re-derived from it, only over the region a stroke touched.
+
+export const RAKE_MAP_SIZE = 1024;
+export const RAKE_PATTERN_VERSION = 1;
+
+export const RAKE_TINES: Record<RakeWidth, number> = {
+  [RakeWidth.Narrow]: 3,
+  [RakeWidth.Medium]: 5,
+  [RakeWidth.Wide]: 8
+};
+
+const TINE_SPACING = 9; // px on the height map
+const GROOVE_WIDTH = 4;
+const FLAT_LEVEL = 128;
+const NORMAL_STRENGTH = 4;
+const MIN_POINT_SPACING = 2 / RAKE_MAP_SIZE;
+
+export interface RakeSurface {
+  heightMap: THREE.CanvasTexture;
+  normalMap: THREE.CanvasTexture;
+  carveSegment: (width: RakeWidth, from: [number, number], to: [number, number]) => void;
+  redraw: (strokes: RakeStroke[]) => void;
+  dispose: () => void;
+}
+
+export const createRakeSurface = (random: RandomFn, size = RAKE_MAP_SIZE): RakeSurface => {
+  const heightCanvas = document.createElement('canvas');
+  heightCanvas.width = size; heightCanvas.height = size;
+  const hctx = heightCanvas.getContext('2d', { willReadFrequently: true })!;
+
+  const normalCanvas = document.createElement('canvas');
+  normalCanvas.width = size; normalCanvas.height = size;
+  const nctx = normalCanvas.getContext('2d')!;
+
+  // Static grain so untouched sand keeps a subtle texture under the normals
+  const grain = new Int8Array(size * size).map(() => (random() - 0.5) * 10);
+
+  const heightMap = new THREE.CanvasTexture(heightCanvas);
+  const normalMap = new THREE.CanvasTexture(normalCanvas);
+  normalMap.anisotropy = 16;
+
+  const updateNormals = (x0: number, y0: number, x1: number, y1: number) => {
+    x0 = Math.max(0, Math.floor(x0)); y0 = Math.max(0, Math.floor(y0));
+    x1 = Math.min(size, Math.ceil(x1)); y1 = Math.min(size, Math.ceil(y1));
+    const w = x1 - x0, h = y1 - y0;
+    if (w <= 0 || h <= 0) return;
+
+    // Read one extra pixel around the rect for the Sobel neighbours
+    const rx0 = Math.max(0, x0 - 1), ry0 = Math.max(0, y0 - 1);
+    const rx1 = Math.min(size, x1 + 1), ry1 = Math.min(size, y1 + 1);
+    const rw = rx1 - rx0;
+    const src = hctx.getImageData(rx0, ry0, rw, ry1 - ry0).data;
+    const heightAt = (x: number, y: number) => {
+      const cx = Math.min(rx1 - 1, Math.max(rx0, x)) - rx0;
+      const cy = Math.min(ry1 - 1, Math.max(ry0, y)) - ry0;
+      return src[(cy * rw + cx) * 4] / 255;
+    };
+
+    const out = nctx.createImageData(w, h);
+    const data = out.data;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = ((y - y0) * w + (x - x0)) * 4;
+        const dx = (heightAt(x - 1, y) - heightAt(x + 1, y)) * NORMAL_STRENGTH;
+        // Canvas rows run top-down while texture v runs bottom-up
+        const dy = (heightAt(x, y + 1) - heightAt(x, y - 1)) * NORMAL_STRENGTH;
+        const dz = 1.0 / NORMAL_STRENGTH;
+        const len = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        const n = grain[y * size + x];
+        data[i] = ((dx / len) * 0.5 + 0.5) * 255 + n;
+        data[i + 1] = ((dy / len) * 0.5 + 0.5) * 255 + n;
+        data[i + 2] = (dz / len) * 255;
+        data[i + 3] = 255;
+      }
+    }
+    nctx.putImageData(out, x0, y0);
+    heightMap.needsUpdate = true;
+    normalMap.needsUpdate = true;
+  };
+
+  const drawSegment = (width: RakeWidth, from: [number, number], to: [number, number]) => {
+    const ax = from[0] * size, ay = from[1] * size;
+    const bx = to[0] * size, by = to[1] * size;
+    const len = Math.hypot(bx - ax, by - ay);
+    if (len < 0.5) return null;
+
+    // Tines sit along the perpendicular of the pull direction
+    const px = -(by - ay) / len, py = (bx - ax) / len;
+    const tines = RAKE_TINES[width];
+    const half = ((tines - 1) * TINE_SPACING) / 2;
+    const bandWidth = half * 2 + TINE_SPACING;
+
+    // The rake levels whatever was there before...
+    hctx.lineCap = 'butt';
+    hctx.lineWidth = bandWidth;
+    hctx.strokeStyle = `rgb(${FLAT_LEVEL}, ${FLAT_LEVEL}, ${FLAT_LEVEL})`;
+    hctx.beginPath(); hctx.moveTo(ax, ay); hctx.lineTo(bx, by); hctx.stroke();
+
+    // ...heaps ridges between the tines and digs a groove under each one
+    const passes: [number, string][] = [
+      [TINE_SPACING * 0.8, `rgb(${FLAT_LEVEL + 40}, ${FLAT_LEVEL + 40}, ${FLAT_LEVEL + 40})`],
+      [GROOVE_WIDTH, `rgb(${FLAT_LEVEL - 70}, ${FLAT_LEVEL - 70}, ${FLAT_LEVEL - 70})`]
+    ];
+    hctx.lineCap = 'round';
+    for (const [lineWidth, color] of passes) {
+      hctx.lineWidth = lineWidth;
+      hctx.strokeStyle = color;
+      hctx.beginPath();
+      for (let t = 0; t < tines; t++) {
+        const o = -half + t * TINE_SPACING;
+        hctx.moveTo(ax + px * o, ay + py * o);
+        hctx.lineTo(bx + px * o, by + py * o);
+      }
+      hctx.stroke();
+    }
+
+    const pad = bandWidth / 2 + 2;
+    return [Math.min(ax, bx) - pad, Math.min(ay, by) - pad, Math.max(ax, bx) + pad, Math.max(ay, by) + pad] as const;
+  };
+
+  const fillFlat = () => {
+    hctx.fillStyle = `rgb(${FLAT_LEVEL}, ${FLAT_LEVEL}, ${FLAT_LEVEL})`;
+    hctx.fillRect(0, 0, size, size);
+  };
+
+  const surface: RakeSurface = {
+    heightMap,
+    normalMap,
+    carveSegment(width, from, to) {
+      const rect = drawSegment(width, from, to);
+      if (rect) updateNormals(rect[0], rect[1], rect[2], rect[3]);
+    },
+    redraw(strokes) {
+      fillFlat();
+      strokes.forEach((stroke) => {
+        for (let i = 1; i < stroke.points.length; i++) drawSegment(stroke.width, stroke.points[i - 1], stroke.points[i]);
+      });
+      updateNormals(0, 0, size, size);
+    },
+    dispose() {
+      heightMap.dispose();
+      normalMap.dispose();
+    }
+  };
+  return surface;
+};
+
+// Drops points closer than a couple of map pixels so strokes stay compact when saved
+export const shouldAppendPoint = (last: [number, number] | undefined, next: [number, number]) =>
+  !last || Math.hypot(next[0] - last[0], next[1] - last[1]) >= MIN_POINT_SPACING;
+
+// Concentric rings around one point, the way the garden was raked before raking was interactive
+const createConcentricStrokes = (center: [number, number], radii: number[], width: RakeWidth): RakeStroke[] =>
+  radii.map((r) => {
+    const steps = Math.max(24, Math.ceil(r * 400));
+    const points: [number, number][] = [];
+    for (let i = 0; i <= steps; i++) {
+      const a = (i / steps) * Math.PI * 2;
+      points.push([center[0] + Math.cos(a) * r, center[1] + Math.sin(a) * r]);
+    }
+    return { width, points };
+  });
+
+export const DEFAULT_RAKE_STROKES: RakeStroke[] = createConcentricStrokes(
+  [300 / 1024, 900 / 1024],
+  [0.18, 0.25, 0.32, 0.39, 0.46, 0.53, 0.6, 0.67, 0.74, 0.81],
+  RakeWidth.Medium
+);
+
+export const serializeRakePattern = (strokes: RakeStroke[]): string => {
+  const pattern: RakePattern = {
+    version: RAKE_PATTERN_VERSION,
+    // 4 decimals is sub-pixel on the 1024 map and keeps files small
+    strokes: strokes.map((s) => ({ width: s.width, points: s.points.map(([u, v]) => [+u.toFixed(4), +v.toFixed(4)] as [number, number]) }))
+  };
+  return JSON.stringify(pattern);
+};
+
+const isRakeWidth = (v: unknown): v is RakeWidth => (Object.values(RakeWidth) as unknown[]).includes(v);
+
+export const parseRakePattern = (json: string): RakeStroke[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Rake pattern is not valid JSON.');
+  }
+  if (!isObject(data)) throw new Error('Rake pattern must be an object.');
+  if (data.version !== RAKE_PATTERN_VERSION) throw new Error(`Unsupported rake pattern version: ${data.version}.`);
+  if (!Array.isArray(data.strokes)) throw new Error('Rake pattern is missing its "strokes" list.');
+
+  return data.strokes.map((stroke: unknown, i): RakeStroke => {
+    if (!isObject(stroke) || !isRakeWidth(stroke.width)) throw new Error(`Stroke ${i} has an unknown rake width.`);
+    if (!Array.isArray(stroke.points)) throw new Error(`Stroke ${i} has no points.`);
+    const points = stroke.points.map((p: unknown, j): [number, number] => {
+      if (!Array.isArray(p) || p.length !== 2 || !p.every(isFiniteNumber)) {
+        throw new Error(`Stroke ${i}, point ${j} is not a [u, v] pair.`);
+      }
+      return [p[0], p[1]];
+    });
+    return { width: stroke.width, points };
+  });
+};
@@ -0,0 +1,64 @@
+// --- Seeded Randomness ---
+// Every procedural detail of the garden draws from a PRNG derived from one garden seed,
+// so the same seed always rebuilds the same garden. The seed lives in the URL (?seed=...).
+
+export type RandomFn = () => number;
+
+const SEED_PARAM = 'seed';
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+let gardenSeed = 'zen';
+
+// cyrb53-style string hash, folded to 32 bits
+export const hashString = (str: string): number => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for layout jitter and noise tables
+export const createRandom = (seed: number): RandomFn => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const getGardenSeed = () => gardenSeed;
+
+export const setGardenSeed = (seed: string) => {
+  gardenSeed = seed;
+};
+
+// Independent stream per consumer, so adding a new consumer never shifts the others' layout
+export const seededRandom = (channel: string): RandomFn => createRandom(hashString(`${gardenSeed}:${channel}`));
+
+export const generateSeed = (length = 6) => {
+  let seed = '';
+  for (let i = 0; i < length; i++) seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  return seed;
+};
+
+export const normalizeSeed = (raw: string) => raw.trim().toLowerCase().replace(/[^a-z0-9-]/g, '').slice(0, 32);
+
+export const readSeedFromUrl = (): string | null => {
+  const raw = new URLSearchParams(window.location.search).get(SEED_PARAM);
+  const seed = raw ? normalizeSeed(raw) : '';
+  return seed || null;
+};
+
+export const writeSeedToUrl = (seed: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(SEED_PARAM, seed);
+  window.history.replaceState(window.history.state, '', url);
+};
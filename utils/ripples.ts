@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+
+// --- Pond Ripples ---
+// Anything that disturbs the water (rain, falling petals, a hand, food, passing koi) queues a
+// ripple in pond-local coordinates; each pond owns its queue and its water simulation takes
+// them in as it steps. Mounted ponds also register where they sit so world-space effects can
+// find the water.
+
+const MAX_PENDING = 128;
+
+export interface Ripple {
+  x: number;
+  z: number;
+  // 0..1, scales size and depth of the disturbance
+  strength: number;
+}
+
+export const createPondRipples = () => {
+  const pending: Ripple[] = [];
+  const toLocal = new THREE.Matrix4();
+  const point = new THREE.Vector3();
+  let placed = false;
+  let surfaceY = 0;
+  let radius = 0;
+  // World x, z, radius and water level, for effects that only need the footprint
+  const disc = new THREE.Vector4();
+
+  const add = (x: number, z: number, strength = 1) => {
+    // In a downpour the oldest drops are the ones let go
+    if (pending.length >= MAX_PENDING) pending.shift();
+    pending.push({ x, z, strength });
+  };
+
+  const toPond = (x: number, z: number) => {
+    point.set(x, surfaceY, z).applyMatrix4(toLocal);
+    return point.x * point.x + point.z * point.z <= radius * radius ? point : null;
+  };
+
+  return {
+    add,
+
+    // Oldest first, at most `max` of them
+    take(max: number) {
+      return pending.splice(0, max);
+    },
+
+    place(matrixWorld: THREE.Matrix4, surface: number, waterRadius: number) {
+      toLocal.copy(matrixWorld).invert();
+      point.set(0, surface, 0).applyMatrix4(matrixWorld);
+      surfaceY = point.y;
+      radius = waterRadius;
+      disc.set(point.x, point.z, waterRadius * matrixWorld.getMaxScaleOnAxis(), surfaceY);
+      placed = true;
+    },
+
+    disc,
+
+    // World height of the water at (x, z), or null off this pond
+    waterLevel(x: number, z: number) {
+      return placed && toPond(x, z) ? surfaceY : null;
+    },
+
+    // True when (x, z) is on this pond and the ripple was queued
+    addWorld(x: number, z: number, strength = 1) {
+      const local = placed && toPond(x, z);
+      if (local) add(local.x, local.z, strength);
+      return !!local;
+    }
+  };
+};
+
+export type PondRipples = ReturnType<typeof createPondRipples>;
+
+const createPondRegistry = () => {
+  const mounted = new Set<PondRipples>();
+  // The first mounted pond's footprint; the particle shader floats petals on that one only
+  const disc = new THREE.Vector4();
+  const first = () => mounted.values().next().value;
+
+  return {
+    disc,
+
+    // Returns the matching unregister, for an effect's cleanup
+    register(pond: PondRipples) {
+      mounted.add(pond);
+      return () => {
+        mounted.delete(pond);
+        const next = first();
+        if (next) disc.copy(next.disc);
+        else disc.set(0, 0, 0, 0);
+      };
+    },
+
+    place(pond: PondRipples, matrixWorld: THREE.Matrix4, surface: number, waterRadius: number) {
+      pond.place(matrixWorld, surface, waterRadius);
+      if (pond === first()) disc.copy(pond.disc);
+    },
+
+    // World height of the water at (x, z), or null where there is no pond
+    waterLevel(x: number, z: number) {
+      for (const pond of mounted) {
+        const level = pond.waterLevel(x, z);
+        if (level !== null) return level;
+      }
+      return null;
+    },
+
+    addWorld(x: number, z: number, strength = 1) {
+      for (const pond of mounted) if (pond.addWorld(x, z, strength)) return;
+    }
+  };
+};
+
+export const ponds = createPondRegistry();
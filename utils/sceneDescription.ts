@@ -0,0 +1,117 @@
+import { GardenElementType, GardenLayout, Season, Weather } from '../types';
+import { Language } from './i18n';
+
+// --- Scene Description ---
+// A plain-language account of what the canvas shows, for screen readers. It only names things
+// that change slowly (the part of the day, not the minute) so a live region can announce it.
+
+// Hours each part of the day lasts until
+const PART_OF_DAY_ENDS = [5, 7, 11, 14, 17, 19.5, 24];
+
+interface SceneWords {
+  partOfDay: string[];
+  weather: Record<Weather, string>;
+  season: Record<Season, string>;
+  seasonScene: Record<Season, string>;
+  // Singular and plural; grass is left out as the backdrop it is
+  elements: Partial<Record<GardenElementType, [string, string]>>;
+  count: (n: number, plural: string) => string;
+  list: (items: string[]) => string;
+  holds: (list: string) => string;
+  empty: string;
+  scene: (season: string, when: string, weather: string) => string;
+}
+
+const NUMBER_WORDS = ['no', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+const WORDS: Record<Language, SceneWords> = {
+  en: {
+    partOfDay: ['at night', 'at dawn', 'in the morning', 'at midday', 'in the afternoon', 'at dusk', 'at night'],
+    weather: {
+      [Weather.Clear]: 'under a clear sky',
+      [Weather.Drizzle]: 'in a light drizzle',
+      [Weather.HeavyRain]: 'in a downpour',
+      [Weather.Mist]: 'wrapped in mist',
+      [Weather.Windy]: 'on a windy day'
+    },
+    season: { [Season.Spring]: 'spring', [Season.Summer]: 'summer', [Season.Autumn]: 'autumn', [Season.Winter]: 'winter' },
+    seasonScene: {
+      [Season.Spring]: 'Cherry petals drift down.',
+      [Season.Summer]: 'Fireflies blink above the grass.',
+      [Season.Autumn]: 'Maple leaves tumble to the ground.',
+      [Season.Winter]: 'Snow is falling.'
+    },
+    elements: {
+      [GardenElementType.SandGarden]: ['raked sand', 'raked sand'],
+      [GardenElementType.ZenPond]: ['a koi pond', 'koi ponds'],
+      [GardenElementType.ZenStone]: ['a stone holding a haiku', 'stones holding haiku'],
+      [GardenElementType.Lantern]: ['a stone lantern', 'stone lanterns'],
+      [GardenElementType.ToriiGate]: ['a torii gate', 'torii gates'],
+      [GardenElementType.ShishiOdoshi]: ['a bamboo water spout', 'bamboo water spouts'],
+      [GardenElementType.Tsukubai]: ['a stone water basin', 'stone water basins'],
+      [GardenElementType.BambooGrove]: ['a bamboo grove', 'bamboo groves'],
+      [GardenElementType.TeaCeremonyPlatform]: ['a tea platform', 'tea platforms'],
+      [GardenElementType.MossGarden]: ['a moss garden', 'moss gardens']
+    },
+    count: (n, plural) => `${NUMBER_WORDS[n] ?? n} ${plural}`,
+    list: (items) => (items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`),
+    holds: (list) => `The garden holds ${list}.`,
+    empty: 'The garden is empty.',
+    scene: (season, when, weather) => `A Japanese garden in ${season}, ${when}, ${weather}.`
+  },
+  ja: {
+    partOfDay: ['夜', '夜明け', '朝', '昼', '午後', '夕暮れ', '夜'],
+    weather: {
+      [Weather.Clear]: '空は晴れ渡っている',
+      [Weather.Drizzle]: '小雨が降っている',
+      [Weather.HeavyRain]: '激しい雨が降っている',
+      [Weather.Mist]: '霧に包まれている',
+      [Weather.Windy]: '風が強い'
+    },
+    season: { [Season.Spring]: '春', [Season.Summer]: '夏', [Season.Autumn]: '秋', [Season.Winter]: '冬' },
+    seasonScene: {
+      [Season.Spring]: '桜の花びらが舞い落ちる。',
+      [Season.Summer]: '草の上で蛍が瞬く。',
+      [Season.Autumn]: '紅葉がひらひらと散る。',
+      [Season.Winter]: '雪が降っている。'
+    },
+    elements: {
+      [GardenElementType.SandGarden]: ['砂紋の砂', '砂紋の砂'],
+      [GardenElementType.ZenPond]: ['鯉の池', '鯉の池'],
+      [GardenElementType.ZenStone]: ['俳句を宿す石', '俳句を宿す石'],
+      [GardenElementType.Lantern]: ['石灯籠', '石灯籠'],
+      [GardenElementType.ToriiGate]: ['鳥居', '鳥居'],
+      [GardenElementType.ShishiOdoshi]: ['鹿威し', '鹿威し'],
+      [GardenElementType.Tsukubai]: ['蹲踞', '蹲踞'],
+      [GardenElementType.BambooGrove]: ['竹林', '竹林'],
+      [GardenElementType.TeaCeremonyPlatform]: ['茶席', '茶席'],
+      [GardenElementType.MossGarden]: ['苔庭', '苔庭']
+    },
+    count: (n, plural) => `${n}つの${plural}`,
+    list: (items) => items.join('、'),
+    holds: (list) => `庭には${list}がある。`,
+    empty: '庭には何もない。',
+    scene: (season, when, weather) => `${season}の日本庭園、${when}。${weather}。`
+  }
+};
+
+export const describeLayout = (layout: GardenLayout, language: Language = 'en') => {
+  const words = WORDS[language];
+  const counts = new Map<GardenElementType, number>();
+  layout.elements.forEach((el) => counts.set(el.type, (counts.get(el.type) ?? 0) + 1));
+  const items = [...counts].flatMap(([type, n]) => {
+    const nouns = words.elements[type];
+    if (!nouns) return [];
+    if (n === 1 || type === GardenElementType.SandGarden) return [nouns[0]];
+    return [words.count(n, nouns[1])];
+  });
+  return items.length ? words.holds(words.list(items)) : words.empty;
+};
+
+export const describeScene = (season: Season, hours: number, weather: Weather, layout: GardenLayout, language: Language = 'en') => {
+  const words = WORDS[language];
+  const part = PART_OF_DAY_ENDS.findIndex((until) => hours < until);
+  const when = words.partOfDay[part < 0 ? words.partOfDay.length - 1 : part];
+  const scene = words.scene(words.season[season], when, words.weather[weather]);
+  return [scene, words.seasonScene[season], describeLayout(layout, language)].join(language === 'en' ? ' ' : '');
+};
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { Hemisphere, Season } from '../types';
+
+// --- Season Transitions ---
+// The chosen season is only a target. Every season keeps a weight (0..1) that eases toward
+// it over a few seconds: particles drain or fill by their weight and scene colors are the
+// weighted mix of each season's palette.
+
+export const SEASON_TRANSITION_SECONDS = 6;
+export const SEASON_CYCLE_SECONDS = 90; // how long each season lasts in the year cycle
+
+export const SEASON_ORDER: Season[] = [Season.Spring, Season.Summer, Season.Autumn, Season.Winter];
+
+export const nextSeason = (season: Season) => SEASON_ORDER[(SEASON_ORDER.indexOf(season) + 1) % SEASON_ORDER.length];
+
+// --- Calendar Season ---
+// Meteorological seasons (spring from March in the north), six months apart in the south
+
+export const CALENDAR_CHECK_SECONDS = 3600; // how often an open page re-reads the date
+
+export const calendarSeason = (hemisphere: Hemisphere, date = new Date()) => {
+  const month = (date.getMonth() + (hemisphere === 'south' ? 6 : 0)) % 12;
+  return SEASON_ORDER[Math.floor(((month + 10) % 12) / 3)];
+};
+
+// Southern time zones, to guess the hemisphere before the visitor has chosen one
+const SOUTHERN_ZONES = ['Australia/', 'Antarctica/', 'Pacific/Auckland', 'Pacific/Chatham', 'America/Argentina/', 'America/Santiago', 'America/Sao_Paulo', 'America/Montevideo', 'America/Asuncion', 'Africa/Johannesburg', 'Africa/Maputo', 'Africa/Windhoek', 'Indian/Mauritius', 'Indian/Reunion'];
+
+export const guessHemisphere = (): Hemisphere => {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone ?? '';
+  return SOUTHERN_ZONES.some((prefix) => zone.startsWith(prefix)) ? 'south' : 'north';
+};
+
+interface SeasonPalette {
+  // Grass vertex colors are raw linear RGB, like the original blade colors
+  grassBase: [number, number, number];
+  grassTip: [number, number, number];
+  moss: string;
+  mossGround: string;
+  // Multiplied into the day cycle's fog color
+  fogTint: string;
+  cloud: number;
+}
+
+const PALETTES: Record<Season, SeasonPalette> = {
+  [Season.Spring]: { grassBase: [0.1, 0.2, 0.05], grassTip: [0.4, 0.6, 0.2], moss: '#4f6b35', mossGround: '#2d4c1e', fogTint: '#ffffff', cloud: 1 },
+  [Season.Summer]: { grassBase: [0.05, 0.17, 0.03], grassTip: [0.25, 0.55, 0.1], moss: '#3f6b25', mossGround: '#24451a', fogTint: '#f4fff0', cloud: 1 },
+  [Season.Autumn]: { grassBase: [0.2, 0.14, 0.04], grassTip: [0.6, 0.42, 0.12], moss: '#6b6a35', mossGround: '#4a3f1e', fogTint: '#fff0e0', cloud: 1 },
+  [Season.Winter]: { grassBase: [0.35, 0.37, 0.4], grassTip: [0.85, 0.88, 0.92], moss: '#7d8a78', mossGround: '#9aa39a', fogTint: '#f0f6ff', cloud: 0 }
+};
+
+const PALETTE_COLORS = SEASON_ORDER.map((season) => {
+  const p = PALETTES[season];
+  return {
+    grassBase: new THREE.Color().setRGB(...p.grassBase, THREE.LinearSRGBColorSpace),
+    grassTip: new THREE.Color().setRGB(...p.grassTip, THREE.LinearSRGBColorSpace),
+    moss: new THREE.Color(p.moss),
+    mossGround: new THREE.Color(p.mossGround),
+    fogTint: new THREE.Color(p.fogTint),
+    cloud: p.cloud
+  };
+});
+
+export interface SeasonSample {
+  grassBase: THREE.Color;
+  grassTip: THREE.Color;
+  moss: THREE.Color;
+  mossGround: THREE.Color;
+  fogTint: THREE.Color;
+  cloud: number;
+}
+
+const createSeasonSample = (): SeasonSample => ({
+  grassBase: new THREE.Color(),
+  grassTip: new THREE.Color(),
+  moss: new THREE.Color(),
+  mossGround: new THREE.Color(),
+  fogTint: new THREE.Color(),
+  cloud: 1
+});
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const scratch = new THREE.Color();
+
+// Fills `out` in place with the eased, normalized mix of every palette
+const mixPalettes = (weights: Record<Season, number>, out: SeasonSample) => {
+  const eased = SEASON_ORDER.map((season) => smoothstep(weights[season]));
+  const total = eased.reduce((sum, w) => sum + w, 0) || 1;
+  (['grassBase', 'grassTip', 'moss', 'mossGround', 'fogTint'] as const).forEach((key) => out[key].setRGB(0, 0, 0));
+  out.cloud = 0;
+  eased.forEach((w, i) => {
+    const k = w / total;
+    if (k === 0) return;
+    const p = PALETTE_COLORS[i];
+    (['grassBase', 'grassTip', 'moss', 'mossGround', 'fogTint'] as const).forEach((key) => out[key].add(scratch.copy(p[key]).multiplyScalar(k)));
+    out.cloud += p.cloud * k;
+  });
+  return out;
+};
+
+const solo = (season: Season) => Object.fromEntries(SEASON_ORDER.map((s) => [s, s === season ? 1 : 0])) as Record<Season, number>;
+
+// The live season blend, advanced by the scene each frame
+export const seasonClock = {
+  target: Season.Spring,
+  weights: solo(Season.Spring),
+  sample: mixPalettes(solo(Season.Spring), createSeasonSample()),
+  // Bumped whenever the sample changes, so consumers can skip idle frames
+  version: 0,
+  // Shows `season` at once, without a transition (a restored visit starts where it left off)
+  jump(season: Season) {
+    this.target = season;
+    this.weights = solo(season);
+    mixPalettes(this.weights, this.sample);
+    this.version++;
+  },
+  advance(delta: number, season: Season) {
+    this.target = season;
+    const step = delta / SEASON_TRANSITION_SECONDS;
+    let changed = false;
+    SEASON_ORDER.forEach((s) => {
+      const w = this.weights[s];
+      const next = s === season ? Math.min(1, w + step) : Math.max(0, w - step);
+      if (next !== w) {
+        this.weights[s] = next;
+        changed = true;
+      }
+    });
+    if (!changed) return;
+    mixPalettes(this.weights, this.sample);
+    this.version++;
+  }
+};
@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+import { ParticleShape } from './particleSprites';
+
+// --- Seasonal Particles ---
+// Every particle's path is a pure function of time and a few per-particle constants, evaluated
+// in the vertex shader: falling particles drop from PARTICLE_TOP, rest on the ground (or float
+// on the pond) for a while, fade, and start over somewhere new; fireflies wander and blink in
+// place. Wind drift is the one thing with a history, so its running total is recorded into a
+// small ring texture the shader can look back into.
+
+export const PARTICLE_TOP = 18;
+
+export interface ParticleSettings {
+  shape: ParticleShape;
+  count: number;
+  colors: string[];
+  size: number;
+  // Units per second; 0 hovers instead of falling
+  fall: number;
+  // Horizontal wobble while airborne
+  sway: number;
+  // Radians per second
+  spin: number;
+  // Flips per second, for things that tumble as they fall
+  flutter: number;
+  // Seconds spent on the ground before fading
+  rest: number;
+  opacity: number;
+  additive?: boolean;
+}
+
+// --- Drift history ---
+
+const DRIFT_STEP = 0.25; // seconds per texel
+const DRIFT_SLOTS = 256; // must cover the longest particle cycle
+
+const createDriftHistory = () => {
+  const data = new Float32Array(DRIFT_SLOTS);
+  const texture = new THREE.DataTexture(data, DRIFT_SLOTS, 1, THREE.RedFormat, THREE.FloatType);
+  texture.minFilter = texture.magFilter = THREE.NearestFilter;
+  let total = 0;
+  let lastSlot = -1;
+
+  const slotAt = (time: number) => Math.floor(time / DRIFT_STEP);
+
+  return {
+    texture,
+    get total() {
+      return total;
+    },
+    // Running total of horizontal drift at `time` (to DRIFT_STEP resolution)
+    at(time: number) {
+      return data[((slotAt(time) % DRIFT_SLOTS) + DRIFT_SLOTS) % DRIFT_SLOTS];
+    },
+    record(time: number, delta: number, drift: number) {
+      total += drift * delta;
+      const slot = slotAt(time);
+      if (slot === lastSlot) return;
+      // Fill any slots a long frame skipped
+      for (let s = Math.max(lastSlot + 1, slot - DRIFT_SLOTS + 1); s <= slot; s++) data[s % DRIFT_SLOTS] = total;
+      lastSlot = slot;
+      texture.needsUpdate = true;
+    }
+  };
+};
+
+export const driftHistory = createDriftHistory();
+
+// --- Per-particle constants ---
+
+export interface ParticleLayout {
+  // x, z (0..1 across the area), cycle offset (0..1), rank (0..1: the highest drain first)
+  spawn: Float32Array;
+  // Fall time and full cycle length, in seconds
+  timing: Float32Array;
+  sizes: Float32Array;
+  colors: Float32Array;
+}
+
+export const layoutParticles = (settings: ParticleSettings, fallHeight: number, random: () => number): ParticleLayout => {
+  const { count, fall, rest } = settings;
+  const spawn = new Float32Array(count * 4);
+  const timing = new Float32Array(count * 2);
+  const sizes = new Float32Array(count);
+  const colors = new Float32Array(count * 3);
+  const palette = settings.colors.map((c) => new THREE.Color(c));
+  for (let i = 0; i < count; i++) {
+    spawn.set([random(), random(), random(), random()], i * 4);
+    const fallTime = fall > 0 ? fallHeight / (fall * (0.7 + random() * 0.6)) : 0;
+    timing.set([fallTime, fallTime + rest * (0.6 + random() * 0.8)], i * 2);
+    sizes[i] = 0.7 + random() * 0.6;
+    palette[Math.floor(random() * palette.length)].toArray(colors, i * 3);
+  }
+  return { spawn, timing, sizes, colors };
+};
+
+// Mirrors the falling path in the vertex shader: where particle `i` came down, if it landed
+// during the last `delta` seconds, or null
+export const particleLanding = (layout: ParticleLayout, i: number, time: number, delta: number, area: number, sway: number, driftScale = 1) => {
+  const fallTime = layout.timing[i * 2], cycle = layout.timing[i * 2 + 1];
+  if (fallTime <= 0) return null;
+  const [sx, sz, offset] = layout.spawn.subarray(i * 4, i * 4 + 3);
+  const lived = time + offset * cycle;
+  const lap = Math.floor(lived / cycle);
+  const age = lived - lap * cycle;
+  if (age < fallTime || age - delta >= fallTime) return null;
+  const birth = time - age, landed = birth + fallTime, phase = offset * Math.PI * 2;
+  const fract = (v: number) => v - Math.floor(v);
+  let x = (fract(sx + lap * 0.618034) - 0.5) * area + (driftHistory.at(landed) - driftHistory.at(birth)) * driftScale + Math.sin(landed * 0.5 + phase) * sway;
+  x = ((x + area / 2) % area + area) % area - area / 2;
+  const z = (fract(sz + lap * 0.381966) - 0.5) * area + Math.cos(landed * 0.3 + phase) * sway * 0.6;
+  return { x, z };
+};
+
+// --- Shaders ---
+
+export const PARTICLE_VERTEX = /* glsl */ `
+  uniform float uTime;
+  uniform float uWeight;
+  uniform float uTop;
+  uniform float uGround;
+  uniform float uArea;
+  uniform float uSway;
+  uniform float uSpin;
+  uniform float uFlutter;
+  uniform float uRest;
+  uniform float uSize;
+  uniform float uScale;
+  uniform float uDrift;
+  // 0 keeps particles out of the wind (reduced motion)
+  uniform float uDriftScale;
+  // x, z, radius, water level
+  uniform vec4 uPond;
+  uniform sampler2D uDriftHistory;
+
+  attribute vec4 aSpawn;
+  attribute vec2 aTiming;
+  attribute float aSize;
+  attribute vec3 aColor;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+  varying float vAngle;
+  varying float vFlip;
+
+  #include <fog_pars_vertex>
+
+  float driftAt(float t) {
+    float slot = mod(floor(t / ${DRIFT_STEP.toFixed(2)}), ${DRIFT_SLOTS.toFixed(1)});
+    return texture2D(uDriftHistory, vec2((slot + 0.5) / ${DRIFT_SLOTS.toFixed(1)}, 0.5)).r;
+  }
+
+  void main() {
+    float phase = aSpawn.z * 6.2831853;
+    vec3 p;
+    float alpha = 1.0;
+    float moment = uTime;
+    vFlip = 1.0;
+
+    #ifdef HOVERING
+      p.x = (aSpawn.x - 0.5) * uArea + sin(uTime * 0.13 + phase) * uSway + sin(uTime * 0.37 + phase * 3.0) * uSway * 0.3;
+      p.z = (aSpawn.y - 0.5) * uArea + cos(uTime * 0.11 + phase) * uSway;
+      p.y = uGround + 0.4 + aSpawn.w * 2.5 + sin(uTime * 0.5 + phase) * 0.3;
+      // Slow, uneven blinking
+      alpha = pow(max(0.0, sin(uTime * (0.8 + aSpawn.z) + phase)), 6.0);
+    #else
+      float fallTime = aTiming.x;
+      float cycle = aTiming.y;
+      float lived = uTime + aSpawn.z * cycle;
+      float lap = floor(lived / cycle);
+      float age = lived - lap * cycle;
+      float birth = uTime - age;
+      bool falling = age < fallTime;
+      // The moment it landed, or now: nothing moves once it is down
+      moment = birth + min(age, fallTime);
+
+      // Each round starts from a new spot
+      vec2 spawn = fract(aSpawn.xy + lap * vec2(0.618034, 0.381966));
+      float drifted = ((falling ? uDrift : driftAt(moment)) - driftAt(birth)) * uDriftScale;
+      p.x = (spawn.x - 0.5) * uArea + drifted + sin(moment * 0.5 + phase) * uSway;
+      p.x = mod(p.x + uArea * 0.5, uArea) - uArea * 0.5;
+      p.z = (spawn.y - 0.5) * uArea + cos(moment * 0.3 + phase) * uSway * 0.6;
+
+      float ground = distance(p.xz, uPond.xy) < uPond.z ? uPond.w : uGround;
+      p.y = falling ? max(uTop - age * (uTop - uGround) / fallTime, ground) : ground;
+
+      if (uFlutter > 0.0 && falling) vFlip = cos(moment * uFlutter * 6.2831853 + phase);
+      alpha = smoothstep(0.0, 1.5, age) * (1.0 - smoothstep(uRest * 0.6, uRest, age - fallTime));
+    #endif
+
+    // As their season leaves, the highest ranks fade first
+    alpha *= clamp((uWeight - aSpawn.w) * 10.0, 0.0, 1.0);
+    vAlpha = alpha;
+    vColor = aColor;
+    vAngle = phase + uSpin * moment * (0.6 + aSpawn.w * 0.8);
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = alpha > 0.0 ? uSize * aSize * uScale / -mvPosition.z : 0.0;
+    #include <fog_vertex>
+  }
+`;
+
+export const PARTICLE_FRAGMENT = /* glsl */ `
+  uniform sampler2D map;
+  uniform float uOpacity;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+  varying float vAngle;
+  varying float vFlip;
+
+  #include <common>
+  #include <fog_pars_fragment>
+
+  void main() {
+    if (vAlpha <= 0.001) discard;
+    vec2 uv = gl_PointCoord - 0.5;
+    float c = cos(vAngle), s = sin(vAngle);
+    uv = mat2(c, -s, s, c) * uv;
+    // Tumbling: seen edge-on the sprite narrows, and its underside is a shade darker
+    uv.x /= max(abs(vFlip), 0.2);
+    if (abs(uv.x) > 0.5) discard;
+    vec4 sprite = texture2D(map, uv + 0.5);
+    float a = sprite.a * vAlpha * uOpacity;
+    if (a < 0.02) discard;
+    gl_FragColor = vec4(vColor * sprite.rgb * (vFlip < 0.0 ? 0.8 : 1.0), a);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`;
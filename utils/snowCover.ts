@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+
+// --- Snow Cover ---
+// While winter holds, snow slowly settles on upward-facing surfaces and melts again after.
+// Materials opt in by taking `addSnowCover` as their onBeforeCompile; they all share one
+// uniform, so advancing the cover is a single number per frame.
+
+const SETTLE_SECONDS = 75; // bare to fully white under steady snowfall
+const MELT_SECONDS = 25;
+const SNOW_COLOR = new THREE.Color('#f4f6fa');
+
+const coverUniform = { value: 0 };
+const colorUniform = { value: SNOW_COLOR };
+
+export const snowCover = {
+  get amount() {
+    return coverUniform.value;
+  },
+  // `snowfall` is 0..1: how much of winter's snow is falling right now
+  advance(delta: number, snowfall: number) {
+    const rate = snowfall > 0 ? (delta / SETTLE_SECONDS) * snowfall : -delta / MELT_SECONDS;
+    coverUniform.value = THREE.MathUtils.clamp(coverUniform.value + rate, 0, 1);
+  }
+};
+
+// Whitens faces by how squarely they face the sky, with a little noise so the edge of the cover is ragged
+export const addSnowCover = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.uniforms.snowCover = coverUniform;
+  shader.uniforms.snowColor = colorUniform;
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', '#include <common>\nvarying float vSnowUp;\nvarying vec3 vSnowPosition;')
+    .replace('#include <begin_vertex>', `#include <begin_vertex>
+      vSnowUp = normalize(mat3(modelMatrix) * objectNormal).y;
+      vSnowPosition = (modelMatrix * vec4(transformed, 1.0)).xyz;`);
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', '#include <common>\nuniform float snowCover;\nuniform vec3 snowColor;\nvarying float vSnowUp;\nvarying vec3 vSnowPosition;')
+    .replace('#include <color_fragment>', `#include <color_fragment>
+      float snowGrain = fract(sin(dot(floor(vSnowPosition.xz * 12.0), vec2(12.9898, 78.233))) * 43758.5453);
+      float snowLine = 1.0 - snowCover * 1.1 + snowGrain * 0.15;
+      diffuseColor.rgb = mix(diffuseColor.rgb, snowColor, smoothstep(snowLine, snowLine + 0.15, vSnowUp) * min(1.0, snowCover * 3.0));`);
+};
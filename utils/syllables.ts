@@ -0,0 +1,75 @@
+import { HaikuData } from '../types';
+
+// --- English Syllable Counting ---
+// A vowel-group heuristic with the usual corrections (silent final e, -es/-ed endings, a silent e
+// before a suffix, vowel pairs sounded apart). English spelling defeats any rule set, so results
+// are a guide for flagging lines, not a verdict. Cases the rules are meant to get right:
+//
+//   pierces 2   horses 2   branches 2   leaves 1   stones 1
+//   smiled 1    waited 2   cradled 2    called 1
+//   little 2    tables 2   smile 1      there 1
+//   lonely 2    hopeful 2  statement 2  likeness 2 timeless 2  loneliness 3  settlement 3
+//   create 2    area 3     violet 3     piano 3    ocean 2    nation 2   special 2
+//   going 2     client 2   quiet 2      cruel 2    fluid 2    ruin 2     chaos 2
+//   video 3     theory 3   pigeon 2     friend 1   fruit 1    blue 1     guide 1
+
+export const HAIKU_PATTERN: [number, number, number] = [5, 7, 5];
+
+// Words the rules get wrong often enough to matter in short poems
+const EXCEPTIONS: Record<string, number> = {
+  every: 2, evening: 2, fire: 1, hour: 1, our: 1, flower: 2, flowers: 2, heaven: 2,
+  poem: 2, poems: 2, quiet: 2, haiku: 2, being: 2, lion: 2, idea: 3, business: 2, people: 2, flea: 1, quietly: 3,
+  science: 2, react: 2, ideal: 3, museum: 3, element: 3, elements: 3
+};
+
+// A silent e keeps quiet before a suffix too ("lonely", "hopeful"), unless it ends a syllabic -le
+// ("settlement")
+const dropSuffixE = (w: string) => w.replace(/([^aeiouy])e(ly|liness|ful|fully|less|ment|ments|ness)$/, (match, before: string, suffix: string) =>
+  /[^aeiouyl]l$/.test(w.slice(0, -suffix.length - 1)) ? match : before + suffix);
+
+// How many letters at the end make no syllable of their own. A final e (or -es, -ed) is silent
+// after a consonant, but not in a syllabic -le ("little", "tables", "cradled"); -es is sounded
+// after a sibilant ("pierces") and -ed after t or d ("waited").
+const silentEnding = (w: string) => {
+  if (/[^aeiouyl]l(?:e|es|ed)$/.test(w) || /(?:[sxzcg]|[cs]h)es$/.test(w) || /[td]ed$/.test(w)) return 0;
+  return /[^aeiouy](e|es|ed)$/.exec(w)?.[1].length ?? 0;
+};
+
+// Vowel pairs usually sounded apart, each with the neighbours where it runs together instead
+const HIATUS = [
+  // "violet", "piano"; not in -tion, -cial, -sion and the like, nor -lion/-nion, where the i glides
+  /[^tscxgln]i[ao]/g,
+  // "client", "diet"; not "ancient", "patient", nor "friend" or "field"
+  /[^tcs]ie(?:t|n[ct])/g,
+  // "cruel", "fluent", "duet"; not after q or g ("queen", "guest"), nor a final "blue"
+  /[^qg]ue[lnt]/g,
+  // "fluid", "ruin"; not "fruit", "build" or "guide"
+  /[^qg]ui[dn]/g,
+  // "video", "theory", "geometry"; not "pigeon" or "luncheon"
+  /(?<![gc]|ch)eo|^geo/g,
+  // "chaos"
+  /ao/g,
+  // "going", "doing"
+  /oing/g,
+  // A final "area", "create"
+  /ea(?:te)?$/g
+];
+
+const hiatusCount = (w: string) => HIATUS.reduce((sum, pattern) => sum + (w.match(pattern)?.length ?? 0), 0);
+
+export const countWordSyllables = (word: string) => {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 0;
+  if (w in EXCEPTIONS) return EXCEPTIONS[w];
+  if (w.length <= 3) return 1;
+  const spoken = dropSuffixE(w);
+  const trimmed = spoken.slice(0, spoken.length - silentEnding(spoken)).replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]+/g)?.length ?? 0) + hiatusCount(spoken));
+};
+
+// Words are split on anything but letters and apostrophes, so "blossom's" stays one word
+export const countLineSyllables = (line: string) =>
+  line.split(/[^A-Za-z']+/).reduce((sum, word) => sum + countWordSyllables(word), 0);
+
+export const haikuSyllables = (haiku: Pick<HaikuData, 'line1' | 'line2' | 'line3'>): [number, number, number] =>
+  [countLineSyllables(haiku.line1), countLineSyllables(haiku.line2), countLineSyllables(haiku.line3)];
@@ -0,0 +1,220 @@
+import * as THREE from 'three';
+import { openGardenDb, promisifyRequest, STORE_TEXTURES } from './db';
+import { logRecovered } from './log';
+import { paintTexture, textureKey, TextureSpec } from './proceduralTextures';
+import type { TextureJob, TextureJobResult } from './textureWorker';
+
+// --- Texture Cache ---
+// Procedural textures are painted off the main thread and shared: every material asking for the
+// same spec under the same seed gets the same THREE.Texture, which is disposed once the last one
+// lets go. Painted textures are also kept in IndexedDB as PNGs, so a return visit only decodes.
+// Each texture is handed out right away and fills in when ready; until then it is registered
+// with THREE.DefaultLoadingManager so the loading overlay shows real progress.
+
+const MAX_STORED = 60;
+// Releases wait this long before disposing, so a remount (or StrictMode's double effects, or the commit
+// after a render) can take the texture back
+const DISPOSE_DELAY_MS = 2000;
+
+interface TextureRecord {
+  key: string;
+  blob: Blob;
+  usedAt: number;
+}
+
+interface CacheEntry {
+  texture: THREE.Texture;
+  refs: number;
+  disposeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Painted {
+  image: ImageBitmap | HTMLCanvasElement;
+  blob: Blob | null;
+}
+
+// --- Worker pool ---
+
+const createWorkerPool = () => {
+  const workers: { worker: Worker; pending: number }[] = [];
+  const jobs = new Map<number, { resolve: (result: Painted) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+  let usable = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+  const spawn = () => {
+    const worker = new Worker(new URL('./textureWorker.ts', import.meta.url), { type: 'module' });
+    const slot = { worker, pending: 0 };
+    worker.addEventListener('message', (event: MessageEvent<TextureJobResult>) => {
+      const result = event.data;
+      const job = jobs.get(result.id);
+      if (!job) return;
+      jobs.delete(result.id);
+      slot.pending--;
+      if ('error' in result) job.reject(new Error(result.error));
+      else job.resolve({ image: result.bitmap, blob: result.blob });
+    });
+    worker.addEventListener('error', () => {
+      // A worker that can't even load (e.g. blocked by CSP) won't do better next time
+      usable = false;
+      jobs.forEach((job) => job.reject(new Error('Texture worker failed')));
+      jobs.clear();
+    });
+    workers.push(slot);
+    return slot;
+  };
+
+  const size = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+  return {
+    get usable() {
+      return usable;
+    },
+    paint(spec: TextureSpec, seed: string) {
+      return new Promise<Painted>((resolve, reject) => {
+        const idle = workers.reduce<typeof workers[number] | null>((best, w) => (!best || w.pending < best.pending ? w : best), null);
+        const slot = idle && (idle.pending === 0 || workers.length >= size()) ? idle : spawn();
+        const id = nextId++;
+        jobs.set(id, { resolve, reject });
+        slot.pending++;
+        slot.worker.postMessage({ id, spec, seed } satisfies TextureJob);
+      });
+    }
+  };
+};
+
+const pool = createWorkerPool();
+
+// Where workers can't draw, paint on the main thread like before
+const paintHere = (spec: TextureSpec): Painted => {
+  const canvas = document.createElement('canvas');
+  canvas.width = spec.width;
+  canvas.height = spec.height;
+  paintTexture(canvas.getContext('2d')!, spec);
+  return { image: canvas, blob: null };
+};
+
+const paint = async (spec: TextureSpec, seed: string): Promise<Painted> => {
+  if (pool.usable) {
+    try {
+      return await pool.paint(spec, seed);
+    } catch (err) {
+      logRecovered('Texture worker failed, painting on the main thread instead:', err);
+    }
+  }
+  return paintHere(spec);
+};
+
+// --- Persistent cache (IndexedDB) ---
+
+const loadStored = async (key: string) => {
+  const db = await openGardenDb();
+  const store = db.transaction(STORE_TEXTURES, 'readwrite').objectStore(STORE_TEXTURES);
+  const record = await promisifyRequest(store.get(key) as IDBRequest<TextureRecord | undefined>);
+  if (record) store.put({ ...record, usedAt: Date.now() } satisfies TextureRecord);
+  return record?.blob ?? null;
+};
+
+// Keeps the most recently used MAX_STORED textures, so seeds tried once don't pile up
+const store = async (key: string, blob: Blob) => {
+  const db = await openGardenDb();
+  const objects = db.transaction(STORE_TEXTURES, 'readwrite').objectStore(STORE_TEXTURES);
+  await promisifyRequest(objects.put({ key, blob, usedAt: Date.now() } satisfies TextureRecord));
+  let excess = (await promisifyRequest(objects.count())) - MAX_STORED;
+  if (excess <= 0) return;
+  const cursor = objects.index('usedAt').openCursor();
+  cursor.onsuccess = () => {
+    if (!cursor.result || excess-- <= 0) return;
+    cursor.result.delete();
+    cursor.result.continue();
+  };
+};
+
+// --- Shared textures ---
+
+const entries = new Map<string, CacheEntry>();
+
+const load = async (key: string, spec: TextureSpec, seed: string, entry: CacheEntry) => {
+  THREE.DefaultLoadingManager.itemStart(key);
+  try {
+    let painted: Painted | null = null;
+    const blob = await loadStored(key).catch(() => null);
+    if (blob) {
+      try {
+        painted = { image: await createImageBitmap(blob, { imageOrientation: 'flipY' }), blob: null };
+      } catch {
+        // A damaged record is simply painted again
+      }
+    }
+    if (!painted) {
+      painted = await paint(spec, seed);
+      if (painted.blob) store(key, painted.blob).catch((err) => logRecovered('Could not store texture:', err));
+    }
+    if (entries.get(key) !== entry) {
+      // Released while it was being painted
+      if ('close' in painted.image) painted.image.close();
+    } else {
+      const { texture } = entry;
+      texture.image = painted.image;
+      // ImageBitmaps arrive pre-flipped (WebGL ignores the flip for them); canvases are flipped on upload
+      texture.flipY = !('close' in painted.image);
+      texture.needsUpdate = true;
+    }
+    THREE.DefaultLoadingManager.itemEnd(key);
+  } catch (err) {
+    logRecovered(`Could not generate texture ${key}:`, err);
+    THREE.DefaultLoadingManager.itemError(key);
+    THREE.DefaultLoadingManager.itemEnd(key);
+  }
+};
+
+const dispose = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry || entry.refs > 0) return;
+  entries.delete(key);
+  entry.texture.dispose();
+  const image = entry.texture.image as ImageBitmap | HTMLCanvasElement | null;
+  if (image && 'close' in image) image.close();
+};
+
+const scheduleDispose = (key: string, entry: CacheEntry) => {
+  entry.disposeTimer = setTimeout(() => {
+    entry.disposeTimer = null;
+    dispose(key);
+  }, DISPOSE_DELAY_MS);
+};
+
+// Returns the shared texture for `spec` (possibly still empty) and its key for retain/release. Called
+// during render, so a new entry starts out released: a render React throws away never retains it, and
+// it goes the way of any other texture nobody holds.
+export const getProceduralTexture = (spec: TextureSpec, seed: string) => {
+  const key = textureKey(spec, seed);
+  let entry = entries.get(key);
+  if (!entry) {
+    const texture = new THREE.Texture();
+    if (spec.kind === 'organic') texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.anisotropy = 16; // Maximize anisotropy for sharpness at angles
+    texture.name = key;
+    entry = { texture, refs: 0, disposeTimer: null };
+    entries.set(key, entry);
+    scheduleDispose(key, entry);
+    load(key, spec, seed, entry);
+  }
+  return { key, texture: entry.texture };
+};
+
+export const retainTexture = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entry.refs++;
+  if (entry.disposeTimer) clearTimeout(entry.disposeTimer);
+  entry.disposeTimer = null;
+};
+
+export const releaseTexture = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entry.refs = Math.max(0, entry.refs - 1);
+  if (entry.refs === 0) scheduleDispose(key, entry);
+};
@@ -0,0 +1,31 @@
+import { paintTexture, TextureSpec } from './proceduralTextures';
+import { setGardenSeed } from './random';
+
+// --- Texture Worker ---
+// Paints one procedural texture per message on an OffscreenCanvas and hands back both the
+// pixels, ready to upload, and a PNG for the persistent cache.
+
+export interface TextureJob {
+  id: number;
+  spec: TextureSpec;
+  seed: string;
+}
+
+export type TextureJobResult =
+  | { id: number; bitmap: ImageBitmap; blob: Blob }
+  | { id: number; error: string };
+
+self.addEventListener('message', async (event: MessageEvent<TextureJob>) => {
+  const { id, spec, seed } = event.data;
+  try {
+    setGardenSeed(seed);
+    const canvas = new OffscreenCanvas(spec.width, spec.height);
+    paintTexture(canvas.getContext('2d')!, spec);
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+    // WebGL won't flip ImageBitmaps on upload, so they travel already flipped
+    const bitmap = await createImageBitmap(canvas, { imageOrientation: 'flipY' });
+    self.postMessage({ id, bitmap, blob } satisfies TextureJobResult, { transfer: [bitmap] });
+  } catch (err) {
+    self.postMessage({ id, error: String(err) } satisfies TextureJobResult);
+  }
+});
@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import { TourChapter, WaypointId } from '../types';
+
+// --- Scroll Tour ---
+// The tour is data: chapters in order, each a camera position and look target. The camera rests on
+// a chapter for its dwell, then travels one page of scroll to the next along Catmull-Rom curves
+// through all positions (and, separately, all look targets), easing out of one chapter and into
+// the next. The scroll length follows from the chapters, so adding one only means adding data.
+
+export const TOUR_CHAPTERS: TourChapter[] = [
+  { id: 'start', slug: 'intro', title: 'intro.title', position: [0, 7, 18], look: [0, 0, 0] },
+  { id: 'pond', slug: 'flow', title: 'flow.title', position: [0, 2.5, 9], look: [0, 0.5, 0] },
+  { id: 'stone', slug: 'stillness', title: 'stillness.title', position: [-6, 1.8, 5], look: [-4, 0.2, 2] },
+  { id: 'tea', slug: 'harmony', title: 'harmony.title', position: [6, 1.5, -2], look: [6, 0.5, -5] },
+  { id: 'moss', slug: 'age', title: 'age.title', position: [-5, 0.8, -6], look: [-5, 0.2, -8] },
+  { id: 'sky', slug: 'mu', title: 'mu.title', position: [0, 1, 0], look: [0, 8, -12] }
+];
+
+// Pages of scroll between one chapter and the next
+const TRAVEL_PAGES = 1;
+
+export interface TourStop {
+  chapter: TourChapter;
+  // Pages scrolled when the camera arrives, and when it sets off again
+  start: number;
+  end: number;
+}
+
+const toVector = (v: TourChapter['position']) => new THREE.Vector3(...v);
+
+export const createTour = (chapters: TourChapter[]) => {
+  let page = 0;
+  const stops: TourStop[] = chapters.map((chapter) => {
+    const start = page;
+    const end = start + Math.max(0, chapter.dwell ?? 0);
+    page = end + TRAVEL_PAGES;
+    return { chapter, start, end };
+  });
+  const last = stops[stops.length - 1];
+  // Scroll length, counting the screen already in view at the top
+  const pages = last.end + 1;
+  const segments = Math.max(1, chapters.length - 1);
+  // A curve needs two points; a single chapter simply repeats
+  const points = (pick: (c: TourChapter) => TourChapter['position']) =>
+    chapters.length > 1 ? chapters.map((c) => toVector(pick(c))) : [toVector(pick(chapters[0])), toVector(pick(chapters[0]))];
+  const positions = new THREE.CatmullRomCurve3(points((c) => c.position), false, 'centripetal');
+  const looks = new THREE.CatmullRomCurve3(points((c) => c.look), false, 'centripetal');
+
+  return {
+    stops,
+    pages,
+
+    // Scroll offset (0..1) at which the camera reaches a chapter
+    offsetOf(index: number) {
+      return pages > 1 ? stops[index].start / (pages - 1) : 0;
+    },
+
+    // Pages of scroll from a chapter's arrival to the next chapter's (or the end)
+    spanOf(index: number) {
+      return (index + 1 < stops.length ? stops[index + 1].start : pages) - stops[index].start;
+    },
+
+    chapter(id: WaypointId) {
+      return chapters.find((c) => c.id === id) ?? chapters[0];
+    },
+
+    // The chapter the view belongs to: the last one reached, or the next once it is less than half a page off
+    indexAt(scrolled: number) {
+      let index = 0;
+      stops.forEach((stop, i) => { if (scrolled >= stop.start - TRAVEL_PAGES / 2) index = i; });
+      return index;
+    },
+
+    // Chapter index named by a URL hash such as '#stillness', or null for none
+    indexOfHash(hash: string) {
+      const slug = decodeURIComponent(hash.replace(/^#/, '')).toLowerCase();
+      const index = chapters.findIndex((c) => c.slug === slug);
+      return index < 0 ? null : index;
+    },
+
+    // Writes the view `scrolled` pages into the tour into `position` and `look`, and returns the field
+    // of view there (`baseFov` where chapters leave it out)
+    sample(scrolled: number, position: THREE.Vector3, look: THREE.Vector3, baseFov: number) {
+      let index = stops.length - 1, travel = 0;
+      for (let i = 0; i < stops.length - 1; i++) {
+        if (scrolled < stops[i + 1].start) {
+          index = i;
+          travel = THREE.MathUtils.smoothstep(scrolled, stops[i].end, stops[i + 1].start);
+          break;
+        }
+      }
+      const t = Math.min(1, (index + travel) / segments);
+      positions.getPoint(t, position);
+      looks.getPoint(t, look);
+      const from = chapters[index].fov ?? baseFov;
+      const to = chapters[Math.min(index + 1, chapters.length - 1)].fov ?? baseFov;
+      return THREE.MathUtils.lerp(from, to, travel);
+    }
+  };
+};
+
+export type Tour = ReturnType<typeof createTour>;
+
+export const GARDEN_TOUR = createTour(TOUR_CHAPTERS);
+
+// --- Chapter Jumps ---
+// Links and the chapter rail ask for a chapter here; the camera rig takes the request once the
+// scroll is ready and glides straight there instead of running the path in between.
+let pendingJump: number | null = null;
+
+export const requestChapter = (index: number) => { pendingJump = index; };
+
+// The chapter asked for and not yet taken up, if any
+export const pendingChapterRequest = () => pendingJump;
+
+export const takeChapterRequest = () => {
+  const index = pendingJump;
+  pendingJump = null;
+  return index;
+};
+
+// Puts the chapter in the address bar as a new history entry, so back and forward step between chapters.
+// The first chapter named only replaces the bare address.
+export const writeChapterToUrl = (slug: string) => {
+  if (window.location.hash === `#${slug}`) return;
+  const url = new URL(window.location.href);
+  const fresh = !url.hash;
+  url.hash = slug;
+  if (fresh) window.history.replaceState(window.history.state, '', url);
+  else window.history.pushState(window.history.state, '', url);
+};
@@ -0,0 +1,57 @@
+// --- JSON Validation ---
+// Shared by the garden layout and the haiku and koan libraries. A document is checked in full
+// and every problem is collected as a readable issue, rather than stopping at the first.
+
+export class ValidationError extends Error {
+  issues: string[];
+
+  // `subject` names what failed, e.g. 'garden layout'
+  constructor(subject: string, issues: string[]) {
+    super(`Invalid ${subject}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+export const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const checkVersion = (version: unknown, expected: number, issues: string[]) => {
+  if (version === expected) return;
+  issues.push(isFiniteNumber(version) && version > expected
+    ? `Version ${version} is newer than this garden supports (${expected}).`
+    : `"version" must be ${expected}.`);
+};
+
+// Parses one list entry, pushing its problems onto `issues`; null when it can't be used
+export type EntryParser<T> = (raw: unknown, index: number, issues: string[]) => T | null;
+
+// The entries of `data[key]` that parsed; the rest are described in `issues`
+export const parseEntries = <T>(data: Record<string, unknown>, key: string, parseEntry: EntryParser<T>, issues: string[]): T[] => {
+  const list = data[key];
+  if (!Array.isArray(list)) {
+    issues.push(`"${key}" must be an array.`);
+    return [];
+  }
+  return list.map((raw, i) => parseEntry(raw, i, issues)).filter((entry): entry is T => entry !== null);
+};
+
+export interface ParsedLibrary<T> {
+  entries: T[];
+  issues: string[];
+}
+
+// A library document, { "version": n, "<key>": [...] }. Imports reject it if anything is wrong;
+// a saved copy keeps whatever entries still parse.
+export const parseLibrary = <T>(data: unknown, version: number, key: string, parseEntry: EntryParser<T>): ParsedLibrary<T> => {
+  if (!isObject(data)) return { entries: [], issues: ['Library must be a JSON object.'] };
+  const issues: string[] = [];
+  checkVersion(data.version, version, issues);
+  return { entries: parseEntries(data, key, parseEntry, issues), issues };
+};
+
+// Imported entries keep their ids unless they clash with one already in the library
+export const mergeLibrary = <T extends { id?: string }>(library: T[], incoming: T[], createId: () => string): T[] => {
+  const taken = new Set(library.map((entry) => entry.id));
+  return [...library, ...incoming.map((entry) => (taken.has(entry.id) ? { ...entry, id: createId() } : entry))];
+};
@@ -0,0 +1,174 @@
+import * as THREE from 'three';
+
+// --- Pond Water Surface ---
+// A heightfield simulated on the GPU: every step pulls each texel toward the average of its
+// neighbours (the discrete wave equation), stamps queued disturbances in as smooth dips and
+// damps the lot a little. A second pass derives the normal map the pond's reflector bends its
+// reflection with. Heights live in R, velocity in G.
+
+export const WATER_SIM_SIZE = 256;
+export const MAX_WATER_DROPS = 16;
+
+const STEP_SECONDS = 1 / 60;
+const MAX_STEPS_PER_FRAME = 3;
+const DAMPING = 0.985;
+const NORMAL_STRENGTH = 24;
+
+export interface WaterDrop {
+  // Texture coordinates of the centre
+  u: number;
+  v: number;
+  radius: number;
+  depth: number;
+}
+
+export interface WaterSurface {
+  normalMap: THREE.Texture;
+  disturb: (drop: WaterDrop) => void;
+  update: (renderer: THREE.WebGLRenderer, delta: number) => void;
+  dispose: () => void;
+}
+
+const VERTEX = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const STEP_FRAGMENT = /* glsl */ `
+  uniform sampler2D state;
+  uniform vec2 texel;
+  uniform vec4 drops[MAX_DROPS];
+  uniform int dropCount;
+  uniform float damping;
+  varying vec2 vUv;
+
+  void main() {
+    vec4 info = texture2D(state, vUv);
+    float average = (
+      texture2D(state, vUv - vec2(texel.x, 0.0)).r +
+      texture2D(state, vUv + vec2(texel.x, 0.0)).r +
+      texture2D(state, vUv - vec2(0.0, texel.y)).r +
+      texture2D(state, vUv + vec2(0.0, texel.y)).r
+    ) * 0.25;
+    info.g += (average - info.r) * 2.0;
+    info.g *= damping;
+    info.r += info.g;
+
+    for (int i = 0; i < MAX_DROPS; i++) {
+      if (i >= dropCount) break;
+      float d = max(0.0, 1.0 - length(vUv - drops[i].xy) / drops[i].z);
+      info.r -= (0.5 - cos(d * 3.14159265) * 0.5) * drops[i].w;
+    }
+
+    // The stone ring holds the water: nothing moves past the rim
+    float rim = 1.0 - smoothstep(0.47, 0.5, length(vUv - 0.5));
+    gl_FragColor = vec4(info.rg * rim, 0.0, 1.0);
+  }
+`;
+
+const NORMAL_FRAGMENT = /* glsl */ `
+  uniform sampler2D state;
+  uniform vec2 texel;
+  uniform float strength;
+  varying vec2 vUv;
+
+  void main() {
+    float dx = texture2D(state, vUv + vec2(texel.x, 0.0)).r - texture2D(state, vUv - vec2(texel.x, 0.0)).r;
+    float dy = texture2D(state, vUv + vec2(0.0, texel.y)).r - texture2D(state, vUv - vec2(0.0, texel.y)).r;
+    vec3 n = normalize(vec3(-dx * strength, -dy * strength, 1.0));
+    gl_FragColor = vec4(n.xy * 0.5 + 0.5, n.z, 1.0);
+  }
+`;
+
+export const createWaterSurface = (size = WATER_SIM_SIZE): WaterSurface => {
+  const simTarget = () => new THREE.WebGLRenderTarget(size, size, {
+    type: THREE.HalfFloatType,
+    format: THREE.RGBAFormat,
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    depthBuffer: false
+  });
+  let read = simTarget(), write = simTarget();
+  const normals = new THREE.WebGLRenderTarget(size, size, { minFilter: THREE.LinearFilter, magFilter: THREE.LinearFilter, depthBuffer: false });
+
+  const texel = new THREE.Vector2(1 / size, 1 / size);
+  const dropUniforms = new Array(MAX_WATER_DROPS).fill(0).map(() => new THREE.Vector4());
+  const stepMaterial = new THREE.ShaderMaterial({
+    defines: { MAX_DROPS: MAX_WATER_DROPS },
+    uniforms: {
+      state: { value: read.texture },
+      texel: { value: texel },
+      drops: { value: dropUniforms },
+      dropCount: { value: 0 },
+      damping: { value: DAMPING }
+    },
+    vertexShader: VERTEX,
+    fragmentShader: STEP_FRAGMENT
+  });
+  const normalMaterial = new THREE.ShaderMaterial({
+    uniforms: { state: { value: read.texture }, texel: { value: texel }, strength: { value: NORMAL_STRENGTH } },
+    vertexShader: VERTEX,
+    fragmentShader: NORMAL_FRAGMENT
+  });
+
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), stepMaterial);
+  quad.frustumCulled = false;
+  const scene = new THREE.Scene().add(quad);
+  const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  const queued: WaterDrop[] = [];
+  let debt = 0;
+  // Calm water needs no passes; keep stepping until waves have had time to die out.
+  // Starts stirring so the first passes write a flat normal map.
+  let stirring = 1;
+
+  const step = (renderer: THREE.WebGLRenderer) => {
+    const drops = queued.splice(0, MAX_WATER_DROPS);
+    drops.forEach((d, i) => dropUniforms[i].set(d.u, d.v, d.radius, d.depth));
+    stepMaterial.uniforms.dropCount.value = drops.length;
+    stepMaterial.uniforms.state.value = read.texture;
+    quad.material = stepMaterial;
+    renderer.setRenderTarget(write);
+    renderer.render(scene, camera);
+    [read, write] = [write, read];
+  };
+
+  return {
+    normalMap: normals.texture,
+
+    disturb(drop) {
+      queued.push(drop);
+      stirring = 8;
+    },
+
+    update(renderer, delta) {
+      if (stirring <= 0) return;
+      stirring -= delta;
+      debt = Math.min(debt + delta, STEP_SECONDS * MAX_STEPS_PER_FRAME);
+      if (debt < STEP_SECONDS) return;
+
+      const previous = renderer.getRenderTarget();
+      while (debt >= STEP_SECONDS) {
+        debt -= STEP_SECONDS;
+        step(renderer);
+      }
+      normalMaterial.uniforms.state.value = read.texture;
+      quad.material = normalMaterial;
+      renderer.setRenderTarget(normals);
+      renderer.render(scene, camera);
+      renderer.setRenderTarget(previous);
+    },
+
+    dispose() {
+      read.dispose();
+      write.dispose();
+      normals.dispose();
+      stepMaterial.dispose();
+      normalMaterial.dispose();
+      quad.geometry.dispose();
+    }
+  };
+};
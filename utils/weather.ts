@@ -0,0 +1,75 @@
+import { Season, Weather } from '../types';
+import { RandomFn } from './random';
+
+// --- Weather ---
+// Each weather is a handful of knobs. The scene eases the live values toward the chosen
+// weather's knobs, so changes roll in rather than switch.
+
+interface WeatherConditions {
+  rain: number;      // 0..1 share of the rain streaks in use
+  wind: number;      // gust multiplier; 1 is the garden's usual breeze
+  drift: number;     // steady push along +x for anything airborne, in units per second
+  mist: number;      // 0..1, pulls the fog in and greys it
+  overcast: number;  // 0..1, how much cloud cover dims the sun or moon
+}
+
+export const WEATHER_CONDITIONS: Record<Weather, WeatherConditions> = {
+  [Weather.Clear]: { rain: 0, wind: 1, drift: 0, mist: 0, overcast: 0 },
+  [Weather.Drizzle]: { rain: 0.25, wind: 1.2, drift: 0.3, mist: 0.2, overcast: 0.4 },
+  [Weather.HeavyRain]: { rain: 1, wind: 2, drift: 0.8, mist: 0.35, overcast: 0.7 },
+  [Weather.Mist]: { rain: 0, wind: 0.4, drift: 0, mist: 1, overcast: 0.5 },
+  [Weather.Windy]: { rain: 0, wind: 3, drift: 2.5, mist: 0, overcast: 0.1 }
+};
+
+const WEATHER_EASE_SECONDS = 4; // time constant
+
+// The live conditions, eased by the scene each frame
+export const weatherClock = {
+  ...WEATHER_CONDITIONS[Weather.Clear],
+  advance(delta: number, weather: Weather) {
+    const target = WEATHER_CONDITIONS[weather];
+    const k = 1 - Math.exp(-delta / WEATHER_EASE_SECONDS);
+    this.rain += (target.rain - this.rain) * k;
+    this.wind += (target.wind - this.wind) * k;
+    this.drift += (target.drift - this.drift) * k;
+    this.mist += (target.mist - this.mist) * k;
+    this.overcast += (target.overcast - this.overcast) * k;
+  }
+};
+
+// --- Auto Weather ---
+// A small Markov chain: likely successors of each weather, reweighted by the season
+// (spring drizzle, summer downpours, autumn gales and mist, dry winters).
+
+export const WEATHER_DWELL_SECONDS: [number, number] = [40, 120];
+
+const NEXT_WEATHER: Record<Weather, Partial<Record<Weather, number>>> = {
+  [Weather.Clear]: { [Weather.Clear]: 3, [Weather.Windy]: 1, [Weather.Mist]: 1, [Weather.Drizzle]: 1 },
+  [Weather.Drizzle]: { [Weather.Drizzle]: 1, [Weather.HeavyRain]: 1, [Weather.Clear]: 1, [Weather.Mist]: 1 },
+  [Weather.HeavyRain]: { [Weather.Drizzle]: 2, [Weather.HeavyRain]: 1, [Weather.Windy]: 1 },
+  [Weather.Mist]: { [Weather.Mist]: 1, [Weather.Clear]: 2, [Weather.Drizzle]: 1 },
+  [Weather.Windy]: { [Weather.Windy]: 1, [Weather.Clear]: 2, [Weather.Drizzle]: 1 }
+};
+
+const SEASON_BIAS: Record<Season, Partial<Record<Weather, number>>> = {
+  [Season.Spring]: { [Weather.Drizzle]: 1.5, [Weather.Mist]: 1.2 },
+  [Season.Summer]: { [Weather.HeavyRain]: 1.5, [Weather.Mist]: 0.5 },
+  [Season.Autumn]: { [Weather.Windy]: 1.5, [Weather.Mist]: 1.5 },
+  [Season.Winter]: { [Weather.Drizzle]: 0.3, [Weather.HeavyRain]: 0.1, [Weather.Mist]: 1.3 }
+};
+
+export const pickNextWeather = (current: Weather, season: Season, random: RandomFn): Weather => {
+  const options = (Object.entries(NEXT_WEATHER[current]) as [Weather, number][])
+    .map(([weather, weight]) => [weather, weight * (SEASON_BIAS[season][weather] ?? 1)] as const);
+  let roll = random() * options.reduce((sum, [, weight]) => sum + weight, 0);
+  for (const [weather, weight] of options) {
+    roll -= weight;
+    if (roll <= 0) return weather;
+  }
+  return current;
+};
+
+export const weatherDwell = (random: RandomFn) => {
+  const [min, max] = WEATHER_DWELL_SECONDS;
+  return min + random() * (max - min);
+};
@@ -0,0 +1,130 @@
+// --- WebM Muxer ---
+// Wraps frames from a WebCodecs VideoEncoder in a minimal WebM file: one video track, a cluster
+// per keyframe, each frame a SimpleBlock at its own timestamp. The whole file is built at the end,
+// so every element's size is known and nothing has to be patched afterwards.
+
+export interface WebmFrame {
+  data: Uint8Array;
+  // Microseconds from the start of the clip
+  timestamp: number;
+  key: boolean;
+}
+
+export interface WebmTrack {
+  // Matroska codec id, e.g. 'V_VP9'
+  codec: string;
+  width: number;
+  height: number;
+}
+
+// Timestamps are stored in milliseconds
+const TIMECODE_SCALE = 1_000_000;
+// A block's timestamp is a signed 16-bit offset from its cluster's
+const MAX_CLUSTER_SPAN = 30_000;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach((p) => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+// EBML variable-length size: the leading 1 bit marks how many bytes follow
+const sizeBytes = (size: number) => {
+  let width = 1;
+  while (size >= 2 ** (7 * width) - 1) width++;
+  const bytes = new Array<number>(width);
+  let v = size;
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  bytes[0] |= 1 << (8 - width);
+  return bytes;
+};
+
+const element = (id: number, body: Uint8Array) => concat([new Uint8Array([...idBytes(id), ...sizeBytes(body.length)]), body]);
+
+const master = (id: number, children: Uint8Array[]) => element(id, concat(children));
+
+const uint = (id: number, value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || !bytes.length; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return element(id, new Uint8Array(bytes));
+};
+
+const float = (id: number, value: number) => {
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, value);
+  return element(id, body);
+};
+
+const text = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+const simpleBlock = (frame: WebmFrame, offset: number) => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  header[0] = 0x81; // track 1
+  view.setInt16(1, offset);
+  header[3] = frame.key ? 0x80 : 0;
+  return element(0xa3, concat([header, frame.data]));
+};
+
+// `duration` in microseconds; frames in decode order, starting with a keyframe
+export const muxWebm = (track: WebmTrack, frames: WebmFrame[], duration: number): Blob => {
+  const header = master(0x1a45dfa3, [
+    uint(0x4286, 1), // EBMLVersion
+    uint(0x42f7, 1), // EBMLReadVersion
+    uint(0x42f2, 4), // EBMLMaxIDLength
+    uint(0x42f3, 8), // EBMLMaxSizeLength
+    text(0x4282, 'webm'), // DocType
+    uint(0x4287, 2), // DocTypeVersion
+    uint(0x4285, 2) // DocTypeReadVersion
+  ]);
+
+  const info = master(0x1549a966, [
+    uint(0x2ad7b1, TIMECODE_SCALE),
+    text(0x4d80, 'zen-garden'), // MuxingApp
+    text(0x5741, 'zen-garden'), // WritingApp
+    float(0x4489, duration / 1000) // Duration
+  ]);
+
+  const tracks = master(0x1654ae6b, [
+    master(0xae, [
+      uint(0xd7, 1), // TrackNumber
+      uint(0x73c5, 1), // TrackUID
+      uint(0x83, 1), // TrackType: video
+      text(0x86, track.codec),
+      master(0xe0, [uint(0xb0, track.width), uint(0xba, track.height)])
+    ])
+  ]);
+
+  const clusters: Uint8Array[] = [];
+  let start = 0;
+  let blocks: Uint8Array[] = [];
+  const closeCluster = () => {
+    if (blocks.length) clusters.push(master(0x1f43b675, [uint(0xe7, start), ...blocks]));
+    blocks = [];
+  };
+  frames.forEach((frame) => {
+    const time = Math.round(frame.timestamp / 1000);
+    if (!blocks.length || frame.key || time - start > MAX_CLUSTER_SPAN) {
+      closeCluster();
+      start = time;
+    }
+    blocks.push(simpleBlock(frame, time - start));
+  });
+  closeCluster();
+
+  const segment = master(0x18538067, [info, tracks, ...clusters]);
+  return new Blob([header, segment] as BlobPart[], { type: 'video/webm' });
+};
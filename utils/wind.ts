@@ -0,0 +1,14 @@
+import { weatherClock } from './weather';
+
+// --- Wind Field ---
+// One gust function shared by everything that reacts to wind (grass and bamboo sway, particle
+// drift, wind ambience). The weather scales how hard it blows.
+
+const gust = (time: number, x: number) => Math.sin(time * 0.7 + x * 0.3) + Math.sin(time * 1.3 + x * 0.8) * 0.3;
+
+// Gust value along x at a given time; roughly in [-1.3, 1.3] times the weather's wind strength
+export const windAt = (time: number, x: number) => gust(time, x) * weatherClock.wind;
+
+// Gust mapped to 0..1, for things that only care how hard it blows
+export const windIntensity = (time: number, x: number) =>
+  Math.min(1, Math.max(0, ((gust(time, x) + 1.3) / 2.6) * (0.6 + weatherClock.wind * 0.4)));